@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "linkedinHandle" VARCHAR(100),
+ADD COLUMN     "twitterHandle" VARCHAR(50),
+ADD COLUMN     "website" VARCHAR(300);
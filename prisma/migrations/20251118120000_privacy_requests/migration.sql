@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "PrivacyRequestType" AS ENUM ('EXPORT', 'ERASURE');
+
+-- CreateEnum
+CREATE TYPE "PrivacyRequestStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "PrivacyRequest" (
+    "id" TEXT NOT NULL,
+    "type" "PrivacyRequestType" NOT NULL,
+    "status" "PrivacyRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "subjectUserId" VARCHAR(36),
+    "subjectEmail" VARCHAR(255),
+    "fingerprints" TEXT[],
+    "ipHashes" TEXT[],
+    "reassignTo" VARCHAR(36),
+    "requestedById" TEXT,
+    "resultKey" VARCHAR(300),
+    "report" JSONB,
+    "error" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PrivacyRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PrivacyRequest_status_createdAt_idx" ON "PrivacyRequest"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PrivacyRequest" ADD CONSTRAINT "PrivacyRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
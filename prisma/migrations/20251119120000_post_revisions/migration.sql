@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "PostRevision" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "excerpt" VARCHAR(300),
+    "content" JSONB NOT NULL,
+    "coverId" TEXT,
+    "status" "PostStatus" NOT NULL,
+    "visibility" "Visibility" NOT NULL,
+    "categoryNames" TEXT[],
+    "tagNames" TEXT[],
+    "editorId" TEXT,
+    "restoredFromVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PostRevision_createdAt_idx" ON "PostRevision"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PostRevision_postId_version_key" ON "PostRevision"("postId", "version");
+
+-- AddForeignKey
+ALTER TABLE "PostRevision" ADD CONSTRAINT "PostRevision_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostRevision" ADD CONSTRAINT "PostRevision_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
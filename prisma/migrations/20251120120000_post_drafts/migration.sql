@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "PostDraft" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "excerpt" VARCHAR(300),
+    "content" JSONB NOT NULL,
+    "coverId" TEXT,
+    "categoryNames" TEXT[],
+    "tagNames" TEXT[],
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PostDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PostDraft_postId_key" ON "PostDraft"("postId");
+
+-- AddForeignKey
+ALTER TABLE "PostDraft" ADD CONSTRAINT "PostDraft_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostDraft" ADD CONSTRAINT "PostDraft_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "PostPreviewToken" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "tokenHash" VARCHAR(64) NOT NULL,
+    "label" VARCHAR(100),
+    "createdById" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostPreviewToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PostPreviewUse" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "ipHash" VARCHAR(64),
+    "userAgent" VARCHAR(300),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostPreviewUse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PostPreviewToken_tokenHash_key" ON "PostPreviewToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "PostPreviewToken_postId_idx" ON "PostPreviewToken"("postId");
+
+-- CreateIndex
+CREATE INDEX "PostPreviewUse_tokenId_createdAt_idx" ON "PostPreviewUse"("tokenId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PostPreviewToken" ADD CONSTRAINT "PostPreviewToken_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostPreviewToken" ADD CONSTRAINT "PostPreviewToken_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostPreviewUse" ADD CONSTRAINT "PostPreviewUse_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "PostPreviewToken"("id") ON DELETE CASCADE ON UPDATE CASCADE;
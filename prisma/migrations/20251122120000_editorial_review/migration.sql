@@ -0,0 +1,56 @@
+-- AlterEnum
+ALTER TYPE "PostStatus" ADD VALUE 'IN_REVIEW';
+
+-- CreateEnum
+CREATE TYPE "ReviewDecision" AS ENUM ('PENDING', 'APPROVED', 'CHANGES_REQUESTED', 'CANCELED');
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "approvedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PostReview" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "reviewerId" TEXT,
+    "requestedById" TEXT,
+    "decision" "ReviewDecision" NOT NULL DEFAULT 'PENDING',
+    "message" VARCHAR(2000),
+    "comment" VARCHAR(2000),
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PostReviewNote" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "path" VARCHAR(200),
+    "quote" VARCHAR(500),
+    "body" VARCHAR(2000) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostReviewNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PostReview_postId_createdAt_idx" ON "PostReview"("postId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PostReview_reviewerId_decision_idx" ON "PostReview"("reviewerId", "decision");
+
+-- CreateIndex
+CREATE INDEX "PostReviewNote_reviewId_idx" ON "PostReviewNote"("reviewId");
+
+-- AddForeignKey
+ALTER TABLE "PostReview" ADD CONSTRAINT "PostReview_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostReview" ADD CONSTRAINT "PostReview_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostReview" ADD CONSTRAINT "PostReview_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostReviewNote" ADD CONSTRAINT "PostReviewNote_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "PostReview"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ImportStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "WordPressImport" (
+    "id" TEXT NOT NULL,
+    "status" "ImportStatus" NOT NULL DEFAULT 'PENDING',
+    "sourceKey" VARCHAR(300) NOT NULL,
+    "filename" VARCHAR(255),
+    "siteUrl" VARCHAR(300),
+    "requestedById" TEXT,
+    "report" JSONB,
+    "error" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WordPressImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ImportedEntity" (
+    "id" TEXT NOT NULL,
+    "source" VARCHAR(300) NOT NULL,
+    "kind" VARCHAR(20) NOT NULL,
+    "externalId" VARCHAR(100) NOT NULL,
+    "localId" VARCHAR(36) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportedEntity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WordPressImport_status_createdAt_idx" ON "WordPressImport"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportedEntity_source_kind_externalId_key" ON "ImportedEntity"("source", "kind", "externalId");
+
+-- AddForeignKey
+ALTER TABLE "WordPressImport" ADD CONSTRAINT "WordPressImport_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
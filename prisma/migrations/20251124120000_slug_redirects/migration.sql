@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "SlugRedirect" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "custom" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SlugRedirect_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlugRedirect_slug_key" ON "SlugRedirect"("slug");
+
+-- CreateIndex
+CREATE INDEX "SlugRedirect_postId_idx" ON "SlugRedirect"("postId");
+
+-- AddForeignKey
+ALTER TABLE "SlugRedirect" ADD CONSTRAINT "SlugRedirect_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlugRedirect" ADD CONSTRAINT "SlugRedirect_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Post_deletedAt_idx" ON "Post"("deletedAt");
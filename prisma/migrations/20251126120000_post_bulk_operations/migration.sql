@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "BulkOperationStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "PostBulkOperation" (
+    "id" TEXT NOT NULL,
+    "status" "BulkOperationStatus" NOT NULL DEFAULT 'PENDING',
+    "operation" VARCHAR(30) NOT NULL,
+    "params" JSONB NOT NULL,
+    "postIds" TEXT[],
+    "requestedById" TEXT,
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "succeeded" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "failures" JSONB,
+    "error" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PostBulkOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PostBulkOperation_status_createdAt_idx" ON "PostBulkOperation"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PostBulkOperation" ADD CONSTRAINT "PostBulkOperation_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "Series" (
+    "id" TEXT NOT NULL,
+    "title" VARCHAR(160) NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SeriesPost" (
+    "seriesId" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "SeriesPost_pkey" PRIMARY KEY ("seriesId","postId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Series_slug_key" ON "Series"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeriesPost_postId_key" ON "SeriesPost"("postId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeriesPost_seriesId_position_key" ON "SeriesPost"("seriesId", "position");
+
+-- AddForeignKey
+ALTER TABLE "SeriesPost" ADD CONSTRAINT "SeriesPost_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "Series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeriesPost" ADD CONSTRAINT "SeriesPost_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
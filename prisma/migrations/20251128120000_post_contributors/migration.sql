@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ContributorRole" AS ENUM ('AUTHOR', 'REVIEWER', 'TRANSLATOR');
+
+-- CreateTable
+CREATE TABLE "PostContributor" (
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "ContributorRole" NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostContributor_pkey" PRIMARY KEY ("postId","userId","role")
+);
+
+-- CreateIndex
+CREATE INDEX "PostContributor_userId_role_idx" ON "PostContributor"("userId", "role");
+
+-- AddForeignKey
+ALTER TABLE "PostContributor" ADD CONSTRAINT "PostContributor_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostContributor" ADD CONSTRAINT "PostContributor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
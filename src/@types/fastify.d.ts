@@ -1,7 +1,19 @@
 import "fastify"
+import "@fastify/jwt"
+
+import type { AuthUser } from "@/utils/permissions"
 
 declare module "fastify" {
   export interface FastifyRequest {
     getCurrentUserId(): Promise<string>
+    getCurrentSessionId(): Promise<string>
+  }
+}
+
+declare module "@fastify/jwt" {
+  interface FastifyJWT {
+    payload: { sub: string; sid: string }
+    // preenchido pelo preHandler `authorize`
+    user: AuthUser
   }
 }
@@ -8,7 +8,6 @@ export const env = createEnv({
   server: {
     PORT: z.number().default(3333),
     API_URL: z.string(),
-    API_KEY: z.string().min(1),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -17,6 +16,12 @@ export const env = createEnv({
     REDIS_PORT: z.coerce.number().default(6380),
     NODEMAILER_USER: z.string().min(1),
     NODEMAILER_PASSWORD: z.string().min(1),
+    // proxies reversos à frente da API; só eles podem definir X-Forwarded-For
+    TRUST_PROXY_HOPS: z.coerce.number().int().min(0).default(0),
+    SIGN_IN_ALERT_EMAILS: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
     OTEL_EXPORTER_OTLP_ENDPOINT: z.string().min(1),
     S3_BUCKET_NAME: z.string().min(1),
     S3_REGION: z.string().min(1),
@@ -32,9 +37,10 @@ export const env = createEnv({
     REDIS_PORT: process.env.REDIS_PORT,
     FAMILY_STORAGE_PATH: process.env.FAMILY_STORAGE_PATH,
     API_URL: process.env.API_URL,
-    API_KEY: process.env.API_KEY,
     NODEMAILER_USER: process.env.NODEMAILER_USER,
     NODEMAILER_PASSWORD: process.env.NODEMAILER_PASSWORD,
+    TRUST_PROXY_HOPS: process.env.TRUST_PROXY_HOPS,
+    SIGN_IN_ALERT_EMAILS: process.env.SIGN_IN_ALERT_EMAILS,
     OTEL_EXPORTER_OTLP_ENDPOINT: process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
     S3_BUCKET_NAME: process.env.S3_BUCKET_NAME,
     S3_REGION: process.env.S3_REGION,
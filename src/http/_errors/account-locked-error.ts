@@ -0,0 +1,10 @@
+export class AccountLockedError extends Error {
+  readonly code = "ACCOUNT_LOCKED"
+
+  constructor(
+    message?: string,
+    readonly retryAfterSeconds?: number,
+  ) {
+    super(message ?? "Account temporarily locked.")
+  }
+}
@@ -0,0 +1,10 @@
+export class ConflictError extends Error {
+  readonly code = "CONFLICT"
+
+  constructor(
+    message?: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message ?? "Conflict.")
+  }
+}
@@ -0,0 +1,5 @@
+export class ForbiddenError extends Error {
+  constructor(message?: string) {
+    super(message ?? "Forbidden.")
+  }
+}
@@ -0,0 +1,5 @@
+export class TooManyRequestsError extends Error {
+  constructor(message?: string) {
+    super(message ?? "Too many requests.")
+  }
+}
@@ -0,0 +1,13 @@
+export type ValidationIssue = {
+  path: string // caminho JSON, ex: "content.blocks[2].level"
+  message: string
+}
+
+export class ValidationError extends Error {
+  constructor(
+    message?: string,
+    readonly issues: ValidationIssue[] = [],
+  ) {
+    super(message ?? "Validation error")
+  }
+}
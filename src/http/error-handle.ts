@@ -2,8 +2,13 @@ import type { FastifyInstance } from "fastify"
 import { ZodError } from "zod"
 
 import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { ValidationError } from "@/http/_errors/validation-error"
 import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { ForbiddenError } from "@/http/_errors/forbidden-error"
 import { NotFoundError } from "@/http/_errors/not-found-error"
+import { ConflictError } from "@/http/_errors/conflict-error"
+import { TooManyRequestsError } from "@/http/_errors/too-many-requests-error"
+import { AccountLockedError } from "@/http/_errors/account-locked-error"
 
 type FastifyErrorHandler = FastifyInstance["errorHandler"]
 
@@ -15,6 +20,13 @@ export const errorHandler: FastifyErrorHandler = (error, request, reply) => {
     })
   }
 
+  if (error instanceof ValidationError) {
+    reply.status(400).send({
+      message: error.message,
+      errors: error.issues,
+    })
+  }
+
   if (error instanceof BadRequestError) {
     reply.status(400).send({
       message: error.message,
@@ -27,12 +39,43 @@ export const errorHandler: FastifyErrorHandler = (error, request, reply) => {
     })
   }
 
+  if (error instanceof ForbiddenError) {
+    reply.status(403).send({
+      message: error.message,
+    })
+  }
+
   if (error instanceof NotFoundError) {
     reply.status(404).send({
       message: error.message,
     })
   }
 
+  if (error instanceof ConflictError) {
+    reply.status(409).send({
+      message: error.message,
+      code: error.code,
+      details: error.details ?? null,
+    })
+  }
+
+  if (error instanceof TooManyRequestsError) {
+    reply.status(429).send({
+      message: error.message,
+    })
+  }
+
+  if (error instanceof AccountLockedError) {
+    if (error.retryAfterSeconds) {
+      reply.header("Retry-After", String(error.retryAfterSeconds))
+    }
+    reply.status(423).send({
+      message: error.message,
+      code: error.code,
+      retryAfter: error.retryAfterSeconds ?? null,
+    })
+  }
+
   // console.error(error)
 
   // send error to some observability platform
@@ -1,14 +1,59 @@
-import { env } from "@/env"
 import type { FastifyInstance } from "fastify"
 import { fastifyPlugin } from "fastify-plugin"
+import { ForbiddenError } from "../_errors/forbidden-error"
 import { UnauthorizedError } from "../_errors/unauthorized-error"
+import { prisma } from "@/lib/prisma"
+import { hashApiKey, hasScopes, type ApiKeyScope } from "@/utils/api-key-utils"
 
-export const apiKey = fastifyPlugin(async (app: FastifyInstance) => {
-  app.addHook("onRequest", async (request) => {
-    const apiKey = request.headers["x-api-key"]
+// evita um UPDATE por requisição: lastUsedAt é atualizado no máximo 1x/minuto
+const LAST_USED_THROTTLE_MS = 60 * 1000
 
-    if (apiKey !== env.API_KEY) {
-      throw new UnauthorizedError("Invalid api key")
-    }
-  })
-})
+export const apiKey = fastifyPlugin<{ scopes: ApiKeyScope[] }>(
+  async (app: FastifyInstance, { scopes }) => {
+    app.addHook("onRequest", async (request) => {
+      const key = request.headers["x-api-key"]
+
+      if (typeof key !== "string" || !key) {
+        throw new UnauthorizedError("Invalid api key")
+      }
+
+      const found = await prisma.apiKey.findUnique({
+        where: { keyHash: hashApiKey(key) },
+        select: {
+          id: true,
+          scopes: true,
+          expiresAt: true,
+          revokedAt: true,
+          lastUsedAt: true,
+        },
+      })
+
+      const now = new Date()
+
+      if (
+        !found ||
+        found.revokedAt ||
+        (found.expiresAt && found.expiresAt <= now)
+      ) {
+        throw new UnauthorizedError("Invalid api key")
+      }
+
+      // chave válida, mas sem permissão: 403 para diferenciar de chave inválida
+      if (!hasScopes(found.scopes, scopes)) {
+        throw new ForbiddenError(
+          `Api key sem o escopo necessário (${scopes.join(", ")}).`,
+        )
+      }
+
+      if (
+        !found.lastUsedAt ||
+        now.getTime() - found.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS
+      ) {
+        await prisma.apiKey.update({
+          where: { id: found.id },
+          data: { lastUsedAt: now },
+        })
+      }
+    })
+  },
+)
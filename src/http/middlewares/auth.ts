@@ -1,17 +1,46 @@
-import type { FastifyInstance } from "fastify"
+import type { FastifyInstance, FastifyRequest } from "fastify"
 import { fastifyPlugin } from "fastify-plugin"
 
 import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { prisma } from "@/lib/prisma"
+
+async function verifySession(request: FastifyRequest) {
+  let payload: { sub: string; sid?: string }
+  try {
+    payload = await request.jwtVerify<{ sub: string; sid?: string }>()
+  } catch {
+    throw new UnauthorizedError("Invalid token")
+  }
+
+  // tokens sem sessão (emitidos antes das sessões) não são mais aceitos
+  if (!payload.sid) {
+    throw new UnauthorizedError("Invalid token")
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    select: { userId: true, revokedAt: true, expiresAt: true },
+  })
+
+  if (
+    !session ||
+    session.userId !== payload.sub ||
+    session.revokedAt ||
+    session.expiresAt <= new Date()
+  ) {
+    throw new UnauthorizedError("Sessão encerrada.")
+  }
+
+  return { userId: payload.sub, sessionId: payload.sid }
+}
 
 export const auth = fastifyPlugin(async (app: FastifyInstance) => {
   app.addHook("preHandler", async (request) => {
-    request.getCurrentUserId = async () => {
-      try {
-        const { sub } = await request.jwtVerify<{ sub: string }>()
-        return sub
-      } catch {
-        throw new UnauthorizedError("Invalid token")
-      }
-    }
+    // verifica token + sessão uma única vez por requisição
+    let verified: ReturnType<typeof verifySession> | undefined
+    const verify = () => (verified ??= verifySession(request))
+
+    request.getCurrentUserId = async () => (await verify()).userId
+    request.getCurrentSessionId = async () => (await verify()).sessionId
   })
-})
\ No newline at end of file
+})
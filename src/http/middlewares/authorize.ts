@@ -0,0 +1,34 @@
+import type { FastifyRequest } from "fastify"
+
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { prisma } from "@/lib/prisma"
+import { assertCan, type Action } from "@/utils/permissions"
+
+/**
+ * preHandler de rota: carrega o usuário autenticado em `request.user` e
+ * exige todas as ações informadas. Depende do plugin `auth` registrado antes.
+ */
+export function authorize(...actions: Action[]) {
+  return async (request: FastifyRequest) => {
+    const userId = await request.getCurrentUserId()
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        username: true,
+        name: true,
+        email: true,
+      },
+    })
+
+    if (!user) throw new UnauthorizedError("Usuário não autenticado.")
+
+    for (const action of actions) {
+      assertCan(user, action)
+    }
+
+    request.user = user
+  }
+}
@@ -0,0 +1,85 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { API_KEY_SCOPES, generateApiKey } from "@/utils/api-key-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function createApiKey(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/api-keys",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Cria uma API key (a chave só é exibida nesta resposta)",
+          security: [{ bearerAuth: [] }],
+          body: z.object({
+            name: z.string().trim().min(1).max(100),
+            scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+            expiresAt: z.coerce.date().optional(),
+          }),
+          response: {
+            201: z.object({
+              id: z.string().uuid(),
+              name: z.string(),
+              key: z.string(),
+              prefix: z.string(),
+              scopes: z.array(z.string()),
+              expiresAt: z.date().nullable(),
+              createdAt: z.date(),
+            }),
+          },
+        },
+        preHandler: [authorize("api-key:manage")],
+      },
+      async (request, reply) => {
+        const { name, scopes, expiresAt } = request.body
+
+        if (expiresAt && expiresAt <= new Date()) {
+          throw new BadRequestError("expiresAt deve estar no futuro.")
+        }
+
+        const { key, prefix, keyHash } = generateApiKey()
+
+        const created = await prisma.apiKey.create({
+          data: {
+            name,
+            prefix,
+            keyHash,
+            scopes: [...new Set(scopes)],
+            expiresAt: expiresAt ?? null,
+            createdById: request.user.id,
+          },
+          select: {
+            id: true,
+            name: true,
+            prefix: true,
+            scopes: true,
+            expiresAt: true,
+            createdAt: true,
+          },
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "api-key.create",
+          targetType: "api-key",
+          targetId: created.id,
+          after: {
+            name: created.name,
+            scopes: created.scopes,
+            expiresAt: created.expiresAt,
+          },
+        })
+
+        return reply.code(201).send({ ...created, key })
+      },
+    )
+}
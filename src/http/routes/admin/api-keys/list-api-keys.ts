@@ -0,0 +1,71 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { prisma } from "@/lib/prisma"
+
+export async function listApiKeys(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/api-keys",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Lista as API keys",
+          security: [{ bearerAuth: [] }],
+          querystring: z.object({
+            includeRevoked: z
+              .union([z.literal("true"), z.literal("false")])
+              .default("false")
+              .transform((v) => v === "true"),
+          }),
+          response: {
+            200: z.object({
+              keys: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  name: z.string(),
+                  prefix: z.string(),
+                  scopes: z.array(z.string()),
+                  lastUsedAt: z.date().nullable(),
+                  expiresAt: z.date().nullable(),
+                  revokedAt: z.date().nullable(),
+                  createdAt: z.date(),
+                  createdBy: z
+                    .object({
+                      id: z.string().uuid(),
+                      username: z.string(),
+                    })
+                    .nullable(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("api-key:manage")],
+      },
+      async (request, reply) => {
+        const keys = await prisma.apiKey.findMany({
+          where: request.query.includeRevoked ? {} : { revokedAt: null },
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            name: true,
+            prefix: true,
+            scopes: true,
+            lastUsedAt: true,
+            expiresAt: true,
+            revokedAt: true,
+            createdAt: true,
+            createdBy: { select: { id: true, username: true } },
+          },
+        })
+
+        return reply.send({ keys })
+      },
+    )
+}
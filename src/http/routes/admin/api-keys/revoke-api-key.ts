@@ -0,0 +1,51 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { prisma } from "@/lib/prisma"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function revokeApiKey(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/admin/api-keys/:id",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Revoga uma API key",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            204: z.null(),
+          },
+        },
+        preHandler: [authorize("api-key:manage")],
+      },
+      async (request, reply) => {
+        const revoked = await prisma.apiKey.updateMany({
+          where: { id: request.params.id, revokedAt: null },
+          data: { revokedAt: new Date() },
+        })
+
+        if (revoked.count === 0) {
+          throw new NotFoundError("API key não encontrada.")
+        }
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "api-key.revoke",
+          targetType: "api-key",
+          targetId: request.params.id,
+        })
+
+        return reply.code(204).send()
+      },
+    )
+}
@@ -0,0 +1,126 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import type { Prisma } from "@prisma/client"
+
+export async function listAuditEvents(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/audit",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary:
+            "Lista eventos de auditoria (filtros por ator, alvo e período)",
+          security: [{ bearerAuth: [] }],
+          querystring: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            perPage: z.coerce.number().int().min(1).max(100).default(20),
+            actorId: z.string().uuid().optional(),
+            action: z.string().trim().min(1).max(100).optional(),
+            targetType: z.string().trim().min(1).max(50).optional(),
+            targetId: z.string().trim().min(1).max(100).optional(),
+            from: z.string().datetime().optional(),
+            to: z.string().datetime().optional(),
+          }),
+          response: {
+            200: z.object({
+              meta: z.object({
+                page: z.number().int(),
+                perPage: z.number().int(),
+                total: z.number().int(),
+                totalPages: z.number().int(),
+              }),
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  action: z.string(),
+                  targetType: z.string(),
+                  targetId: z.string().nullable(),
+                  diff: z.any(),
+                  ip: z.string().nullable(),
+                  userAgent: z.string().nullable(),
+                  createdAt: z.string().datetime(),
+                  actor: z
+                    .object({
+                      id: z.string().uuid(),
+                      username: z.string(),
+                      name: z.string(),
+                    })
+                    .nullable(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("audit:read")],
+      },
+      async (request, reply) => {
+        const {
+          page,
+          perPage,
+          actorId,
+          action,
+          targetType,
+          targetId,
+          from,
+          to,
+        } = request.query
+
+        const fromDate = from ? new Date(from) : undefined
+        const toDate = to ? new Date(to) : undefined
+        if (fromDate && toDate && fromDate > toDate) {
+          throw new BadRequestError("'from' deve ser anterior a 'to'.")
+        }
+
+        const where: Prisma.AuditEventWhereInput = {
+          ...(actorId ? { actorId } : {}),
+          ...(action ? { action } : {}),
+          ...(targetType ? { targetType } : {}),
+          ...(targetId ? { targetId } : {}),
+          ...(fromDate || toDate
+            ? { createdAt: { gte: fromDate, lte: toDate } }
+            : {}),
+        }
+
+        const [total, rows] = await Promise.all([
+          prisma.auditEvent.count({ where }),
+          prisma.auditEvent.findMany({
+            where,
+            orderBy: { createdAt: "desc" },
+            skip: (page - 1) * perPage,
+            take: perPage,
+            include: {
+              actor: { select: { id: true, username: true, name: true } },
+            },
+          }),
+        ])
+
+        const items = rows.map((e) => ({
+          id: e.id,
+          action: e.action,
+          targetType: e.targetType,
+          targetId: e.targetId,
+          diff: e.diff,
+          ip: e.ip,
+          userAgent: e.userAgent,
+          createdAt: e.createdAt.toISOString(),
+          actor: e.actor,
+        }))
+
+        const totalPages = Math.max(1, Math.ceil(total / perPage))
+
+        return reply.send({
+          meta: { page, perPage, total, totalPages },
+          items,
+        })
+      },
+    )
+}
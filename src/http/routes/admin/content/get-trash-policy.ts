@@ -0,0 +1,39 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { prisma } from "@/lib/prisma"
+import { getTrashRetentionDays } from "@/utils/trash-utils"
+
+export async function getTrashPolicy(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/content/trash",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Retenção da lixeira de posts",
+          security: [{ bearerAuth: [] }],
+          response: {
+            200: z.object({
+              retentionDays: z.number().int(),
+              postsInTrash: z.number().int().nonnegative(),
+            }),
+          },
+        },
+        preHandler: [authorize("settings:manage")],
+      },
+      async (request, reply) => {
+        const [retentionDays, postsInTrash] = await Promise.all([
+          getTrashRetentionDays(),
+          prisma.post.count({ where: { deletedAt: { not: null } } }),
+        ])
+
+        return reply.send({ retentionDays, postsInTrash })
+      },
+    )
+}
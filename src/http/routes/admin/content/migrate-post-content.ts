@@ -0,0 +1,42 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { CONTENT_SCHEMA_VERSION } from "@/utils/content-utils"
+
+export async function migratePostContent(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/content/migrate",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary:
+            "Enfileira a migração dos conteúdos antigos para o schema atual",
+          security: [{ bearerAuth: [] }],
+          response: {
+            202: z.object({
+              jobId: z.string(),
+              targetVersion: z.number().int(),
+            }),
+          },
+        },
+        preHandler: [authorize("settings:manage")],
+      },
+      async (request, reply) => {
+        const job = await Queue.add("MigratePostContent", {
+          requestedById: request.user.id,
+        })
+
+        return reply.code(202).send({
+          jobId: String(job.id),
+          targetVersion: CONTENT_SCHEMA_VERSION,
+        })
+      },
+    )
+}
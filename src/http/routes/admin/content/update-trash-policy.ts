@@ -0,0 +1,55 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { setSetting, SETTINGS } from "@/utils/settings-utils"
+import { getTrashRetentionDays, TRASH_RETENTION } from "@/utils/trash-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function updateTrashPolicy(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .put(
+      "/admin/content/trash",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Define por quantos dias posts excluídos ficam na lixeira",
+          security: [{ bearerAuth: [] }],
+          body: z.object({
+            retentionDays: z
+              .number()
+              .int()
+              .min(TRASH_RETENTION.minDays)
+              .max(TRASH_RETENTION.maxDays),
+          }),
+          response: {
+            200: z.object({
+              retentionDays: z.number().int(),
+            }),
+          },
+        },
+        preHandler: [authorize("settings:manage")],
+      },
+      async (request, reply) => {
+        const { retentionDays } = request.body
+
+        const previous = await getTrashRetentionDays()
+        await setSetting(SETTINGS.postTrashRetentionDays, retentionDays)
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "settings.update",
+          targetType: "setting",
+          targetId: SETTINGS.postTrashRetentionDays,
+          before: { value: previous },
+          after: { value: retentionDays },
+        })
+
+        return reply.send({ retentionDays })
+      },
+    )
+}
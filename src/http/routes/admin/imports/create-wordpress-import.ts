@@ -0,0 +1,88 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { uploadToS3, streamToBuffer } from "@/lib/s3"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { ImportStatus } from "@prisma/client"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+const ALLOWED_MIMES = new Set([
+  "application/xml",
+  "text/xml",
+  "application/rss+xml",
+  "application/octet-stream",
+])
+
+export async function createWordPressImport(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/imports/wordpress",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Envia um export WXR do WordPress para importação",
+          security: [{ bearerAuth: [] }],
+          consumes: ["multipart/form-data"],
+          response: {
+            202: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(ImportStatus),
+            }),
+          },
+        },
+        preHandler: [authorize("settings:manage")],
+      },
+      async (request, reply) => {
+        const file = await request.file()
+
+        if (!file) throw new BadRequestError("Arquivo 'file' é obrigatório.")
+        if (
+          !ALLOWED_MIMES.has(file.mimetype) ||
+          !file.filename.toLowerCase().endsWith(".xml")
+        ) {
+          throw new BadRequestError(
+            "Envie o arquivo .xml exportado do WordPress.",
+          )
+        }
+
+        const buffer = await streamToBuffer(file.file)
+        if (file.file.truncated) {
+          // exports grandes: o WordPress permite exportar por autor ou período
+          throw new BadRequestError("Arquivo excede o limite permitido.")
+        }
+
+        const { key } = await uploadToS3(
+          { buffer, filename: file.filename, mimetype: "application/xml" },
+          "imports/wordpress",
+        )
+
+        const created = await prisma.wordPressImport.create({
+          data: {
+            sourceKey: key,
+            filename: file.filename.slice(0, 255),
+            requestedById: request.user.id,
+          },
+          select: { id: true, status: true },
+        })
+
+        await Queue.add("ImportWordPress", { importId: created.id })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "wordpress.import.request",
+          targetType: "wordpress_import",
+          targetId: created.id,
+          after: { filename: file.filename },
+        })
+
+        return reply.status(202).send(created)
+      },
+    )
+}
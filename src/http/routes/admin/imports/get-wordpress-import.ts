@@ -0,0 +1,64 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { ImportStatus } from "@prisma/client"
+import { isoOrNull } from "@/utils/blog-utils"
+
+export async function getWordPressImport(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/imports/wordpress/:id",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Status e relatório de uma importação do WordPress",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(ImportStatus),
+              filename: z.string().nullable(),
+              siteUrl: z.string().nullable(),
+              requestedById: z.string().nullable(),
+              // contagens por tipo + itens ignorados/avisos com o motivo
+              report: z.record(z.string(), z.unknown()).nullable(),
+              error: z.string().nullable(),
+              createdAt: z.string().datetime(),
+              startedAt: z.string().datetime().nullable(),
+              completedAt: z.string().datetime().nullable(),
+            }),
+          },
+        },
+        preHandler: [authorize("settings:manage")],
+      },
+      async (request, reply) => {
+        const row = await prisma.wordPressImport.findUnique({
+          where: { id: request.params.id },
+        })
+        if (!row) throw new NotFoundError("Importação não encontrada.")
+
+        return reply.send({
+          id: row.id,
+          status: row.status,
+          filename: row.filename,
+          siteUrl: row.siteUrl,
+          requestedById: row.requestedById,
+          report: (row.report as Record<string, unknown>) ?? null,
+          error: row.error,
+          createdAt: row.createdAt.toISOString(),
+          startedAt: isoOrNull(row.startedAt),
+          completedAt: isoOrNull(row.completedAt),
+        })
+      },
+    )
+}
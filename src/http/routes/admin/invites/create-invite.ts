@@ -0,0 +1,88 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { Role } from "@prisma/client"
+import { normalizeEmail } from "@/utils/auth-utils"
+import { INVITE_TTL_MS } from "@/queue/jobs/send-invite-email"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function createInvite(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/invites",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary:
+            "Convida um e-mail para criar uma conta com o cargo informado",
+          security: [{ bearerAuth: [] }],
+          body: z.object({
+            email: z.string().trim().email(),
+            role: z.nativeEnum(Role).default(Role.EDITOR),
+          }),
+          response: {
+            201: z.object({
+              id: z.string().uuid(),
+              email: z.string(),
+              role: z.nativeEnum(Role),
+              expiresAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("user:invite")],
+      },
+      async (request, reply) => {
+        const email = normalizeEmail(request.body.email)
+        const { role } = request.body
+
+        const existingUser = await prisma.user.findFirst({
+          where: { email: { equals: email, mode: "insensitive" } },
+          select: { id: true },
+        })
+        if (existingUser) {
+          throw new BadRequestError("Já existe um usuário com este e-mail.")
+        }
+
+        const invite = await prisma.$transaction(async (tx) => {
+          // um convite pendente por e-mail: o novo substitui os anteriores
+          await tx.invite.updateMany({
+            where: { email, acceptedAt: null, revokedAt: null },
+            data: { revokedAt: new Date() },
+          })
+
+          return tx.invite.create({
+            data: {
+              email,
+              role,
+              invitedById: request.user.id,
+              expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+            },
+            select: { id: true, email: true, role: true, expiresAt: true },
+          })
+        })
+
+        await Queue.add("SendInviteEmail", { inviteId: invite.id })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "invite.create",
+          targetType: "invite",
+          targetId: invite.id,
+          after: { email: invite.email, role: invite.role },
+        })
+
+        return reply.code(201).send({
+          ...invite,
+          expiresAt: invite.expiresAt.toISOString(),
+        })
+      },
+    )
+}
@@ -0,0 +1,70 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { Role } from "@prisma/client"
+
+export async function listInvites(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/invites",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Lista os convites pendentes",
+          security: [{ bearerAuth: [] }],
+          response: {
+            200: z.object({
+              invites: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  email: z.string(),
+                  role: z.nativeEnum(Role),
+                  expiresAt: z.string().datetime(),
+                  createdAt: z.string().datetime(),
+                  invitedBy: z
+                    .object({
+                      id: z.string().uuid(),
+                      username: z.string(),
+                    })
+                    .nullable(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("user:invite")],
+      },
+      async (request, reply) => {
+        const rows = await prisma.invite.findMany({
+          where: {
+            acceptedAt: null,
+            revokedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            email: true,
+            role: true,
+            expiresAt: true,
+            createdAt: true,
+            invitedBy: { select: { id: true, username: true } },
+          },
+        })
+
+        const invites = rows.map((i) => ({
+          ...i,
+          expiresAt: i.expiresAt.toISOString(),
+          createdAt: i.createdAt.toISOString(),
+        }))
+
+        return reply.send({ invites })
+      },
+    )
+}
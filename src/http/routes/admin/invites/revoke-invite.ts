@@ -0,0 +1,51 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function revokeInvite(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/admin/invites/:id",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Revoga um convite pendente",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            204: z.null(),
+          },
+        },
+        preHandler: [authorize("user:invite")],
+      },
+      async (request, reply) => {
+        const revoked = await prisma.invite.updateMany({
+          where: { id: request.params.id, acceptedAt: null, revokedAt: null },
+          data: { revokedAt: new Date() },
+        })
+
+        if (revoked.count === 0) {
+          throw new NotFoundError("Convite não encontrado.")
+        }
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "invite.revoke",
+          targetType: "invite",
+          targetId: request.params.id,
+        })
+
+        return reply.code(204).send()
+      },
+    )
+}
@@ -0,0 +1,106 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PrivacyRequestStatus, PrivacyRequestType } from "@prisma/client"
+import { can } from "@/utils/permissions"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import { privacySubjectSchema, toPrivacySubject } from "@/utils/privacy-utils"
+
+export async function createPrivacyErasure(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/privacy/erasures",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary:
+            "Solicita a eliminação (LGPD) dos dados pessoais de um titular",
+          security: [{ bearerAuth: [] }],
+          body: privacySubjectSchema.extend({
+            // obrigatório quando o titular tem posts (Post.author é RESTRICT)
+            reassignTo: z.string().uuid().optional(),
+          }),
+          response: {
+            202: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(PrivacyRequestStatus),
+            }),
+          },
+        },
+        preHandler: [authorize("privacy:manage")],
+      },
+      async (request, reply) => {
+        const subject = toPrivacySubject(request.body)
+        const { reassignTo } = request.body
+
+        if (subject.subjectUserId) {
+          if (subject.subjectUserId === request.user.id) {
+            throw new BadRequestError(
+              "Você não pode solicitar a eliminação da própria conta.",
+            )
+          }
+
+          const user = await prisma.user.findUnique({
+            where: { id: subject.subjectUserId },
+            select: { id: true, _count: { select: { Post: true } } },
+          })
+          if (!user) throw new NotFoundError("Usuário não encontrado!")
+
+          if (user._count.Post > 0) {
+            if (!reassignTo) {
+              throw new BadRequestError(
+                "O usuário possui posts: informe 'reassignTo' com o novo autor.",
+              )
+            }
+            if (reassignTo === user.id) {
+              throw new BadRequestError("O novo autor deve ser outro usuário.")
+            }
+
+            const target = await prisma.user.findUnique({
+              where: { id: reassignTo },
+              select: { id: true, role: true, deactivatedAt: true },
+            })
+            if (!target) throw new NotFoundError("Novo autor não encontrado.")
+            if (target.deactivatedAt || !can(target, "post:create")) {
+              throw new BadRequestError(
+                "O novo autor precisa ser um usuário ativo que possa publicar.",
+              )
+            }
+          }
+        }
+
+        const privacyRequest = await prisma.privacyRequest.create({
+          data: {
+            ...subject,
+            type: PrivacyRequestType.ERASURE,
+            reassignTo: subject.subjectUserId ? (reassignTo ?? null) : null,
+            requestedById: request.user.id,
+          },
+          select: { id: true, status: true },
+        })
+
+        await Queue.add("ProcessPrivacyRequest", {
+          requestId: privacyRequest.id,
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "privacy.erasure.request",
+          targetType: "privacy_request",
+          targetId: privacyRequest.id,
+          after: { subjectUserId: subject.subjectUserId, reassignTo },
+        })
+
+        return reply.status(202).send(privacyRequest)
+      },
+    )
+}
@@ -0,0 +1,71 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PrivacyRequestStatus, PrivacyRequestType } from "@prisma/client"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import { privacySubjectSchema, toPrivacySubject } from "@/utils/privacy-utils"
+
+export async function createPrivacyExport(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/privacy/exports",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary:
+            "Solicita a exportação (LGPD) dos dados pessoais de um titular",
+          security: [{ bearerAuth: [] }],
+          body: privacySubjectSchema,
+          response: {
+            202: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(PrivacyRequestStatus),
+            }),
+          },
+        },
+        preHandler: [authorize("privacy:manage")],
+      },
+      async (request, reply) => {
+        const subject = toPrivacySubject(request.body)
+
+        if (subject.subjectUserId) {
+          const user = await prisma.user.findUnique({
+            where: { id: subject.subjectUserId },
+            select: { id: true },
+          })
+          if (!user) throw new NotFoundError("Usuário não encontrado!")
+        }
+
+        const privacyRequest = await prisma.privacyRequest.create({
+          data: {
+            ...subject,
+            type: PrivacyRequestType.EXPORT,
+            requestedById: request.user.id,
+          },
+          select: { id: true, status: true },
+        })
+
+        await Queue.add("ProcessPrivacyRequest", {
+          requestId: privacyRequest.id,
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "privacy.export.request",
+          targetType: "privacy_request",
+          targetId: privacyRequest.id,
+          after: { subjectUserId: subject.subjectUserId },
+        })
+
+        return reply.status(202).send(privacyRequest)
+      },
+    )
+}
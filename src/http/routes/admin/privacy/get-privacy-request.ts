@@ -0,0 +1,80 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { getSignedGetUrl } from "@/lib/s3"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PrivacyRequestStatus, PrivacyRequestType } from "@prisma/client"
+import { isoOrNull } from "@/utils/blog-utils"
+
+// validade do link de download da exportação
+const DOWNLOAD_URL_TTL_SECONDS = 10 * 60
+
+export async function getPrivacyRequest(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/privacy/requests/:id",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Status de uma solicitação de exportação/eliminação (LGPD)",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              type: z.nativeEnum(PrivacyRequestType),
+              status: z.nativeEnum(PrivacyRequestStatus),
+              subjectUserId: z.string().nullable(),
+              requestedById: z.string().nullable(),
+              report: z.record(z.string(), z.unknown()).nullable(),
+              error: z.string().nullable(),
+              downloadUrl: z.string().nullable(),
+              createdAt: z.string().datetime(),
+              startedAt: z.string().datetime().nullable(),
+              completedAt: z.string().datetime().nullable(),
+            }),
+          },
+        },
+        preHandler: [authorize("privacy:manage")],
+      },
+      async (request, reply) => {
+        const privacyRequest = await prisma.privacyRequest.findUnique({
+          where: { id: request.params.id },
+        })
+        if (!privacyRequest) {
+          throw new NotFoundError("Solicitação não encontrada.")
+        }
+
+        const downloadUrl =
+          privacyRequest.status === PrivacyRequestStatus.COMPLETED &&
+          privacyRequest.resultKey
+            ? await getSignedGetUrl(
+                privacyRequest.resultKey,
+                DOWNLOAD_URL_TTL_SECONDS,
+              )
+            : null
+
+        return reply.send({
+          id: privacyRequest.id,
+          type: privacyRequest.type,
+          status: privacyRequest.status,
+          subjectUserId: privacyRequest.subjectUserId,
+          requestedById: privacyRequest.requestedById,
+          report: (privacyRequest.report as Record<string, unknown>) ?? null,
+          error: privacyRequest.error,
+          downloadUrl,
+          createdAt: privacyRequest.createdAt.toISOString(),
+          startedAt: isoOrNull(privacyRequest.startedAt),
+          completedAt: isoOrNull(privacyRequest.completedAt),
+        })
+      },
+    )
+}
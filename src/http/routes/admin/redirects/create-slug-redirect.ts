@@ -0,0 +1,101 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { ConflictError } from "@/http/_errors/conflict-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { slugify } from "@/utils/blog-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function createSlugRedirect(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/redirects",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Cria um redirect personalizado de um slug para um post",
+          security: [{ bearerAuth: [] }],
+          body: z.object({
+            slug: z.string().trim().min(1).max(200),
+            postId: z.string().uuid(),
+          }),
+          response: {
+            201: z.object({
+              id: z.string().uuid(),
+              slug: z.string(),
+              postId: z.string().uuid(),
+              custom: z.boolean(),
+              createdAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("redirect:manage")],
+      },
+      async (request, reply) => {
+        const { postId } = request.body
+
+        const slug = slugify(request.body.slug)
+        if (!slug) throw new BadRequestError("slug inválido.")
+
+        const post = await prisma.post.findUnique({
+          where: { id: postId, deletedAt: null },
+          select: { id: true },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        const [usedByPost, existing] = await Promise.all([
+          prisma.post.findUnique({ where: { slug }, select: { id: true } }),
+          prisma.slugRedirect.findUnique({
+            where: { slug },
+            select: { id: true },
+          }),
+        ])
+        if (usedByPost) {
+          throw new ConflictError("Slug em uso por um post.", {
+            postId: usedByPost.id,
+          })
+        }
+        if (existing) {
+          throw new ConflictError("Já existe um redirect para este slug.", {
+            redirectId: existing.id,
+          })
+        }
+
+        const created = await prisma.slugRedirect.create({
+          data: {
+            slug,
+            postId: post.id,
+            custom: true,
+            createdById: request.user.id,
+          },
+          select: {
+            id: true,
+            slug: true,
+            postId: true,
+            custom: true,
+            createdAt: true,
+          },
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "redirect.create",
+          targetType: "post",
+          targetId: post.id,
+          after: { redirectId: created.id, slug },
+        })
+
+        return reply.code(201).send({
+          ...created,
+          createdAt: created.createdAt.toISOString(),
+        })
+      },
+    )
+}
@@ -0,0 +1,53 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function deleteSlugRedirect(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/admin/redirects/:id",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Remove um redirect de slug (o slug volta a ficar livre)",
+          security: [{ bearerAuth: [] }],
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            204: z.null(),
+          },
+        },
+        preHandler: [authorize("redirect:manage")],
+      },
+      async (request, reply) => {
+        const redirect = await prisma.slugRedirect.findUnique({
+          where: { id: request.params.id },
+          select: { id: true, slug: true, postId: true, custom: true },
+        })
+        if (!redirect) throw new NotFoundError("Redirect não encontrado.")
+
+        await prisma.slugRedirect.delete({ where: { id: redirect.id } })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "redirect.delete",
+          targetType: "post",
+          targetId: redirect.postId,
+          before: {
+            redirectId: redirect.id,
+            slug: redirect.slug,
+            custom: redirect.custom,
+          },
+        })
+
+        return reply.code(204).send()
+      },
+    )
+}
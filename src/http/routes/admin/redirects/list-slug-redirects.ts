@@ -0,0 +1,105 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { isoOrNull } from "@/utils/blog-utils"
+import type { Prisma } from "@prisma/client"
+
+export async function listSlugRedirects(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/redirects",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Lista os redirects de slug (automáticos e personalizados)",
+          security: [{ bearerAuth: [] }],
+          querystring: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            perPage: z.coerce.number().int().min(1).max(100).default(20),
+            postId: z.string().uuid().optional(),
+            custom: z
+              .enum(["true", "false"])
+              .transform((v) => v === "true")
+              .optional(),
+            q: z.string().trim().min(1).max(200).optional(),
+          }),
+          response: {
+            200: z.object({
+              meta: z.object({
+                page: z.number().int(),
+                perPage: z.number().int(),
+                total: z.number().int(),
+                totalPages: z.number().int(),
+              }),
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  slug: z.string(),
+                  custom: z.boolean(),
+                  hits: z.number().int(),
+                  lastHitAt: z.string().datetime().nullable(),
+                  createdAt: z.string().datetime(),
+                  post: z.object({
+                    id: z.string().uuid(),
+                    title: z.string(),
+                    slug: z.string(),
+                  }),
+                  createdBy: z
+                    .object({ id: z.string().uuid(), username: z.string() })
+                    .nullable(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("redirect:manage")],
+      },
+      async (request, reply) => {
+        const { page, perPage, postId, custom, q } = request.query
+
+        const where: Prisma.SlugRedirectWhereInput = {
+          ...(postId ? { postId } : {}),
+          ...(custom !== undefined ? { custom } : {}),
+          ...(q ? { slug: { contains: q, mode: "insensitive" } } : {}),
+        }
+
+        const [total, rows] = await Promise.all([
+          prisma.slugRedirect.count({ where }),
+          prisma.slugRedirect.findMany({
+            where,
+            orderBy: { createdAt: "desc" },
+            skip: (page - 1) * perPage,
+            take: perPage,
+            include: {
+              post: { select: { id: true, title: true, slug: true } },
+              createdBy: { select: { id: true, username: true } },
+            },
+          }),
+        ])
+
+        const items = rows.map((r) => ({
+          id: r.id,
+          slug: r.slug,
+          custom: r.custom,
+          hits: r.hits,
+          lastHitAt: isoOrNull(r.lastHitAt),
+          createdAt: r.createdAt.toISOString(),
+          post: r.post,
+          createdBy: r.createdBy,
+        }))
+
+        const totalPages = Math.max(1, Math.ceil(total / perPage))
+
+        return reply.send({
+          meta: { page, perPage, total, totalPages },
+          items,
+        })
+      },
+    )
+}
@@ -0,0 +1,42 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { prisma } from "@/lib/prisma"
+import { Role } from "@prisma/client"
+import { getSetting, SETTINGS } from "@/utils/settings-utils"
+
+export async function getTwoFactorPolicy(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/security/two-factor",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Política de 2FA para administradores",
+          security: [{ bearerAuth: [] }],
+          response: {
+            200: z.object({
+              requireForAdmins: z.boolean(),
+              adminsWithoutTwoFactor: z.number().int().nonnegative(),
+            }),
+          },
+        },
+        preHandler: [authorize("settings:manage")],
+      },
+      async (request, reply) => {
+        const [requireForAdmins, adminsWithoutTwoFactor] = await Promise.all([
+          getSetting(SETTINGS.requireTwoFactorForAdmins, false),
+          prisma.user.count({
+            where: { role: Role.ADMIN, twoFactorEnabled: false },
+          }),
+        ])
+
+        return reply.send({ requireForAdmins, adminsWithoutTwoFactor })
+      },
+    )
+}
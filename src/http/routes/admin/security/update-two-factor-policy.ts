@@ -0,0 +1,82 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { Role } from "@prisma/client"
+import { getSetting, setSetting, SETTINGS } from "@/utils/settings-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function updateTwoFactorPolicy(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .put(
+      "/admin/security/two-factor",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Liga/desliga o 2FA obrigatório para administradores",
+          security: [{ bearerAuth: [] }],
+          body: z.object({
+            requireForAdmins: z.boolean(),
+          }),
+          response: {
+            200: z.object({
+              requireForAdmins: z.boolean(),
+              revokedSessions: z.number().int().nonnegative(),
+            }),
+          },
+        },
+        preHandler: [authorize("settings:manage")],
+      },
+      async (request, reply) => {
+        const { requireForAdmins } = request.body
+
+        const me = await prisma.user.findUniqueOrThrow({
+          where: { id: request.user.id },
+          select: { twoFactorEnabled: true },
+        })
+
+        // evita que o próprio admin se tranque fora do sistema
+        if (requireForAdmins && !me.twoFactorEnabled) {
+          throw new BadRequestError(
+            "Ative o seu 2FA antes de torná-lo obrigatório.",
+          )
+        }
+
+        const previous = await getSetting(
+          SETTINGS.requireTwoFactorForAdmins,
+          false,
+        )
+        await setSetting(SETTINGS.requireTwoFactorForAdmins, requireForAdmins)
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "settings.update",
+          targetType: "setting",
+          targetId: SETTINGS.requireTwoFactorForAdmins,
+          before: { value: previous },
+          after: { value: requireForAdmins },
+        })
+
+        // admins sem 2FA perdem as sessões e cadastram o 2FA no próximo login
+        let revokedSessions = 0
+        if (requireForAdmins) {
+          const revoked = await prisma.session.updateMany({
+            where: {
+              revokedAt: null,
+              user: { role: Role.ADMIN, twoFactorEnabled: false },
+            },
+            data: { revokedAt: new Date() },
+          })
+          revokedSessions = revoked.count
+        }
+
+        return reply.send({ requireForAdmins, revokedSessions })
+      },
+    )
+}
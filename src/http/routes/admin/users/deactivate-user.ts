@@ -0,0 +1,73 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { revokeUserSessions } from "@/utils/auth-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function deactivateUser(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/users/:id/deactivate",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Desativa a conta de um usuário e encerra suas sessões",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              deactivatedAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("user:deactivate")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+
+        if (id === request.user.id) {
+          throw new BadRequestError("Você não pode desativar a própria conta.")
+        }
+
+        const user = await prisma.user.findUnique({
+          where: { id },
+          select: { id: true, deactivatedAt: true },
+        })
+        if (!user) throw new NotFoundError("Usuário não encontrado!")
+
+        // idempotente: mantém a data da primeira desativação
+        const deactivatedAt = user.deactivatedAt ?? new Date()
+
+        if (!user.deactivatedAt) {
+          await prisma.user.update({
+            where: { id },
+            data: { deactivatedAt },
+          })
+
+          await recordAuditEvent(request, {
+            actorId: request.user.id,
+            action: "user.deactivate",
+            targetType: "user",
+            targetId: id,
+            before: { deactivatedAt: null },
+            after: { deactivatedAt },
+          })
+        }
+
+        await revokeUserSessions(id)
+
+        return reply.send({ id, deactivatedAt: deactivatedAt.toISOString() })
+      },
+    )
+}
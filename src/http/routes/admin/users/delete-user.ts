@@ -0,0 +1,121 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { can } from "@/utils/permissions"
+import {
+  recordAuditEvent,
+  snapshot,
+  USER_AUDIT_FIELDS,
+} from "@/utils/audit-utils"
+
+export async function deleteUser(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/admin/users/:id",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary:
+            "Exclui um usuário, transferindo seus posts para outro autor",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          // obrigatório quando o usuário tem posts (Post.author é RESTRICT)
+          querystring: z.object({
+            reassignTo: z.string().uuid().optional(),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              deleted: z.literal(true),
+              reassignedPosts: z.number().int().nonnegative(),
+            }),
+          },
+        },
+        preHandler: [authorize("user:delete")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { reassignTo } = request.query
+
+        if (id === request.user.id) {
+          throw new BadRequestError("Você não pode excluir a própria conta.")
+        }
+
+        const user = await prisma.user.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            name: true,
+            username: true,
+            email: true,
+            role: true,
+            description: true,
+            website: true,
+            linkedinHandle: true,
+            twitterHandle: true,
+            _count: { select: { Post: true } },
+          },
+        })
+        if (!user) throw new NotFoundError("Usuário não encontrado!")
+
+        const postsCount = user._count.Post
+
+        if (postsCount > 0) {
+          if (!reassignTo) {
+            throw new BadRequestError(
+              "O usuário possui posts: informe 'reassignTo' com o novo autor.",
+            )
+          }
+          if (reassignTo === id) {
+            throw new BadRequestError("O novo autor deve ser outro usuário.")
+          }
+
+          const target = await prisma.user.findUnique({
+            where: { id: reassignTo },
+            select: { id: true, role: true, deactivatedAt: true },
+          })
+          if (!target) throw new NotFoundError("Novo autor não encontrado.")
+          if (target.deactivatedAt || !can(target, "post:create")) {
+            throw new BadRequestError(
+              "O novo autor precisa ser um usuário ativo que possa publicar.",
+            )
+          }
+        }
+
+        const reassignedPosts = await prisma.$transaction(async (tx) => {
+          const moved =
+            postsCount > 0 && reassignTo
+              ? await tx.post.updateMany({
+                  where: { authorId: id },
+                  data: { authorId: reassignTo },
+                })
+              : { count: 0 }
+
+          await tx.user.delete({ where: { id } })
+
+          return moved.count
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "user.delete",
+          targetType: "user",
+          targetId: id,
+          before: snapshot(user, USER_AUDIT_FIELDS),
+          after: reassignedPosts > 0 ? { reassignedTo: reassignTo } : null,
+        })
+
+        return reply.send({ id, deleted: true, reassignedPosts })
+      },
+    )
+}
@@ -0,0 +1,121 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { Prisma, Role } from "@prisma/client"
+import { isoOrNull } from "@/utils/blog-utils"
+
+export async function listUsers(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/admin/users",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Lista usuários (paginado, com busca e filtro por cargo)",
+          security: [{ bearerAuth: [] }],
+          querystring: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            perPage: z.coerce.number().int().min(1).max(100).default(20),
+            q: z.string().trim().min(1).max(200).optional(), // busca em nome/username/email
+            role: z.nativeEnum(Role).optional(),
+            status: z.enum(["active", "deactivated", "all"]).default("all"),
+            orderBy: z
+              .enum(["createdAt", "name", "username"])
+              .default("createdAt"),
+            sort: z.enum(["asc", "desc"]).default("desc"),
+          }),
+          response: {
+            200: z.object({
+              meta: z.object({
+                page: z.number().int(),
+                perPage: z.number().int(),
+                total: z.number().int(),
+                totalPages: z.number().int(),
+              }),
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  username: z.string(),
+                  name: z.string(),
+                  email: z.string().nullable(),
+                  role: z.nativeEnum(Role),
+                  twoFactorEnabled: z.boolean(),
+                  postsCount: z.number().int().nonnegative(),
+                  deactivatedAt: z.string().datetime().nullable(),
+                  createdAt: z.string().datetime(),
+                  updatedAt: z.string().datetime(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("user:read")],
+      },
+      async (request, reply) => {
+        const { page, perPage, q, role, status, orderBy, sort } = request.query
+
+        const where: Prisma.UserWhereInput = {
+          ...(role ? { role } : {}),
+          ...(status === "active" ? { deactivatedAt: null } : {}),
+          ...(status === "deactivated" ? { deactivatedAt: { not: null } } : {}),
+          ...(q
+            ? {
+                OR: [
+                  { name: { contains: q, mode: "insensitive" } },
+                  { username: { contains: q, mode: "insensitive" } },
+                  { email: { contains: q, mode: "insensitive" } },
+                ],
+              }
+            : {}),
+        }
+
+        const [total, rows] = await Promise.all([
+          prisma.user.count({ where }),
+          prisma.user.findMany({
+            where,
+            orderBy: { [orderBy]: sort },
+            skip: (page - 1) * perPage,
+            take: perPage,
+            select: {
+              id: true,
+              username: true,
+              name: true,
+              email: true,
+              role: true,
+              twoFactorEnabled: true,
+              deactivatedAt: true,
+              createdAt: true,
+              updatedAt: true,
+              _count: { select: { Post: true } },
+            },
+          }),
+        ])
+
+        const items = rows.map((u) => ({
+          id: u.id,
+          username: u.username,
+          name: u.name,
+          email: u.email,
+          role: u.role,
+          twoFactorEnabled: u.twoFactorEnabled,
+          postsCount: u._count.Post,
+          deactivatedAt: isoOrNull(u.deactivatedAt),
+          createdAt: u.createdAt.toISOString(),
+          updatedAt: u.updatedAt.toISOString(),
+        }))
+
+        const totalPages = Math.max(1, Math.ceil(total / perPage))
+
+        return reply.send({
+          meta: { page, perPage, total, totalPages },
+          items,
+        })
+      },
+    )
+}
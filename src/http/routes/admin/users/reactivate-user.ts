@@ -0,0 +1,62 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function reactivateUser(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/users/:id/reactivate",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Reativa a conta de um usuário",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              deactivatedAt: z.null(),
+            }),
+          },
+        },
+        preHandler: [authorize("user:deactivate")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+
+        const user = await prisma.user.findUnique({
+          where: { id },
+          select: { id: true, deactivatedAt: true },
+        })
+        if (!user) throw new NotFoundError("Usuário não encontrado!")
+
+        if (user.deactivatedAt) {
+          await prisma.user.update({
+            where: { id },
+            data: { deactivatedAt: null },
+          })
+
+          await recordAuditEvent(request, {
+            actorId: request.user.id,
+            action: "user.reactivate",
+            targetType: "user",
+            targetId: id,
+            before: { deactivatedAt: user.deactivatedAt },
+            after: { deactivatedAt: null },
+          })
+        }
+
+        return reply.send({ id, deactivatedAt: null })
+      },
+    )
+}
@@ -0,0 +1,61 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import {
+  clearSignInFailures,
+  getSignInLockTtlSeconds,
+} from "@/utils/sign-in-guard-utils"
+
+export async function unlockUser(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/admin/users/:id/unlock",
+      {
+        schema: {
+          tags: ["Admin"],
+          summary: "Remove o bloqueio de login por tentativas inválidas",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              wasLocked: z.boolean(),
+            }),
+          },
+        },
+        preHandler: [authorize("user:unlock")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+
+        const user = await prisma.user.findUnique({
+          where: { id },
+          select: { id: true, username: true },
+        })
+        if (!user) throw new NotFoundError("Usuário não encontrado!")
+
+        const wasLocked = (await getSignInLockTtlSeconds(user.username)) > 0
+
+        await clearSignInFailures(user.username)
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "user.unlock",
+          targetType: "user",
+          targetId: user.id,
+        })
+
+        return reply.send({ id: user.id, wasLocked })
+      },
+    )
+}
@@ -3,6 +3,7 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 import { prisma } from "@/lib/prisma"
 import { slugify } from "@/utils/blog-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
 
 export async function createUtmCampaign(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
@@ -40,6 +41,15 @@ export async function createUtmCampaign(app: FastifyInstance) {
         select: { id: true, name: true, slug: true },
       })
 
+      // rota pública: o evento fica sem ator, apenas com IP/user agent
+      await recordAuditEvent(request, {
+        actorId: null,
+        action: "utm.campaign.create",
+        targetType: "utm-campaign",
+        targetId: campaign.id,
+        after: { name: campaign.name, slug: campaign.slug },
+      })
+
       return reply.code(201).send(campaign)
     },
   )
@@ -3,6 +3,7 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 import { prisma } from "@/lib/prisma"
 import { slugify } from "@/utils/blog-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
 
 export async function createUtmMedium(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
@@ -36,6 +37,15 @@ export async function createUtmMedium(app: FastifyInstance) {
         select: { id: true, name: true, slug: true },
       })
 
+      // rota pública: o evento fica sem ator, apenas com IP/user agent
+      await recordAuditEvent(request, {
+        actorId: null,
+        action: "utm.medium.create",
+        targetType: "utm-medium",
+        targetId: medium.id,
+        after: { name: medium.name, slug: medium.slug },
+      })
+
       return reply.code(201).send(medium)
     },
   )
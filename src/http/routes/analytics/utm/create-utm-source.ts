@@ -3,6 +3,7 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 import { prisma } from "@/lib/prisma"
 import { slugify } from "@/utils/blog-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
 
 export async function createUtmSource(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
@@ -36,6 +37,15 @@ export async function createUtmSource(app: FastifyInstance) {
         select: { id: true, name: true, slug: true },
       })
 
+      // rota pública: o evento fica sem ator, apenas com IP/user agent
+      await recordAuditEvent(request, {
+        actorId: null,
+        action: "utm.source.create",
+        targetType: "utm-source",
+        targetId: source.id,
+        after: { name: source.name, slug: source.slug },
+      })
+
       return reply.code(201).send(source)
     },
   )
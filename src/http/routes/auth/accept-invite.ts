@@ -0,0 +1,132 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+import bcrypt from "bcrypt"
+
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { hashToken } from "@/utils/auth-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function acceptInvite(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    "/auth/invites/accept",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Aceita um convite criando a conta com usuário e senha",
+        body: z.object({
+          token: z.string().trim().min(1),
+          name: z.string().trim().min(1).max(120),
+          username: z
+            .string()
+            .trim()
+            .min(3, "username deve ter ao menos 3 caracteres")
+            .max(32, "username deve ter no máximo 32 caracteres")
+            .regex(/^[a-zA-Z0-9._-]+$/, "username inválido"),
+          password: z
+            .string()
+            .trim()
+            .min(8, "senha deve ter ao menos 8 caracteres")
+            .max(128, "senha muito longa"),
+          confirmPassword: z.string().trim().min(1, "confirme a senha"),
+        }),
+        response: {
+          201: z.object({
+            id: z.string().uuid(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { token, name, username, password, confirmPassword } = request.body
+
+      if (password !== confirmPassword) {
+        throw new BadRequestError("confirmação não confere com a senha.")
+      }
+
+      const invite = await prisma.invite.findUnique({
+        where: { tokenHash: hashToken(token) },
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          expiresAt: true,
+          acceptedAt: true,
+          revokedAt: true,
+        },
+      })
+
+      if (
+        !invite ||
+        invite.acceptedAt ||
+        invite.revokedAt ||
+        invite.expiresAt <= new Date()
+      ) {
+        throw new BadRequestError("convite inválido ou expirado.")
+      }
+
+      const existingUsername = await prisma.user.findUnique({
+        where: { username },
+        select: { id: true },
+      })
+      if (existingUsername) {
+        throw new BadRequestError("já existe um usuário com este username.")
+      }
+
+      const existingEmail = await prisma.user.findFirst({
+        where: { email: { equals: invite.email, mode: "insensitive" } },
+        select: { id: true },
+      })
+      if (existingEmail) {
+        throw new BadRequestError("já existe um usuário com este e-mail.")
+      }
+
+      const hashed = await bcrypt.hash(password, 10)
+
+      const user = await prisma.$transaction(async (tx) => {
+        // updateMany condicional: o convite só pode ser aceito uma vez
+        const consumed = await tx.invite.updateMany({
+          where: {
+            id: invite.id,
+            acceptedAt: null,
+            revokedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+          data: { acceptedAt: new Date() },
+        })
+        if (consumed.count !== 1) {
+          throw new BadRequestError("convite inválido ou expirado.")
+        }
+
+        const created = await tx.user.create({
+          data: {
+            username,
+            name,
+            email: invite.email,
+            role: invite.role,
+            password: hashed,
+          },
+          select: { id: true },
+        })
+
+        await tx.invite.update({
+          where: { id: invite.id },
+          data: { acceptedUserId: created.id },
+        })
+
+        return created
+      })
+
+      await recordAuditEvent(request, {
+        actorId: user.id,
+        action: "invite.accept",
+        targetType: "invite",
+        targetId: invite.id,
+        after: { userId: user.id, username, role: invite.role },
+      })
+
+      return reply.code(201).send({ id: user.id })
+    },
+  )
+}
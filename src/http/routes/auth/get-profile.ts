@@ -27,6 +27,9 @@ export async function getProfile(app: FastifyInstance) {
                 email: z.string().email().nullable(),
                 description: z.string().nullable(),
                 role: z.nativeEnum(Role),
+                website: z.string().nullable(),
+                linkedinHandle: z.string().nullable(),
+                twitterHandle: z.string().nullable(),
               }),
             }),
           },
@@ -43,6 +46,9 @@ export async function getProfile(app: FastifyInstance) {
             name: true,
             email: true,
             role: true,
+            website: true,
+            linkedinHandle: true,
+            twitterHandle: true,
           },
           where: {
             id: userId,
@@ -61,6 +67,9 @@ export async function getProfile(app: FastifyInstance) {
             email: user.email,
             description: user.description,
             role: user.role,
+            website: user.website,
+            linkedinHandle: user.linkedinHandle,
+            twitterHandle: user.twitterHandle,
           },
         })
       },
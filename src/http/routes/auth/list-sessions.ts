@@ -0,0 +1,62 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { prisma } from "@/lib/prisma"
+
+export async function listSessions(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/auth/sessions",
+      {
+        schema: {
+          tags: ["Auth"],
+          summary: "Lista as sessões ativas do usuário autenticado",
+          security: [{ bearerAuth: [] }],
+          response: {
+            200: z.object({
+              sessions: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  userAgent: z.string().nullable(),
+                  ip: z.string().nullable(),
+                  current: z.boolean(),
+                  createdAt: z.string().datetime(),
+                  lastUsedAt: z.string().datetime(),
+                  expiresAt: z.string().datetime(),
+                }),
+              ),
+            }),
+          },
+        },
+      },
+      async (request, reply) => {
+        const userId = await request.getCurrentUserId()
+        const currentSessionId = await request.getCurrentSessionId()
+
+        const sessions = await prisma.session.findMany({
+          where: {
+            userId,
+            revokedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+          orderBy: { lastUsedAt: "desc" },
+        })
+
+        return reply.send({
+          sessions: sessions.map((s) => ({
+            id: s.id,
+            userAgent: s.userAgent,
+            ip: s.ip,
+            current: s.id === currentSessionId,
+            createdAt: s.createdAt.toISOString(),
+            lastUsedAt: s.lastUsedAt.toISOString(),
+            expiresAt: s.expiresAt.toISOString(),
+          })),
+        })
+      },
+    )
+}
@@ -0,0 +1,72 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import {
+  assertCanAccessSystem,
+  generateToken,
+  hashToken,
+  signAccessToken,
+} from "@/utils/auth-utils"
+
+export async function refreshToken(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    "/auth/refresh",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Troca o refresh token por um novo par de tokens (rotação)",
+        body: z.object({
+          refreshToken: z.string().min(1),
+        }),
+        response: {
+          201: z.object({
+            token: z.string(),
+            refreshToken: z.string(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const currentHash = hashToken(request.body.refreshToken)
+
+      const session = await prisma.session.findUnique({
+        where: { refreshTokenHash: currentHash },
+        include: {
+          user: { select: { id: true, role: true, deactivatedAt: true } },
+        },
+      })
+
+      if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+        throw new UnauthorizedError("Sessão encerrada.")
+      }
+
+      assertCanAccessSystem(session.user)
+
+      const nextRefreshToken = generateToken()
+
+      // condicional no hash atual: o mesmo refresh token só pode ser rotacionado uma vez
+      const rotated = await prisma.session.updateMany({
+        where: {
+          id: session.id,
+          refreshTokenHash: currentHash,
+          revokedAt: null,
+        },
+        data: {
+          refreshTokenHash: hashToken(nextRefreshToken),
+          lastUsedAt: new Date(),
+        },
+      })
+
+      if (rotated.count !== 1) {
+        throw new UnauthorizedError("Sessão encerrada.")
+      }
+
+      const token = await signAccessToken(reply, session.userId, session.id)
+
+      reply.send({ token, refreshToken: nextRefreshToken })
+    },
+  )
+}
@@ -0,0 +1,60 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { redis } from "@/lib/redis"
+import { TooManyRequestsError } from "@/http/_errors/too-many-requests-error"
+import {
+  AUTH_CODE_REQUEST_LIMIT,
+  AUTH_CODE_REQUEST_WINDOW_SECONDS,
+  authCodeRateLimitKey,
+  canAccessSystem,
+  normalizeEmail,
+} from "@/utils/auth-utils"
+
+export async function requestEmailCode(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    "/auth/sign-in/email",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Envia um código de acesso por e-mail (login sem senha)",
+        body: z.object({
+          email: z.string().email(),
+        }),
+        response: {
+          204: z.null(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const email = normalizeEmail(request.body.email)
+
+      // rate limit por e-mail, aplicado mesmo quando o e-mail não existe
+      const rlKey = authCodeRateLimitKey(email)
+      const requests = await redis.incr(rlKey)
+      if (requests === 1) {
+        await redis.expire(rlKey, AUTH_CODE_REQUEST_WINDOW_SECONDS)
+      }
+      if (requests > AUTH_CODE_REQUEST_LIMIT) {
+        throw new TooManyRequestsError(
+          "Muitas solicitações de código. Tente novamente mais tarde.",
+        )
+      }
+
+      const user = await prisma.user.findFirst({
+        where: { email: { equals: email, mode: "insensitive" } },
+        select: { id: true, role: true, deactivatedAt: true },
+      })
+
+      // Sempre 204: a resposta não revela se o e-mail existe
+      if (user && canAccessSystem(user)) {
+        await Queue.add("SendAuthCodeEmail", { email })
+      }
+
+      return reply.code(204).send()
+    },
+  )
+}
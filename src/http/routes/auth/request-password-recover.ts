@@ -0,0 +1,42 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+
+export async function requestPasswordRecover(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    "/auth/password/recover",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Solicita o e-mail de recuperação de senha",
+        body: z.object({
+          // aceita username ou e-mail
+          identifier: z.string().trim().min(1),
+        }),
+        response: {
+          204: z.null(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { identifier } = request.body
+
+      const user = await prisma.user.findFirst({
+        where: {
+          OR: [{ username: identifier }, { email: identifier }],
+        },
+        select: { id: true, email: true },
+      })
+
+      // Sempre 204: a resposta não revela se o usuário/e-mail existe
+      if (user?.email) {
+        await Queue.add("SendRecoverPasswordEmail", { userId: user.id })
+      }
+
+      return reply.code(204).send()
+    },
+  )
+}
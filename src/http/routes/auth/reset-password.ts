@@ -0,0 +1,84 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+import bcrypt from "bcrypt"
+
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { hashToken, revokeUserSessions } from "@/utils/auth-utils"
+
+export async function resetPassword(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    "/auth/password/reset",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Redefine a senha a partir do token recebido por e-mail",
+        body: z.object({
+          token: z.string().trim().min(1),
+          password: z
+            .string()
+            .trim()
+            .min(8, "nova senha deve ter ao menos 8 caracteres")
+            .max(128, "nova senha muito longa"),
+          confirmPassword: z.string().trim().min(1, "confirme a nova senha"),
+        }),
+        response: {
+          204: z.null(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { token, password, confirmPassword } = request.body
+
+      if (password !== confirmPassword) {
+        throw new BadRequestError("confirmação não confere com a nova senha.")
+      }
+
+      const resetToken = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        select: { id: true, userId: true, expiresAt: true, usedAt: true },
+      })
+
+      if (
+        !resetToken ||
+        resetToken.usedAt ||
+        resetToken.expiresAt <= new Date()
+      ) {
+        throw new BadRequestError("token inválido ou expirado.")
+      }
+
+      const hashed = await bcrypt.hash(password, 10)
+
+      await prisma.$transaction(async (tx) => {
+        // updateMany condicional: garante uso único mesmo com requisições concorrentes
+        const consumed = await tx.passwordResetToken.updateMany({
+          where: {
+            id: resetToken.id,
+            usedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+          data: { usedAt: new Date() },
+        })
+        if (consumed.count !== 1) {
+          throw new BadRequestError("token inválido ou expirado.")
+        }
+
+        await tx.user.update({
+          where: { id: resetToken.userId },
+          data: { password: hashed },
+        })
+
+        // descarta demais tokens pendentes do usuário
+        await tx.passwordResetToken.deleteMany({
+          where: { userId: resetToken.userId, usedAt: null },
+        })
+      })
+
+      // senha trocada: encerra todas as sessões abertas
+      await revokeUserSessions(resetToken.userId)
+
+      return reply.code(204).send()
+    },
+  )
+}
@@ -0,0 +1,44 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { prisma } from "@/lib/prisma"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+
+export async function revokeSession(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/auth/sessions/:id",
+      {
+        schema: {
+          tags: ["Auth"],
+          summary: "Revoga uma sessão do usuário autenticado",
+          security: [{ bearerAuth: [] }],
+          params: z.object({
+            id: z.string().uuid(),
+          }),
+          response: {
+            204: z.null(),
+          },
+        },
+      },
+      async (request, reply) => {
+        const userId = await request.getCurrentUserId()
+        const { id } = request.params
+
+        const revoked = await prisma.session.updateMany({
+          where: { id, userId, revokedAt: null },
+          data: { revokedAt: new Date() },
+        })
+
+        if (revoked.count === 0) {
+          throw new NotFoundError("Sessão não encontrada.")
+        }
+
+        return reply.code(204).send()
+      },
+    )
+}
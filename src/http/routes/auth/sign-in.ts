@@ -3,9 +3,18 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 import bcrypt from "bcrypt"
 
+import { env } from "@/env"
 import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
 import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
-import { Role } from "@prisma/client"
+import { getClientIp } from "@/utils/auth-utils"
+import {
+  assertSignInAllowed,
+  clearSignInFailures,
+  registerSignInFailure,
+  SIGN_IN_ALERT_THRESHOLD,
+} from "@/utils/sign-in-guard-utils"
+import { completeSignIn, signInResponseSchema } from "@/utils/two-factor-utils"
 
 export async function signIn(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
@@ -19,14 +28,16 @@ export async function signIn(app: FastifyInstance) {
           password: z.string(),
         }),
         response: {
-          201: z.object({
-            token: z.string(),
-          }),
+          201: signInResponseSchema,
         },
       },
     },
     async (request, reply) => {
       const { username, password } = request.body
+      const ip = getClientIp(request)
+
+      // bloqueio checado antes do bcrypt: tentativas bloqueadas não custam CPU
+      await assertSignInAllowed(username, ip)
 
       const user = await prisma.user.findUnique({
         where: {
@@ -34,34 +45,35 @@ export async function signIn(app: FastifyInstance) {
         },
       })
 
-      if (!user) {
-        throw new UnauthorizedError("username ou senha inválidos.")
-      }
+      const isValid = user
+        ? await bcrypt.compare(password, user.password)
+        : false
+
+      if (!user || !isValid) {
+        // usernames inexistentes também contam, para não revelar quais existem
+        const failures = await registerSignInFailure(username, ip)
 
-      const isValid = await bcrypt.compare(password, user.password)
+        if (
+          user &&
+          env.SIGN_IN_ALERT_EMAILS &&
+          failures === SIGN_IN_ALERT_THRESHOLD
+        ) {
+          await Queue.add("SendSignInAlertEmail", {
+            userId: user.id,
+            ip,
+            failures,
+          })
+        }
 
-      if (!isValid) {
         throw new UnauthorizedError("username ou senha inválidos.")
       }
 
-      if (user.role !== Role.ADMIN && user.role !== Role.EDITOR) {
-        throw new UnauthorizedError(
-          "Você não tem permissão para acessar o sistema.",
-        )
-      }
+      const result = await completeSignIn(request, reply, user)
 
-      const token = await reply.jwtSign(
-        {
-          sub: user.id,
-        },
-        {
-          sign: {
-            expiresIn: "7d",
-          },
-        },
-      )
+      // com desafio de 2FA, o histórico só é zerado quando o segundo fator passar
+      if (!("twoFactor" in result)) await clearSignInFailures(username)
 
-      reply.send({ token })
+      reply.send(result)
     },
   )
 }
@@ -0,0 +1,35 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { prisma } from "@/lib/prisma"
+
+export async function signOut(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/auth/sign-out",
+      {
+        schema: {
+          tags: ["Auth"],
+          summary: "Encerra a sessão atual",
+          security: [{ bearerAuth: [] }],
+          response: {
+            204: z.null(),
+          },
+        },
+      },
+      async (request, reply) => {
+        const sessionId = await request.getCurrentSessionId()
+
+        await prisma.session.update({
+          where: { id: sessionId },
+          data: { revokedAt: new Date() },
+        })
+
+        return reply.code(204).send()
+      },
+    )
+}
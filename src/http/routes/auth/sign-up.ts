@@ -7,6 +7,12 @@ import { prisma } from "@/lib/prisma"
 import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
 import { Role } from "@prisma/client"
 import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import {
+  recordAuditEvent,
+  snapshot,
+  USER_AUDIT_FIELDS,
+} from "@/utils/audit-utils"
 
 export async function signUp(app: FastifyInstance) {
   app
@@ -31,21 +37,11 @@ export async function signUp(app: FastifyInstance) {
             }),
           },
         },
+        preHandler: [authorize("user:create")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
         const { email, name, username, role, password } = request.body
 
-        const requestingUser = await prisma.user.findUnique({
-          where: { id: userId },
-        })
-
-        if (requestingUser?.role !== Role.ADMIN) {
-          throw new UnauthorizedError(
-            "Apenas Administradores podem criar novos usuários.",
-          )
-        }
-
         const existingUsername = await prisma.user.findUnique({
           where: { username },
         })
@@ -78,6 +74,14 @@ export async function signUp(app: FastifyInstance) {
           throw new UnauthorizedError("Error creating user.")
         }
 
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "user.create",
+          targetType: "user",
+          targetId: user.id,
+          after: snapshot(user, USER_AUDIT_FIELDS),
+        })
+
         reply.send({ id: user.id })
       },
     )
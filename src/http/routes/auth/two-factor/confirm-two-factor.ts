@@ -0,0 +1,120 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import {
+  assertCanAccessSystem,
+  createSession,
+  getClientIp,
+} from "@/utils/auth-utils"
+import {
+  assertSignInAllowed,
+  clearSignInFailures,
+  registerSignInFailure,
+} from "@/utils/sign-in-guard-utils"
+import {
+  getTwoFactorChallenge,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "@/utils/two-factor-utils"
+
+export async function confirmTwoFactor(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/auth/2fa/confirm",
+      {
+        schema: {
+          tags: ["Auth"],
+          summary:
+            "Confirma o cadastro do 2FA com o primeiro código e gera os códigos de recuperação",
+          security: [{ bearerAuth: [] }],
+          body: z.object({
+            code: z.string().trim().min(1),
+            challengeToken: z.string().min(1).optional(),
+          }),
+          response: {
+            200: z.object({
+              recoveryCodes: z.array(z.string()),
+              // presentes apenas quando o cadastro fez parte do login
+              token: z.string().optional(),
+              refreshToken: z.string().optional(),
+            }),
+          },
+        },
+      },
+      async (request, reply) => {
+        const { code, challengeToken } = request.body
+
+        const challenge = challengeToken
+          ? await getTwoFactorChallenge(challengeToken, "setup")
+          : null
+        const userId = challenge
+          ? challenge.userId
+          : await request.getCurrentUserId()
+
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: {
+            id: true,
+            username: true,
+            role: true,
+            deactivatedAt: true,
+            twoFactorEnabled: true,
+            twoFactorSecret: true,
+            twoFactorLastCounter: true,
+          },
+        })
+
+        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
+        if (user.twoFactorEnabled) {
+          throw new BadRequestError("2FA já está ativo para este usuário.")
+        }
+        if (!user.twoFactorSecret) {
+          throw new BadRequestError(
+            "Inicie o cadastro do 2FA antes de confirmar.",
+          )
+        }
+
+        // no login, o cadastro vale como segundo passo: mesmas checagens do verify
+        const ip = getClientIp(request)
+        if (challenge) {
+          assertCanAccessSystem(user)
+          await assertSignInAllowed(user.username, ip)
+        }
+
+        const ok = await verifySecondFactor(user, { code })
+        if (!ok) {
+          if (challenge) {
+            await challenge.fail()
+            await registerSignInFailure(user.username, ip)
+          }
+          throw new UnauthorizedError("código inválido.")
+        }
+
+        if (challenge) {
+          await challenge.consume()
+          await clearSignInFailures(user.username)
+        }
+
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { twoFactorEnabled: true },
+        })
+
+        const recoveryCodes = await regenerateRecoveryCodes(user.id)
+
+        if (challenge) {
+          const tokens = await createSession(request, reply, user.id)
+          return reply.send({ recoveryCodes, ...tokens })
+        }
+
+        return reply.send({ recoveryCodes })
+      },
+    )
+}
@@ -0,0 +1,82 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import {
+  isTwoFactorRequiredFor,
+  verifySecondFactor,
+} from "@/utils/two-factor-utils"
+
+export async function disableTwoFactor(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/auth/2fa/disable",
+      {
+        schema: {
+          tags: ["Auth"],
+          summary: "Desativa o 2FA do usuário autenticado",
+          security: [{ bearerAuth: [] }],
+          body: z
+            .object({
+              code: z.string().trim().min(1).optional(),
+              recoveryCode: z.string().trim().min(1).optional(),
+            })
+            .refine((b) => b.code || b.recoveryCode, {
+              message: "informe o código ou um código de recuperação",
+            }),
+          response: {
+            204: z.null(),
+          },
+        },
+      },
+      async (request, reply) => {
+        const userId = await request.getCurrentUserId()
+
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: {
+            id: true,
+            role: true,
+            twoFactorEnabled: true,
+            twoFactorSecret: true,
+            twoFactorLastCounter: true,
+          },
+        })
+
+        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
+        if (!user.twoFactorEnabled) {
+          throw new BadRequestError("2FA não está ativo para este usuário.")
+        }
+        if (await isTwoFactorRequiredFor(user)) {
+          throw new BadRequestError(
+            "2FA é obrigatório para administradores e não pode ser desativado.",
+          )
+        }
+
+        const ok = await verifySecondFactor(user, request.body)
+        if (!ok) throw new UnauthorizedError("código inválido.")
+
+        await prisma.$transaction([
+          prisma.user.update({
+            where: { id: user.id },
+            data: {
+              twoFactorEnabled: false,
+              twoFactorSecret: null,
+              twoFactorLastCounter: null,
+            },
+          }),
+          prisma.twoFactorRecoveryCode.deleteMany({
+            where: { userId: user.id },
+          }),
+        ])
+
+        return reply.code(204).send()
+      },
+    )
+}
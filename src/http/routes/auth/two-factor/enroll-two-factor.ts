@@ -0,0 +1,73 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { buildOtpAuthUri, generateTotpSecret } from "@/utils/totp-utils"
+import {
+  getTwoFactorChallenge,
+  TWO_FACTOR_ISSUER,
+} from "@/utils/two-factor-utils"
+
+export async function enrollTwoFactor(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/auth/2fa/enroll",
+      {
+        schema: {
+          tags: ["Auth"],
+          summary: "Inicia o cadastro do 2FA (segredo TOTP + URI otpauth)",
+          security: [{ bearerAuth: [] }],
+          // challengeToken: cadastro obrigatório durante o login (política de ADMIN)
+          body: z
+            .object({
+              challengeToken: z.string().min(1).optional(),
+            })
+            .optional(),
+          response: {
+            201: z.object({
+              secret: z.string(),
+              otpauthUri: z.string(),
+            }),
+          },
+        },
+      },
+      async (request, reply) => {
+        const challengeToken = request.body?.challengeToken
+        const userId = challengeToken
+          ? (await getTwoFactorChallenge(challengeToken, "setup")).userId
+          : await request.getCurrentUserId()
+
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, username: true, twoFactorEnabled: true },
+        })
+
+        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
+        if (user.twoFactorEnabled) {
+          throw new BadRequestError("2FA já está ativo para este usuário.")
+        }
+
+        // segredo fica pendente até o primeiro código ser confirmado
+        const secret = generateTotpSecret()
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { twoFactorSecret: secret, twoFactorLastCounter: null },
+        })
+
+        return reply.code(201).send({
+          secret,
+          otpauthUri: buildOtpAuthUri({
+            issuer: TWO_FACTOR_ISSUER,
+            account: user.username,
+            secret,
+          }),
+        })
+      },
+    )
+}
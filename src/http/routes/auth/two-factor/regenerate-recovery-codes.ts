@@ -0,0 +1,61 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { auth } from "@/http/middlewares/auth"
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import {
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "@/utils/two-factor-utils"
+
+export async function regenerateTwoFactorRecoveryCodes(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/auth/2fa/recovery-codes",
+      {
+        schema: {
+          tags: ["Auth"],
+          summary: "Gera novos códigos de recuperação (invalida os anteriores)",
+          security: [{ bearerAuth: [] }],
+          body: z.object({
+            code: z.string().trim().min(1),
+          }),
+          response: {
+            200: z.object({
+              recoveryCodes: z.array(z.string()),
+            }),
+          },
+        },
+      },
+      async (request, reply) => {
+        const userId = await request.getCurrentUserId()
+
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: {
+            id: true,
+            twoFactorEnabled: true,
+            twoFactorSecret: true,
+            twoFactorLastCounter: true,
+          },
+        })
+
+        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
+        if (!user.twoFactorEnabled) {
+          throw new BadRequestError("2FA não está ativo para este usuário.")
+        }
+
+        const ok = await verifySecondFactor(user, { code: request.body.code })
+        if (!ok) throw new UnauthorizedError("código inválido.")
+
+        const recoveryCodes = await regenerateRecoveryCodes(user.id)
+
+        return reply.send({ recoveryCodes })
+      },
+    )
+}
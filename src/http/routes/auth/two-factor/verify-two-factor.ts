@@ -0,0 +1,82 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import {
+  assertCanAccessSystem,
+  createSession,
+  getClientIp,
+} from "@/utils/auth-utils"
+import {
+  assertSignInAllowed,
+  clearSignInFailures,
+  registerSignInFailure,
+} from "@/utils/sign-in-guard-utils"
+import {
+  getTwoFactorChallenge,
+  verifySecondFactor,
+} from "@/utils/two-factor-utils"
+
+export async function verifyTwoFactor(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    "/auth/sign-in/2fa",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary:
+          "Segundo passo do login: valida o código TOTP ou de recuperação",
+        body: z
+          .object({
+            challengeToken: z.string().min(1),
+            code: z.string().trim().min(1).optional(),
+            recoveryCode: z.string().trim().min(1).optional(),
+          })
+          .refine((b) => b.code || b.recoveryCode, {
+            message: "informe o código ou um código de recuperação",
+          }),
+        response: {
+          201: z.object({
+            token: z.string(),
+            refreshToken: z.string(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { challengeToken, code, recoveryCode } = request.body
+
+      const challenge = await getTwoFactorChallenge(challengeToken, "verify")
+
+      const user = await prisma.user.findUnique({
+        where: { id: challenge.userId },
+      })
+
+      if (!user || !user.twoFactorEnabled) {
+        throw new UnauthorizedError("desafio inválido ou expirado.")
+      }
+
+      // o limite do desafio não basta: cada senha correta gera um desafio novo,
+      // então as falhas também contam no bloqueio de login do username
+      const ip = getClientIp(request)
+      await assertSignInAllowed(user.username, ip)
+
+      const ok = await verifySecondFactor(user, { code, recoveryCode })
+      if (!ok) {
+        await challenge.fail()
+        await registerSignInFailure(user.username, ip)
+        throw new UnauthorizedError("código inválido.")
+      }
+
+      await challenge.consume()
+
+      assertCanAccessSystem(user)
+      await clearSignInFailures(user.username)
+
+      const tokens = await createSession(request, reply, user.id)
+
+      reply.send(tokens)
+    },
+  )
+}
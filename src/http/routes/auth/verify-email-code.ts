@@ -0,0 +1,73 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { redis } from "@/lib/redis"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import {
+  AUTH_CODE_MAX_ATTEMPTS,
+  authCodeKey,
+  hashAuthCode,
+  incrementAttempts,
+  normalizeEmail,
+  safeCompare,
+} from "@/utils/auth-utils"
+import { completeSignIn, signInResponseSchema } from "@/utils/two-factor-utils"
+
+export async function verifyEmailCode(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    "/auth/sign-in/email/verify",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Valida o código recebido por e-mail e autentica",
+        body: z.object({
+          email: z.string().email(),
+          code: z
+            .string()
+            .trim()
+            .regex(/^\d{6}$/, "código inválido"),
+        }),
+        response: {
+          201: signInResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const email = normalizeEmail(request.body.email)
+      const { code } = request.body
+
+      const key = authCodeKey(email)
+      const stored = await redis.hgetall(key)
+
+      if (!stored.hash) {
+        throw new UnauthorizedError("código inválido ou expirado.")
+      }
+
+      if (!safeCompare(stored.hash, hashAuthCode(email, code))) {
+        const attempts = await incrementAttempts(key)
+        if (attempts >= AUTH_CODE_MAX_ATTEMPTS) {
+          await redis.del(key)
+        }
+        throw new UnauthorizedError("código inválido ou expirado.")
+      }
+
+      // uso único: só quem conseguir remover a chave conclui o login
+      const consumed = await redis.del(key)
+      if (consumed !== 1) {
+        throw new UnauthorizedError("código inválido ou expirado.")
+      }
+
+      const user = await prisma.user.findFirst({
+        where: { email: { equals: email, mode: "insensitive" } },
+      })
+
+      if (!user) {
+        throw new UnauthorizedError("código inválido ou expirado.")
+      }
+
+      reply.send(await completeSignIn(request, reply, user))
+    },
+  )
+}
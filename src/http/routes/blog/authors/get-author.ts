@@ -0,0 +1,180 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PostStatus, Visibility, type Prisma } from "@prisma/client"
+import { isoOrNull } from "@/utils/blog-utils"
+import { can } from "@/utils/permissions"
+import { avatarUrlFor, socialLinksFor } from "@/utils/profile-utils"
+
+export async function getAuthor(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    "/blog/authors/:username",
+    {
+      schema: {
+        tags: ["Posts"],
+        summary: "Perfil público do autor e seus posts publicados",
+        params: z.object({
+          username: z.string().min(1),
+        }),
+        querystring: z.object({
+          page: z.coerce.number().int().positive().default(1),
+          pageSize: z.coerce.number().int().min(1).max(100).default(10),
+        }),
+        response: {
+          200: z.object({
+            author: z.object({
+              id: z.string().uuid(),
+              name: z.string(),
+              username: z.string(),
+              bio: z.string().nullable(),
+              avatarUrl: z.string().nullable(),
+              postCount: z.number().int().nonnegative(),
+              totalViews: z.number().int().nonnegative(),
+              social: z.object({
+                website: z.string().nullable(),
+                linkedin: z.string().nullable(),
+                twitter: z.string().nullable(),
+              }),
+            }),
+            posts: z.object({
+              total: z.number().int(),
+              page: z.number().int(),
+              pageSize: z.number().int(),
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  title: z.string(),
+                  slug: z.string(),
+                  excerpt: z.string().nullable(),
+                  views: z.number().int(),
+                  publishedAt: z.string().datetime().nullable(),
+                  wordCount: z.number().int(),
+                  readTime: z.number().int(),
+                  coverUrl: z.string().nullable(),
+                  categories: z.array(
+                    z.object({
+                      id: z.string().uuid(),
+                      name: z.string(),
+                      slug: z.string(),
+                    }),
+                  ),
+                  tags: z.array(
+                    z.object({
+                      id: z.string().uuid(),
+                      name: z.string(),
+                      slug: z.string(),
+                    }),
+                  ),
+                }),
+              ),
+            }),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { username } = request.params
+      const { page, pageSize } = request.query
+
+      const author = await prisma.user.findFirst({
+        where: { username, deactivatedAt: null },
+        select: {
+          id: true,
+          role: true,
+          name: true,
+          username: true,
+          description: true,
+          avatarKey: true,
+          avatarUpdatedAt: true,
+          website: true,
+          linkedinHandle: true,
+          twitterHandle: true,
+        },
+      })
+
+      // contas desativadas ou sem papel editorial não têm perfil público
+      if (!author || !can(author, "post:create")) {
+        throw new NotFoundError("Autor não encontrado.")
+      }
+
+      // mesmas regras de visibilidade da listagem pública
+      const where: Prisma.PostWhereInput = {
+        authorId: author.id,
+        status: PostStatus.PUBLISHED,
+        visibility: Visibility.PUBLIC,
+        deletedAt: null,
+      }
+
+      const [stats, items] = await prisma.$transaction([
+        prisma.post.aggregate({
+          where,
+          _count: { _all: true },
+          _sum: { views: true },
+        }),
+        prisma.post.findMany({
+          where,
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+          orderBy: { publishedAt: "desc" },
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            excerpt: true,
+            views: true,
+            publishedAt: true,
+            wordCount: true,
+            readTime: true,
+            cover: { select: { url: true } },
+            categories: {
+              select: {
+                category: { select: { id: true, name: true, slug: true } },
+              },
+            },
+            tags: {
+              select: {
+                tag: { select: { id: true, name: true, slug: true } },
+              },
+            },
+          },
+        }),
+      ])
+
+      const total = stats._count._all
+
+      return reply.send({
+        author: {
+          id: author.id,
+          name: author.name,
+          username: author.username,
+          bio: author.description,
+          avatarUrl: avatarUrlFor(author),
+          postCount: total,
+          totalViews: stats._sum.views ?? 0,
+          social: socialLinksFor(author),
+        },
+        posts: {
+          total,
+          page,
+          pageSize,
+          items: items.map((p) => ({
+            id: p.id,
+            title: p.title,
+            slug: p.slug,
+            excerpt: p.excerpt,
+            views: p.views,
+            publishedAt: isoOrNull(p.publishedAt),
+            wordCount: p.wordCount,
+            readTime: p.readTime,
+            coverUrl: p.cover?.url ?? null,
+            categories: p.categories.map(({ category }) => category),
+            tags: p.tags.map(({ tag }) => tag),
+          })),
+        },
+      })
+    },
+  )
+}
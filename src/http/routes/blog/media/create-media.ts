@@ -4,10 +4,10 @@ import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
 import { auth } from "@/http/middlewares/auth"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { authorize } from "@/http/middlewares/authorize"
 import { BadRequestError } from "@/http/_errors/bad-request-error"
-import { Role } from "@prisma/client"
 import { guessMimeTypeFromUrl, normalizeHexColor } from "@/utils/midia-utils"
+import { recordAuditEvent, snapshot } from "@/utils/audit-utils"
 
 export async function createMedia(app: FastifyInstance) {
   app
@@ -41,22 +41,9 @@ export async function createMedia(app: FastifyInstance) {
             }),
           },
         },
+        preHandler: [authorize("media:create")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, role: true },
-        })
-
-        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
-        if (user.role !== Role.ADMIN && user.role !== Role.EDITOR) {
-          throw new UnauthorizedError(
-            "Você não tem permissão para cadastrar mídia.",
-          )
-        }
-
         const { url, alt, mimeType, width, height, dominantClr } = request.body
 
         // normalizações/validações adicionais
@@ -99,6 +86,20 @@ export async function createMedia(app: FastifyInstance) {
           },
         })
 
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "media.create",
+          targetType: "media",
+          targetId: created.id,
+          after: snapshot(created, [
+            "url",
+            "alt",
+            "mimeType",
+            "width",
+            "height",
+          ]),
+        })
+
         return reply.code(201).send({
           id: created.id,
           url: created.url,
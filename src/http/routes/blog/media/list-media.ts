@@ -4,8 +4,7 @@ import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
 import { auth } from "@/http/middlewares/auth"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
-import { Role } from "@prisma/client"
+import { authorize } from "@/http/middlewares/authorize"
 
 const ORDER_FIELDS = ["createdAt", "updatedAt"] as const
 type OrderField = (typeof ORDER_FIELDS)[number]
@@ -60,21 +59,9 @@ export async function listMedia(app: FastifyInstance) {
             }),
           },
         },
+        preHandler: [authorize("media:read")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, role: true },
-        })
-
-        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
-        if (user.role !== Role.ADMIN && user.role !== Role.EDITOR) {
-          throw new UnauthorizedError(
-            "Você não tem permissão para listar mídia.",
-          )
-        }
-
         const { page, perPage, q, mimeType, orderBy, sort, ids } = request.query
 
         const where = {
@@ -0,0 +1,159 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import {
+  BulkOperationStatus,
+  PostStatus,
+  Visibility,
+  type Prisma,
+} from "@prisma/client"
+import { assertCan, can } from "@/utils/permissions"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import { ownedPostsWhere } from "@/utils/contributor-utils"
+import {
+  assertBulkOperation,
+  BULK_INLINE_LIMIT,
+  BULK_MAX_ITEMS,
+  bulkOperationSchema,
+  bulkOperationViewSchema,
+  runPostBulkOperation,
+  toBulkOperationView,
+} from "@/utils/bulk-utils"
+
+export async function createPostBulkOperation(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/bulk",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary:
+            "Aplica uma operação a vários posts (por ids ou filtro); seleções grandes vão para a fila",
+          body: z
+            .object({
+              ids: z.array(z.string().uuid()).min(1).max(BULK_MAX_ITEMS),
+              // mesmos filtros da listagem admin, mais status/visibilidade/busca
+              filter: z.object({
+                authorId: z.string().uuid().optional(),
+                status: z.nativeEnum(PostStatus).optional(),
+                visibility: z.nativeEnum(Visibility).optional(),
+                category: z.string().optional(),
+                tag: z.string().optional(),
+                q: z.string().trim().min(1).max(200).optional(),
+              }),
+              operation: bulkOperationSchema,
+            })
+            .partial({ ids: true, filter: true })
+            .refine((b) => !!b.ids !== !!b.filter, {
+              message: "Informe 'ids' ou 'filter' (apenas um).",
+            }),
+          response: {
+            // seleção pequena: executada na hora
+            200: bulkOperationViewSchema,
+            202: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(BulkOperationStatus),
+              total: z.number().int(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { ids, filter, operation } = request.body
+        const { type, ...params } = operation
+
+        if (type === "delete") {
+          assertCan(request.user, "post:delete")
+        }
+        await assertBulkOperation(request.user, operation)
+
+        let postIds: string[]
+        if (ids) {
+          postIds = [...new Set(ids)]
+        } else {
+          const where: Prisma.PostWhereInput = {
+            deletedAt: null,
+            // sem `:any`, o filtro só alcança os próprios posts
+            ...(can(request.user, "post:edit", null)
+              ? {}
+              : ownedPostsWhere(request.user.id)),
+            ...(filter?.authorId ? { authorId: filter.authorId } : {}),
+            ...(filter?.status ? { status: filter.status } : {}),
+            ...(filter?.visibility ? { visibility: filter.visibility } : {}),
+            ...(filter?.category
+              ? {
+                  categories: { some: { category: { slug: filter.category } } },
+                }
+              : {}),
+            ...(filter?.tag
+              ? { tags: { some: { tag: { slug: filter.tag } } } }
+              : {}),
+            ...(filter?.q
+              ? { title: { contains: filter.q, mode: "insensitive" } }
+              : {}),
+          }
+
+          // um a mais que o limite só para detectar seleções grandes demais
+          const rows = await prisma.post.findMany({
+            where,
+            orderBy: { createdAt: "asc" },
+            select: { id: true },
+            take: BULK_MAX_ITEMS + 1,
+          })
+          if (rows.length > BULK_MAX_ITEMS) {
+            throw new BadRequestError(
+              `O filtro seleciona mais de ${BULK_MAX_ITEMS} posts; refine a seleção.`,
+            )
+          }
+          postIds = rows.map((r) => r.id)
+        }
+
+        if (postIds.length === 0) {
+          throw new BadRequestError("Nenhum post corresponde à seleção.")
+        }
+
+        const created = await prisma.postBulkOperation.create({
+          data: {
+            operation: type,
+            params,
+            postIds,
+            total: postIds.length,
+            requestedById: request.user.id,
+          },
+          select: { id: true, status: true, total: true },
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.bulk.request",
+          targetType: "post_bulk_operation",
+          targetId: created.id,
+          after: { operation: type, total: created.total },
+        })
+
+        if (created.total <= BULK_INLINE_LIMIT) {
+          await runPostBulkOperation(created.id)
+
+          const row = await prisma.postBulkOperation.findUniqueOrThrow({
+            where: { id: created.id },
+          })
+          return reply.code(200).send(toBulkOperationView(row))
+        }
+
+        await Queue.add("ProcessPostBulkOperation", {
+          operationId: created.id,
+        })
+
+        return reply.code(202).send(created)
+      },
+    )
+}
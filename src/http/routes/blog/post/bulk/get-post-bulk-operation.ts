@@ -0,0 +1,49 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { can } from "@/utils/permissions"
+import {
+  bulkOperationViewSchema,
+  toBulkOperationView,
+} from "@/utils/bulk-utils"
+
+export async function getPostBulkOperation(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/bulk/:id",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Progresso e relatório de uma operação em lote",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            200: bulkOperationViewSchema,
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const row = await prisma.postBulkOperation.findUnique({
+          where: { id: request.params.id },
+        })
+
+        // editores só acompanham as próprias operações
+        if (
+          !row ||
+          (row.requestedById !== request.user.id &&
+            !can(request.user, "post:edit", null))
+        ) {
+          throw new NotFoundError("Operação não encontrada.")
+        }
+
+        return reply.send(toBulkOperationView(row))
+      },
+    )
+}
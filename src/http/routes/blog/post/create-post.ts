@@ -3,10 +3,10 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
 import { BadRequestError } from "@/http/_errors/bad-request-error" // crie se ainda não existir
 import { auth } from "@/http/middlewares/auth"
-import { Role, PostStatus, Visibility } from "@prisma/client"
+import { authorize } from "@/http/middlewares/authorize"
+import { PostStatus, Visibility } from "@prisma/client"
 import {
   clampExcerpt,
   countWords,
@@ -16,6 +16,21 @@ import {
   makeUniqueSlug,
   slugify,
 } from "@/utils/blog-utils"
+import {
+  POST_AUDIT_FIELDS,
+  recordAuditEvent,
+  snapshot,
+} from "@/utils/audit-utils"
+import { recordPostRevision } from "@/utils/revision-utils"
+import {
+  contributorsInputSchema,
+  replacePostContributors,
+} from "@/utils/contributor-utils"
+import { assertPostTransition } from "@/utils/post-workflow-utils"
+import {
+  assertContentMediaExists,
+  parsePostContent,
+} from "@/utils/content-utils"
 
 export async function createPost(app: FastifyInstance) {
   app
@@ -31,14 +46,13 @@ export async function createPost(app: FastifyInstance) {
             title: z.string().min(3).max(160),
             slug: z.string().min(1).max(140).optional(),
             excerpt: z.string().max(300).optional(),
-            content: z.any(),
+            // documento em blocos validado por parsePostContent (erros com caminho JSON)
+            content: z.unknown(),
             coverId: z.string().uuid().nullable().optional(),
 
             status: z.nativeEnum(PostStatus).default(PostStatus.DRAFT),
             visibility: z.nativeEnum(Visibility).default(Visibility.PUBLIC),
 
-            scheduledFor: z.string().datetime().optional(),
-
             categoryNames: z
               .array(
                 z
@@ -58,6 +72,9 @@ export async function createPost(app: FastifyInstance) {
                   .transform((s) => s.trim()),
               )
               .optional(),
+
+            // coautores, revisores e tradutores (o criador é o autor principal)
+            contributors: contributorsInputSchema.optional(),
           }),
           response: {
             201: z.object({
@@ -74,63 +91,28 @@ export async function createPost(app: FastifyInstance) {
             }),
           },
         },
+        preHandler: [authorize("post:create")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, role: true },
-        })
-
-        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
-        if (user.role !== Role.ADMIN && user.role !== Role.EDITOR) {
-          throw new UnauthorizedError(
-            "Você não tem permissão para criar posts.",
-          )
-        }
+        const { user } = request
 
         const {
           title,
           slug: slugInput,
           excerpt,
-          content,
           coverId,
           status,
           visibility,
-          scheduledFor,
           categoryNames = [],
           tagNames = [],
+          contributors = [],
         } = request.body
 
-        // regras de datas/status
-        let publishedAt: Date | null = null
-        let scheduledAt: Date | null = null
+        const content = parsePostContent(request.body.content)
+        await assertContentMediaExists(content)
 
-        if (status === PostStatus.SCHEDULED) {
-          if (!scheduledFor) {
-            throw new BadRequestError(
-              "Posts agendados requerem 'scheduledFor'.",
-            )
-          }
-          const when = new Date(scheduledFor)
-          if (Number.isNaN(when.getTime())) {
-            throw new BadRequestError("'scheduledFor' inválido.")
-          }
-          const now = new Date()
-          if (when <= now) {
-            throw new BadRequestError("'scheduledFor' deve ser no futuro.")
-          }
-
-          // (opcional) truncar ms:
-          when.setMilliseconds(0)
-
-          scheduledAt = when
-        }
-
-        if (status === PostStatus.PUBLISHED) {
-          publishedAt = new Date()
-        }
+        // posts novos nascem como rascunho: publicar/agendar exige revisão aprovada
+        assertPostTransition(null, status, { approved: false, via: "edit" })
 
         // slug único para o post
         const baseSlug = slugify(
@@ -181,8 +163,6 @@ export async function createPost(app: FastifyInstance) {
               coverId: coverId ?? null,
               status,
               visibility,
-              publishedAt,
-              scheduledFor: scheduledAt,
               wordCount: wc,
               readTime: rt,
             },
@@ -230,9 +210,24 @@ export async function createPost(app: FastifyInstance) {
             })
           }
 
+          if (contributors.length > 0) {
+            await replacePostContributors(tx, post, contributors)
+          }
+
+          // revisão 1: estado original, base para diff/restauração
+          await recordPostRevision(tx, post.id, user.id)
+
           return post
         })
 
+        await recordAuditEvent(request, {
+          actorId: user.id,
+          action: "post.create",
+          targetType: "post",
+          targetId: created.id,
+          after: snapshot(created, POST_AUDIT_FIELDS),
+        })
+
         return reply.code(201).send({
           id: created.id,
           slug: created.slug,
@@ -4,9 +4,16 @@ import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
 import { auth } from "@/http/middlewares/auth"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { authorize } from "@/http/middlewares/authorize"
 import { NotFoundError } from "@/http/_errors/not-found-error"
-import { Role } from "@prisma/client"
+import { assertCan } from "@/utils/permissions"
+import {
+  POST_AUDIT_FIELDS,
+  recordAuditEvent,
+  snapshot,
+} from "@/utils/audit-utils"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import { getTrashRetentionDays, trashPurgeAt } from "@/utils/trash-utils"
 
 export async function deletePost(app: FastifyInstance) {
   app
@@ -17,7 +24,7 @@ export async function deletePost(app: FastifyInstance) {
       {
         schema: {
           tags: ["Posts"],
-          summary: "Delete a post",
+          summary: "Move a post to the trash",
           params: z.object({
             id: z.string().uuid(),
           }),
@@ -25,54 +32,71 @@ export async function deletePost(app: FastifyInstance) {
             200: z.object({
               id: z.string().uuid(),
               deleted: z.literal(true),
+              // removido definitivamente a partir desta data
+              purgeAt: z.string().datetime(),
             }),
             401: z.object({
               message: z.string(),
             }),
+            403: z.object({
+              message: z.string(),
+            }),
             404: z.object({
               message: z.string(),
             }),
           },
         },
+        preHandler: [authorize("post:delete")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-
-        const me = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, role: true },
-        })
-
-        if (!me) {
-          throw new UnauthorizedError("Usuário não autenticado.")
-        }
-
-        // somente ADMIN ou EDITOR podem deletar
-        if (me.role !== Role.ADMIN && me.role !== Role.EDITOR) {
-          throw new UnauthorizedError(
-            "Você não tem permissão para deletar posts.",
-          )
-        }
-
         const { id } = request.params
 
         const post = await prisma.post.findUnique({
-          where: { id },
-          select: { id: true, authorId: true },
+          where: { id, deletedAt: null },
+          select: {
+            id: true,
+            authorId: true,
+            contributors: POST_OWNERS_SELECT.contributors,
+            title: true,
+            slug: true,
+            excerpt: true,
+            coverId: true,
+            status: true,
+            visibility: true,
+            publishedAt: true,
+            scheduledFor: true,
+          },
         })
         if (!post) {
           throw new NotFoundError("Post não encontrado.")
         }
 
-        if (me.role === Role.EDITOR && post.authorId !== me.id) {
-          throw new UnauthorizedError(
-            "Você não pode deletar posts de outros autores.",
-          )
-        }
+        assertCan(
+          request.user,
+          "post:delete",
+          postOwnerIds(post),
+          "Você não pode deletar posts de outros autores.",
+        )
 
-        await prisma.post.delete({ where: { id } })
+        // soft delete: comentários, views e histórico ficam até o purge
+        const deletedAt = new Date()
+        await prisma.post.update({ where: { id }, data: { deletedAt } })
 
-        return reply.status(200).send({ id, deleted: true })
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.delete",
+          targetType: "post",
+          targetId: id,
+          before: snapshot(post, POST_AUDIT_FIELDS),
+        })
+
+        const retentionDays = await getTrashRetentionDays()
+
+        return reply.status(200).send({
+          id,
+          deleted: true,
+          purgeAt: trashPurgeAt(deletedAt, retentionDays).toISOString(),
+        })
       },
     )
 }
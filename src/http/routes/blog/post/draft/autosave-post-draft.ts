@@ -0,0 +1,164 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { Prisma } from "@prisma/client"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import { draftConflict } from "@/utils/draft-utils"
+import {
+  assertContentMediaExists,
+  parsePostContent,
+} from "@/utils/content-utils"
+
+const nameList = z.array(
+  z
+    .string()
+    .min(1)
+    .max(60)
+    .transform((s) => s.trim()),
+)
+
+export async function autosavePostDraft(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .put(
+      "/blog/admin/posts/:id/draft",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary:
+            "Autosave: grava a cópia de trabalho sem alterar a versão publicada",
+          params: z.object({ id: z.string().uuid() }),
+          body: z.object({
+            // versão do rascunho que o editor carregou (0 = ainda não existia)
+            baseVersion: z.number().int().min(0),
+            title: z.string().min(3).max(160).optional(),
+            excerpt: z.string().max(300).nullable().optional(),
+            content: z.unknown().optional(),
+            coverId: z.string().uuid().nullable().optional(),
+            categoryNames: nameList.optional(),
+            tagNames: nameList.optional(),
+          }),
+          response: {
+            200: z.object({
+              version: z.number().int(),
+              updatedAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { baseVersion, ...patch } = request.body
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: {
+            id: true,
+            ...POST_OWNERS_SELECT,
+            title: true,
+            excerpt: true,
+            content: true,
+            coverId: true,
+            categories: { select: { category: { select: { name: true } } } },
+            tags: { select: { tag: { select: { name: true } } } },
+          },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(post),
+          "Você não pode editar posts de outros autores.",
+        )
+
+        const content =
+          patch.content !== undefined
+            ? parsePostContent(patch.content)
+            : undefined
+        if (content) await assertContentMediaExists(content)
+
+        if (patch.coverId) {
+          const cover = await prisma.media.findUnique({
+            where: { id: patch.coverId },
+            select: { id: true },
+          })
+          if (!cover) throw new BadRequestError("coverId não encontrado.")
+        }
+
+        const data = {
+          ...(patch.title !== undefined ? { title: patch.title } : {}),
+          ...(patch.excerpt !== undefined ? { excerpt: patch.excerpt } : {}),
+          ...(content !== undefined ? { content } : {}),
+          ...(patch.coverId !== undefined ? { coverId: patch.coverId } : {}),
+          ...(patch.categoryNames !== undefined
+            ? { categoryNames: patch.categoryNames }
+            : {}),
+          ...(patch.tagNames !== undefined ? { tagNames: patch.tagNames } : {}),
+          updatedById: request.user.id,
+        }
+
+        if (baseVersion === 0) {
+          // primeiro autosave: parte do estado publicado
+          try {
+            const created = await prisma.postDraft.create({
+              data: {
+                postId: post.id,
+                title: post.title,
+                excerpt: post.excerpt,
+                content: post.content as Prisma.InputJsonValue,
+                coverId: post.coverId,
+                categoryNames: post.categories.map((c) => c.category.name),
+                tagNames: post.tags.map((t) => t.tag.name),
+                ...data,
+              },
+              select: { version: true, updatedAt: true },
+            })
+
+            return reply.send({
+              version: created.version,
+              updatedAt: created.updatedAt.toISOString(),
+            })
+          } catch (err) {
+            if (
+              err instanceof Prisma.PrismaClientKnownRequestError &&
+              err.code === "P2002"
+            ) {
+              throw await draftConflict(post.id)
+            }
+            throw err
+          }
+        }
+
+        // só grava se ninguém salvou desde a versão que o cliente viu;
+        // a leitura fica na mesma transação para devolver a versão gravada aqui
+        const draft = await prisma.$transaction(async (tx) => {
+          const saved = await tx.postDraft.updateMany({
+            where: { postId: post.id, version: baseVersion },
+            data: { ...data, version: { increment: 1 } },
+          })
+          if (saved.count === 0) return null
+
+          return tx.postDraft.findUniqueOrThrow({
+            where: { postId: post.id },
+            select: { version: true, updatedAt: true },
+          })
+        })
+        if (!draft) throw await draftConflict(post.id)
+
+        return reply.send({
+          version: draft.version,
+          updatedAt: draft.updatedAt.toISOString(),
+        })
+      },
+    )
+}
@@ -0,0 +1,48 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+
+export async function discardPostDraft(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/blog/admin/posts/:id/draft",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Descarta a cópia de trabalho de um post",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            204: z.null(),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const draft = await prisma.postDraft.findUnique({
+          where: { postId: request.params.id },
+          select: { id: true, post: { select: POST_OWNERS_SELECT } },
+        })
+        if (!draft) throw new NotFoundError("Este post não tem rascunho.")
+
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(draft.post),
+          "Você não pode editar posts de outros autores.",
+        )
+
+        await prisma.postDraft.delete({ where: { id: draft.id } })
+
+        return reply.code(204).send()
+      },
+    )
+}
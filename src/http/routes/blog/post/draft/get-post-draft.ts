@@ -0,0 +1,73 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+
+export async function getPostDraft(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/:id/draft",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Cópia de trabalho (rascunho não publicado) de um post",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            200: z.object({
+              postId: z.string().uuid(),
+              version: z.number().int(),
+              title: z.string(),
+              excerpt: z.string().nullable(),
+              content: z.any(),
+              coverId: z.string().nullable(),
+              categoryNames: z.array(z.string()),
+              tagNames: z.array(z.string()),
+              updatedBy: z
+                .object({
+                  id: z.string().uuid(),
+                  name: z.string(),
+                  username: z.string(),
+                })
+                .nullable(),
+              // true quando a versão publicada mudou depois que o rascunho começou
+              stale: z.boolean(),
+              createdAt: z.string().datetime(),
+              updatedAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:read")],
+      },
+      async (request, reply) => {
+        const draft = await prisma.postDraft.findUnique({
+          where: { postId: request.params.id },
+          include: {
+            post: { select: { updatedAt: true } },
+            updatedBy: { select: { id: true, name: true, username: true } },
+          },
+        })
+        if (!draft) throw new NotFoundError("Este post não tem rascunho.")
+
+        return reply.send({
+          postId: draft.postId,
+          version: draft.version,
+          title: draft.title,
+          excerpt: draft.excerpt,
+          content: draft.content,
+          coverId: draft.coverId,
+          categoryNames: draft.categoryNames,
+          tagNames: draft.tagNames,
+          updatedBy: draft.updatedBy,
+          stale: draft.post.updatedAt > draft.createdAt,
+          createdAt: draft.createdAt.toISOString(),
+          updatedAt: draft.updatedAt.toISOString(),
+        })
+      },
+    )
+}
@@ -0,0 +1,158 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import {
+  clampExcerpt,
+  countWords,
+  estimateReadTimeMinutes,
+  jsonToPlainText,
+  replacePostTaxonomy,
+} from "@/utils/blog-utils"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import {
+  POST_AUDIT_FIELDS,
+  recordAuditEvent,
+  snapshot,
+} from "@/utils/audit-utils"
+import {
+  ensureBaselineRevision,
+  recordPostRevision,
+} from "@/utils/revision-utils"
+import { draftConflict } from "@/utils/draft-utils"
+import {
+  invalidatesApproval,
+  REVIEWED_POST_FIELDS,
+} from "@/utils/post-workflow-utils"
+import {
+  assertContentMediaExists,
+  parsePostContent,
+} from "@/utils/content-utils"
+
+export async function publishPostDraft(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/:id/draft/publish",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary:
+            "Publica as alterações do rascunho, substituindo a versão atual do post",
+          params: z.object({ id: z.string().uuid() }),
+          body: z.object({
+            // versão do rascunho revisada pelo editor
+            baseVersion: z.number().int().min(1),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              slug: z.string(),
+              revision: z.number().int(),
+              wordCount: z.number().int(),
+              readTime: z.number().int(),
+              updatedAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { baseVersion } = request.body
+
+        const existing = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          include: { contributors: POST_OWNERS_SELECT.contributors },
+        })
+        if (!existing) throw new NotFoundError("Post não encontrado.")
+
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(existing),
+          "Você não pode editar posts de outros autores.",
+        )
+
+        const draft = await prisma.postDraft.findUnique({
+          where: { postId: id },
+        })
+        if (!draft) throw new NotFoundError("Este post não tem rascunho.")
+        if (draft.version !== baseVersion) throw await draftConflict(id)
+
+        // a capa pode ter sido removida enquanto o rascunho existia
+        const cover = draft.coverId
+          ? await prisma.media.findUnique({
+              where: { id: draft.coverId },
+              select: { id: true },
+            })
+          : null
+
+        // rascunhos iniciados antes do schema em blocos precisam ser migrados
+        const content = parsePostContent(draft.content)
+        await assertContentMediaExists(content)
+
+        const plain = jsonToPlainText(content)
+        const wordCount = countWords(plain)
+
+        const { updated, revision } = await prisma.$transaction(async (tx) => {
+          // consome o rascunho na versão revisada; falha se alguém salvou depois
+          const consumed = await tx.postDraft.deleteMany({
+            where: { id: draft.id, version: baseVersion },
+          })
+          if (consumed.count === 0) throw await draftConflict(id)
+
+          await ensureBaselineRevision(tx, existing.id, existing.authorId)
+
+          const post = await tx.post.update({
+            where: { id: existing.id },
+            data: {
+              title: draft.title,
+              excerpt: clampExcerpt(draft.excerpt ?? undefined, plain) || null,
+              content,
+              coverId: cover?.id ?? null,
+              wordCount,
+              readTime: estimateReadTimeMinutes(wordCount),
+              ...(invalidatesApproval(existing, REVIEWED_POST_FIELDS)
+                ? { approvedAt: null }
+                : {}),
+            },
+          })
+
+          await replacePostTaxonomy(tx, post.id, draft)
+
+          const revision = await recordPostRevision(
+            tx,
+            post.id,
+            request.user.id,
+          )
+
+          return { updated: post, revision }
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.draft.publish",
+          targetType: "post",
+          targetId: updated.id,
+          before: snapshot(existing, POST_AUDIT_FIELDS),
+          after: snapshot(updated, POST_AUDIT_FIELDS),
+        })
+
+        return reply.send({
+          id: updated.id,
+          slug: updated.slug,
+          revision: revision.version,
+          wordCount: updated.wordCount,
+          readTime: updated.readTime,
+          updatedAt: updated.updatedAt.toISOString(),
+        })
+      },
+    )
+}
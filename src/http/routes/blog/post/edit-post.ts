@@ -4,17 +4,42 @@ import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
 import { auth } from "@/http/middlewares/auth"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { authorize } from "@/http/middlewares/authorize"
 import { BadRequestError } from "@/http/_errors/bad-request-error"
-import { Role, PostStatus, Visibility } from "@prisma/client"
+import { PostStatus, Visibility } from "@prisma/client"
 import {
   clampExcerpt,
   countWords,
   estimateReadTimeMinutes,
   isoOrNull,
+  isSlugTaken,
   jsonToPlainText,
   slugify,
 } from "@/utils/blog-utils"
+import { assertCan } from "@/utils/permissions"
+import {
+  POST_AUDIT_FIELDS,
+  recordAuditEvent,
+  snapshot,
+} from "@/utils/audit-utils"
+import {
+  assertPostTransition,
+  invalidatesApproval,
+} from "@/utils/post-workflow-utils"
+import {
+  assertContentMediaExists,
+  parsePostContent,
+} from "@/utils/content-utils"
+import {
+  contributorsInputSchema,
+  POST_OWNERS_SELECT,
+  postOwnerIds,
+  replacePostContributors,
+} from "@/utils/contributor-utils"
+import {
+  ensureBaselineRevision,
+  recordPostRevision,
+} from "@/utils/revision-utils"
 
 // helper local para garantir slug único, preservando o próprio post
 async function ensureUniqueSlug(base: string, currentPostId: string) {
@@ -31,12 +56,9 @@ async function ensureUniqueSlug(base: string, currentPostId: string) {
   })
   if (self) return candidate
 
+  // slugs reservados por redirects de outros posts também contam como ocupados
   for (let i = 0; i < 1000; i++) {
-    const found = await prisma.post.findFirst({
-      where: { slug: candidate, NOT: { id: currentPostId } },
-      select: { id: true },
-    })
-    if (!found) return candidate
+    if (!(await isSlugTaken(candidate, currentPostId))) return candidate
     candidate = `${baseSlug}-${suffix++}`
   }
 
@@ -60,7 +82,7 @@ export async function editPost(app: FastifyInstance) {
             title: z.string().min(3).max(160).optional(),
             slug: z.string().min(1).max(140).optional(),
             excerpt: z.string().max(300).optional(),
-            content: z.any().optional(),
+            content: z.unknown().optional(),
             coverId: z.string().uuid().nullable().optional(),
 
             status: z.nativeEnum(PostStatus).optional(),
@@ -86,6 +108,9 @@ export async function editPost(app: FastifyInstance) {
                   .transform((s) => s.trim()),
               )
               .optional(),
+
+            // substitui coautores, revisores e tradutores
+            contributors: contributorsInputSchema.optional(),
           }),
           response: {
             200: z.object({
@@ -102,28 +127,17 @@ export async function editPost(app: FastifyInstance) {
             }),
           },
         },
+        preHandler: [authorize("post:edit")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, role: true },
-        })
-
-        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
-        if (user.role !== Role.ADMIN && user.role !== Role.EDITOR) {
-          throw new UnauthorizedError(
-            "Você não tem permissão para editar posts.",
-          )
-        }
-
         const { id } = request.params
 
         const existing = await prisma.post.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: {
             id: true,
+            authorId: true,
+            contributors: POST_OWNERS_SELECT.contributors,
             slug: true,
             title: true,
             excerpt: true,
@@ -132,6 +146,7 @@ export async function editPost(app: FastifyInstance) {
             visibility: true,
             publishedAt: true,
             scheduledFor: true,
+            approvedAt: true,
             coverId: true,
             createdAt: true,
             updatedAt: true,
@@ -145,17 +160,24 @@ export async function editPost(app: FastifyInstance) {
           throw new BadRequestError("Post não encontrado.")
         }
 
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(existing),
+          "Você não pode editar posts de outros autores.",
+        )
+
         const {
           title,
           slug,
           excerpt,
-          content,
           coverId,
           status,
           visibility,
           scheduledFor,
           categoryNames,
           tagNames,
+          contributors,
         } = request.body
 
         // Validar coverId (quando enviado não-nulo)
@@ -166,6 +188,36 @@ export async function editPost(app: FastifyInstance) {
           if (!cover) throw new BadRequestError("coverId não encontrado.")
         }
 
+        const content =
+          request.body.content !== undefined
+            ? parsePostContent(request.body.content)
+            : undefined
+        if (content) await assertContentMediaExists(content)
+
+        const changedFields = Object.entries({ title, excerpt, content })
+          .filter(([, value]) => value !== undefined)
+          .map(([field]) => field)
+        const approvalStillValid =
+          !!existing.approvedAt && !invalidatesApproval(existing, changedFields)
+
+        // texto de post no ar só muda pelo rascunho, para não expor edições pela metade
+        if (
+          existing.status === PostStatus.PUBLISHED &&
+          (status ?? existing.status) === PostStatus.PUBLISHED &&
+          changedFields.length > 0
+        ) {
+          throw new BadRequestError(
+            "Post publicado: salve as alterações de título, resumo ou conteúdo em /blog/admin/posts/:id/draft e publique com /blog/admin/posts/:id/draft/publish.",
+          )
+        }
+
+        if (status !== undefined) {
+          assertPostTransition(existing.status, status, {
+            approved: approvalStillValid,
+            via: "edit",
+          })
+        }
+
         // Regras de status/datas
         let nextStatus = status ?? existing.status
         let nextPublishedAt: Date | null = existing.publishedAt ?? null
@@ -246,6 +298,8 @@ export async function editPost(app: FastifyInstance) {
           : null
 
         const updated = await prisma.$transaction(async (tx) => {
+          await ensureBaselineRevision(tx, existing.id, existing.authorId)
+
           // upsert coverId: se coverId for null explícito, zera; se undefined, mantém
           const coverPatch =
             coverId === undefined ? {} : { coverId: coverId ?? null }
@@ -254,13 +308,17 @@ export async function editPost(app: FastifyInstance) {
             ...(title !== undefined ? { title } : {}),
             ...(slug !== undefined ? { slug: nextSlug } : {}),
             ...(excerpt !== undefined ? { excerpt: finalExcerpt } : {}),
-            ...(content !== undefined ? { content: newContent } : {}),
+            ...(content !== undefined ? { content } : {}),
             ...(visibility !== undefined ? { visibility } : {}),
             ...(status !== undefined ? { status: nextStatus } : {}),
             ...(status !== undefined || scheduledFor !== undefined
               ? { scheduledFor: nextScheduledFor }
               : {}),
             ...(status !== undefined ? { publishedAt: nextPublishedAt } : {}),
+            ...(nextStatus === PostStatus.DRAFT ||
+            (nextStatus === PostStatus.IN_REVIEW && !approvalStillValid)
+              ? { approvedAt: null }
+              : {}),
             ...coverPatch,
             ...(shouldRecompute
               ? {
@@ -275,6 +333,22 @@ export async function editPost(app: FastifyInstance) {
             data: patchData,
           })
 
+          // slug trocado: o antigo passa a redirecionar para este post
+          if (post.slug !== existing.slug) {
+            await tx.slugRedirect.deleteMany({
+              where: { postId: post.id, slug: post.slug },
+            })
+            await tx.slugRedirect.upsert({
+              where: { slug: existing.slug },
+              update: { postId: post.id },
+              create: {
+                slug: existing.slug,
+                postId: post.id,
+                createdById: request.user.id,
+              },
+            })
+          }
+
           // Se categorias foram enviadas, substitui relações
           if (uniqueCategories) {
             await tx.categoryOnPosts.deleteMany({ where: { postId: post.id } })
@@ -327,9 +401,33 @@ export async function editPost(app: FastifyInstance) {
             }
           }
 
+          if (contributors) {
+            await replacePostContributors(tx, post, contributors)
+          }
+
+          await recordPostRevision(tx, post.id, request.user.id)
+
           return post
         })
 
+        // publicação e troca de slug ganham ações próprias para facilitar a busca
+        const action =
+          updated.status === PostStatus.PUBLISHED &&
+          existing.status !== PostStatus.PUBLISHED
+            ? "post.publish"
+            : updated.slug !== existing.slug
+              ? "post.slug.change"
+              : "post.update"
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action,
+          targetType: "post",
+          targetId: updated.id,
+          before: snapshot(existing, POST_AUDIT_FIELDS),
+          after: snapshot(updated, POST_AUDIT_FIELDS),
+        })
+
         // ★ sem cast para any; os campos existem no modelo
         return reply.code(200).send({
           id: updated.id,
@@ -5,8 +5,9 @@ import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
 import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
 import { BadRequestError } from "@/http/_errors/bad-request-error"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { PostStatus } from "@prisma/client"
 import { isoOrNull } from "@/utils/blog-utils"
 
 export async function getPostById(app: FastifyInstance) {
@@ -29,10 +30,11 @@ export async function getPostById(app: FastifyInstance) {
               content: z.any(),
               coverId: z.string().uuid().nullable(),
               coverUrl: z.string().url().nullable(),
-              status: z.enum(["DRAFT", "SCHEDULED", "PUBLISHED"]),
+              status: z.nativeEnum(PostStatus),
               visibility: z.enum(["PUBLIC", "UNLISTED", "PRIVATE"]),
               publishedAt: z.string().datetime().nullable(),
               scheduledFor: z.string().datetime().nullable(),
+              approvedAt: z.string().datetime().nullable(),
               wordCount: z.number().int(),
               readTime: z.number().int(),
               createdAt: z.string().datetime(),
@@ -41,18 +43,26 @@ export async function getPostById(app: FastifyInstance) {
                 z.object({ name: z.string(), slug: z.string() }),
               ),
               tags: z.array(z.object({ name: z.string(), slug: z.string() })),
+              // cópia de trabalho pendente (autosave), se houver
+              draft: z
+                .object({
+                  version: z.number().int(),
+                  updatedAt: z.string().datetime(),
+                  updatedBy: z
+                    .object({ id: z.string().uuid(), name: z.string() })
+                    .nullable(),
+                })
+                .nullable(),
             }),
           },
         },
+        preHandler: [authorize("post:read")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-        if (!userId) throw new UnauthorizedError("Usuário não autenticado.")
-
         const { id } = request.params
 
         const post = await prisma.post.findUnique({
-          where: { id },
+          where: { id, deletedAt: null },
           select: {
             id: true,
             title: true,
@@ -64,6 +74,7 @@ export async function getPostById(app: FastifyInstance) {
             visibility: true,
             publishedAt: true,
             scheduledFor: true,
+            approvedAt: true,
             wordCount: true,
             readTime: true,
             createdAt: true,
@@ -77,6 +88,13 @@ export async function getPostById(app: FastifyInstance) {
               select: { tag: { select: { name: true, slug: true } } },
               orderBy: { tag: { name: "asc" } },
             },
+            draft: {
+              select: {
+                version: true,
+                updatedAt: true,
+                updatedBy: { select: { id: true, name: true } },
+              },
+            },
           },
         })
 
@@ -94,6 +112,7 @@ export async function getPostById(app: FastifyInstance) {
           visibility: post.visibility,
           publishedAt: isoOrNull(post.publishedAt),
           scheduledFor: isoOrNull(post.scheduledFor),
+          approvedAt: isoOrNull(post.approvedAt),
           wordCount: post.wordCount,
           readTime: post.readTime,
           createdAt: post.createdAt.toISOString(),
@@ -101,6 +120,13 @@ export async function getPostById(app: FastifyInstance) {
           // se não houver vínculos, retorna []
           categories: (post.categories ?? []).map((c) => c.category),
           tags: (post.tags ?? []).map((t) => t.tag),
+          draft: post.draft
+            ? {
+                version: post.draft.version,
+                updatedAt: post.draft.updatedAt.toISOString(),
+                updatedBy: post.draft.updatedBy,
+              }
+            : null,
         })
       },
     )
@@ -5,9 +5,55 @@ import { z } from "zod"
 import { prisma } from "@/lib/prisma"
 import { NotFoundError } from "@/http/_errors/not-found-error"
 import { PostStatus, Visibility } from "@prisma/client"
-import { isoOrNull } from "@/utils/blog-utils"
+import {
+  countWords,
+  estimateReadTimeMinutes,
+  isoOrNull,
+  jsonToPlainText,
+} from "@/utils/blog-utils"
+import { findActivePreviewToken, recordPreviewUse } from "@/utils/preview-utils"
+import { getCachedPostHtml, renderContentHtml } from "@/utils/render-utils"
+import {
+  BYLINE_SELECT,
+  bylineSchema,
+  toByline,
+} from "@/utils/contributor-utils"
+import {
+  getSeriesNavigation,
+  seriesNavigationSchema,
+} from "@/utils/series-utils"
 import { hash } from "crypto"
 
+// redirect de slug antigo, só se o post de destino estiver público
+async function findSlugRedirect(slug: string) {
+  const redirect = await prisma.slugRedirect.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      post: {
+        select: { slug: true, status: true, visibility: true, deletedAt: true },
+      },
+    },
+  })
+  if (
+    !redirect ||
+    redirect.post.deletedAt ||
+    redirect.post.status !== PostStatus.PUBLISHED ||
+    redirect.post.visibility !== Visibility.PUBLIC
+  ) {
+    return null
+  }
+
+  await prisma.slugRedirect
+    .update({
+      where: { id: redirect.id },
+      data: { hits: { increment: 1 }, lastHitAt: new Date() },
+    })
+    .catch(() => {})
+
+  return { slug: redirect.post.slug }
+}
+
 export async function getPost(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     "/blog/posts/:identifier",
@@ -18,6 +64,12 @@ export async function getPost(app: FastifyInstance) {
         params: z.object({
           identifier: z.string().min(1),
         }),
+        querystring: z.object({
+          // token de pré-visualização: libera rascunhos/agendados e o autosave
+          preview: z.string().min(1).max(128).optional(),
+          // "html" inclui o conteúdo já renderizado no campo `html`
+          format: z.enum(["json", "html"]).default("json"),
+        }),
         response: {
           200: z.object({
             id: z.string().uuid(),
@@ -41,6 +93,8 @@ export async function getPost(app: FastifyInstance) {
               bio: z.string().nullable(),
               hasAvatar: z.boolean(),
             }),
+            // autor principal + coautores, revisores e tradutores
+            byline: bylineSchema,
             coverUrl: z.string().nullable(),
             categories: z.array(
               z.object({
@@ -56,29 +110,43 @@ export async function getPost(app: FastifyInstance) {
                 slug: z.string(),
               }),
             ),
+            preview: z.boolean(),
+            // navegação quando o post faz parte de uma série
+            series: seriesNavigationSchema.nullable(),
+            html: z.string().optional(),
+          }),
+          // slug antigo: aponta para o slug atual (também no header Location)
+          301: z.object({
+            redirectTo: z.string(),
+            location: z.string(),
           }),
         },
       },
     },
     async (request, reply) => {
       const { identifier } = request.params
+      const { preview, format } = request.query
 
       const isUUID =
         /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
           identifier,
         )
 
-      const where = isUUID
-        ? {
-            id: identifier,
-            status: PostStatus.PUBLISHED,
-            visibility: Visibility.PUBLIC,
-          }
-        : {
-            slug: identifier,
-            status: PostStatus.PUBLISHED,
-            visibility: Visibility.PUBLIC,
-          }
+      const previewToken = preview
+        ? await findActivePreviewToken(preview)
+        : null
+      if (preview && !previewToken) {
+        throw new NotFoundError("Post não encontrado.")
+      }
+
+      // com pré-visualização válida, qualquer status/visibilidade é aceito
+      const where = {
+        ...(isUUID ? { id: identifier } : { slug: identifier }),
+        deletedAt: null,
+        ...(previewToken
+          ? {}
+          : { status: PostStatus.PUBLISHED, visibility: Visibility.PUBLIC }),
+      }
 
       const post = await prisma.post.findFirst({
         where,
@@ -92,6 +160,7 @@ export async function getPost(app: FastifyInstance) {
               avatarKey: true,
             },
           },
+          contributors: BYLINE_SELECT.contributors,
           cover: { select: { url: true } },
           categories: {
             include: { category: true },
@@ -99,24 +168,88 @@ export async function getPost(app: FastifyInstance) {
           tags: {
             include: { tag: true },
           },
+          draft: !!previewToken,
         },
       })
 
-      if (!post) throw new NotFoundError("Post não encontrado.")
+      if (!post) {
+        const redirect =
+          !isUUID && !previewToken ? await findSlugRedirect(identifier) : null
+        if (!redirect) throw new NotFoundError("Post não encontrado.")
 
-      return reply.send({
-        id: post.id,
+        const location = `/blog/posts/${encodeURIComponent(redirect.slug)}${
+          format === "html" ? "?format=html" : ""
+        }`
+        return reply
+          .code(301)
+          .header("Location", location)
+          .send({ redirectTo: redirect.slug, location })
+      }
+      // o token só vale para o post em que foi gerado
+      if (previewToken && post.id !== previewToken.postId) {
+        throw new NotFoundError("Post não encontrado.")
+      }
+
+      let body = {
         title: post.title,
-        slug: post.slug,
         excerpt: post.excerpt,
         content: post.content,
+        wordCount: post.wordCount,
+        readTime: post.readTime,
+        coverUrl: post.cover?.url ?? null,
+      }
+
+      if (previewToken) {
+        await recordPreviewUse(request, previewToken.id)
+
+        // mostra a cópia de trabalho (autosave), quando existir
+        const draft = post.draft
+        if (draft) {
+          const wordCount = countWords(jsonToPlainText(draft.content))
+          const cover = draft.coverId
+            ? await prisma.media.findUnique({
+                where: { id: draft.coverId },
+                select: { url: true },
+              })
+            : null
+
+          body = {
+            title: draft.title,
+            excerpt: draft.excerpt,
+            content: draft.content,
+            wordCount,
+            readTime: estimateReadTimeMinutes(wordCount),
+            coverUrl: cover?.url ?? null,
+          }
+        }
+
+        reply.header("Cache-Control", "no-store")
+        reply.header("X-Robots-Tag", "noindex, nofollow")
+      }
+
+      // pré-visualização mostra o rascunho, que não entra no cache
+      const html =
+        format !== "html"
+          ? undefined
+          : previewToken
+            ? await renderContentHtml(body.content)
+            : await getCachedPostHtml(post)
+
+      const series = await getSeriesNavigation(post.id)
+
+      return reply.send({
+        id: post.id,
+        title: body.title,
+        slug: post.slug,
+        excerpt: body.excerpt,
+        content: body.content,
         status: post.status,
         views: post.views,
         visibility: post.visibility,
         publishedAt: isoOrNull(post.publishedAt),
         scheduledFor: isoOrNull(post.scheduledFor),
-        wordCount: post.wordCount,
-        readTime: post.readTime,
+        wordCount: body.wordCount,
+        readTime: body.readTime,
         createdAt: post.createdAt.toISOString(),
         updatedAt: post.updatedAt.toISOString(),
         author: {
@@ -126,7 +259,8 @@ export async function getPost(app: FastifyInstance) {
           bio: post.author.description,
           hasAvatar: !!post.author.avatarKey,
         },
-        coverUrl: post.cover?.url ?? null,
+        byline: toByline(post),
+        coverUrl: body.coverUrl,
         categories: post.categories.map((c) => ({
           id: c.category.id,
           name: c.category.name,
@@ -137,6 +271,9 @@ export async function getPost(app: FastifyInstance) {
           name: t.tag.name,
           slug: t.tag.slug,
         })),
+        preview: !!previewToken,
+        series,
+        ...(html !== undefined ? { html } : {}),
       })
     },
   )
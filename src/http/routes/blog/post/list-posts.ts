@@ -3,10 +3,10 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
-import { PostStatus, Role, Visibility } from "@prisma/client"
+import { PostStatus, Visibility } from "@prisma/client"
 import { isoOrNull } from "@/utils/blog-utils"
 import { auth } from "@/http/middlewares/auth"
-import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { authorize } from "@/http/middlewares/authorize"
 
 export async function listPost(app: FastifyInstance) {
   app
@@ -73,32 +73,16 @@ export async function listPost(app: FastifyInstance) {
             }),
           },
         },
+        preHandler: [authorize("post:read")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-
-        const user = await prisma.user.findUnique({
-          where: {
-            id: userId,
-          },
-        })
-
-        if (!user) {
-          throw new BadRequestError("User not found.")
-        }
-
-        if (user.role !== Role.ADMIN && user.role !== Role.EDITOR) {
-          throw new BadRequestError(
-            "You do not have permission to access this resource.",
-          )
-        }
-
         const { page, pageSize, authorId, category, tag, orderBy, orderDir } =
           request.query
 
         const skip = (page - 1) * pageSize
 
-        const where: any = {}
+        // posts na lixeira têm listagem própria
+        const where: any = { deletedAt: null }
         if (authorId) where.authorId = authorId
         if (category) {
           where.categories = {
@@ -5,6 +5,12 @@ import { z } from "zod"
 import { prisma } from "@/lib/prisma"
 import { PostStatus, Visibility } from "@prisma/client"
 import { isoOrNull } from "@/utils/blog-utils"
+import {
+  BYLINE_SELECT,
+  bylineSchema,
+  ownedPostsWhere,
+  toByline,
+} from "@/utils/contributor-utils"
 
 export async function listPublicPosts(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
@@ -50,6 +56,7 @@ export async function listPublicPosts(app: FastifyInstance) {
                   hasAvatar: z.boolean(),
                   bio: z.string().nullable(),
                 }),
+                byline: bylineSchema,
 
                 categories: z.array(
                   z.object({
@@ -78,7 +85,8 @@ export async function listPublicPosts(app: FastifyInstance) {
       const skip = (page - 1) * pageSize
 
       const where: any = {}
-      if (authorId) where.authorId = authorId
+      // inclui os posts em que o autor aparece como coautor
+      if (authorId) Object.assign(where, ownedPostsWhere(authorId))
       if (category) {
         where.categories = {
           some: { category: { slug: category } },
@@ -92,6 +100,7 @@ export async function listPublicPosts(app: FastifyInstance) {
 
       where.status = PostStatus.PUBLISHED
       where.visibility = Visibility.PUBLIC
+      where.deletedAt = null
 
       const [total, items] = await prisma.$transaction([
         prisma.post.count({ where }),
@@ -124,6 +133,7 @@ export async function listPublicPosts(app: FastifyInstance) {
                 description: true,
               },
             },
+            contributors: BYLINE_SELECT.contributors,
             cover: { select: { url: true } },
 
             categories: {
@@ -166,6 +176,7 @@ export async function listPublicPosts(app: FastifyInstance) {
             hasAvatar: !!p.author.avatarKey,
             bio: p.author.description,
           },
+          byline: toByline(p),
 
           // >>> projeção no formato esperado pelo front
           categories: p.categories.map(({ category }) => ({
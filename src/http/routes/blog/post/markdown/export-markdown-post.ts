@@ -0,0 +1,73 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { resolveMediaIdByUrl, upgradeContent } from "@/utils/content-utils"
+import { postToMarkdown } from "@/utils/markdown-utils"
+
+export async function exportMarkdownPost(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/:id/export.md",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Exporta o post em Markdown com front matter",
+          params: z.object({ id: z.string().uuid() }),
+        },
+        preHandler: [authorize("post:read")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: {
+            title: true,
+            slug: true,
+            excerpt: true,
+            content: true,
+            cover: { select: { url: true } },
+            categories: {
+              select: { category: { select: { name: true } } },
+              orderBy: { category: { name: "asc" } },
+            },
+            tags: {
+              select: { tag: { select: { name: true } } },
+              orderBy: { tag: { name: "asc" } },
+            },
+          },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        // posts ainda não migrados são convertidos na hora
+        const { content } = await upgradeContent(
+          post.content,
+          resolveMediaIdByUrl,
+        )
+
+        const markdown = await postToMarkdown({
+          title: post.title,
+          slug: post.slug,
+          excerpt: post.excerpt,
+          coverUrl: post.cover?.url ?? null,
+          categoryNames: post.categories.map((c) => c.category.name),
+          tagNames: post.tags.map((t) => t.tag.name),
+          content,
+        })
+
+        reply.header("Content-Type", "text/markdown; charset=utf-8")
+        reply.header(
+          "Content-Disposition",
+          `attachment; filename="${post.slug}.md"`,
+        )
+        return reply.send(markdown)
+      },
+    )
+}
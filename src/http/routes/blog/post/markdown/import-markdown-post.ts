@@ -0,0 +1,121 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { PostStatus, Visibility } from "@prisma/client"
+import {
+  clampExcerpt,
+  countWords,
+  estimateReadTimeMinutes,
+  isoOrNull,
+  jsonToPlainText,
+  makeUniqueSlug,
+  replacePostTaxonomy,
+  slugify,
+} from "@/utils/blog-utils"
+import {
+  POST_AUDIT_FIELDS,
+  recordAuditEvent,
+  snapshot,
+} from "@/utils/audit-utils"
+import { recordPostRevision } from "@/utils/revision-utils"
+import { parseMarkdownPost } from "@/utils/markdown-utils"
+
+export async function importMarkdownPost(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/import/markdown",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Cria um rascunho a partir de Markdown com front matter",
+          body: z.object({
+            // front matter: title, slug, excerpt, cover, categories, tags
+            markdown: z.string().min(1).max(500_000),
+            visibility: z.nativeEnum(Visibility).default(Visibility.PUBLIC),
+          }),
+          response: {
+            201: z.object({
+              id: z.string().uuid(),
+              slug: z.string(),
+              status: z.nativeEnum(PostStatus),
+              visibility: z.nativeEnum(Visibility),
+              publishedAt: z.string().datetime().nullable(),
+              scheduledFor: z.string().datetime().nullable(),
+              wordCount: z.number().int(),
+              readTime: z.number().int(),
+              createdAt: z.string().datetime(),
+              updatedAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:create")],
+      },
+      async (request, reply) => {
+        const { user } = request
+        const { markdown, visibility } = request.body
+
+        // imagens e capa já resolvidas para mídias existentes
+        const parsed = await parseMarkdownPost(markdown)
+
+        const slug = await makeUniqueSlug(slugify(parsed.slug || parsed.title))
+
+        const plain = jsonToPlainText(parsed.content)
+        const wc = countWords(plain)
+        const finalExcerpt = clampExcerpt(parsed.excerpt, plain)
+
+        // importado sempre entra como rascunho: publicar passa pela revisão
+        const created = await prisma.$transaction(async (tx) => {
+          const post = await tx.post.create({
+            data: {
+              authorId: user.id,
+              title: parsed.title,
+              slug,
+              excerpt: finalExcerpt || null,
+              content: parsed.content,
+              coverId: parsed.coverId,
+              status: PostStatus.DRAFT,
+              visibility,
+              wordCount: wc,
+              readTime: estimateReadTimeMinutes(wc),
+            },
+          })
+
+          await replacePostTaxonomy(tx, post.id, {
+            categoryNames: parsed.categories,
+            tagNames: parsed.tags,
+          })
+
+          await recordPostRevision(tx, post.id, user.id)
+
+          return post
+        })
+
+        await recordAuditEvent(request, {
+          actorId: user.id,
+          action: "post.import",
+          targetType: "post",
+          targetId: created.id,
+          after: snapshot(created, POST_AUDIT_FIELDS),
+        })
+
+        return reply.code(201).send({
+          id: created.id,
+          slug: created.slug,
+          status: created.status,
+          visibility: created.visibility,
+          publishedAt: isoOrNull(created.publishedAt),
+          scheduledFor: isoOrNull(created.scheduledFor),
+          wordCount: created.wordCount,
+          readTime: created.readTime,
+          createdAt: created.createdAt.toISOString(),
+          updatedAt: created.updatedAt.toISOString(),
+        })
+      },
+    )
+}
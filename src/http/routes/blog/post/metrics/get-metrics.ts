@@ -3,9 +3,9 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
 import { auth } from "@/http/middlewares/auth"
-import { Role, PostStatus, ViewStatus } from "@prisma/client"
+import { authorize } from "@/http/middlewares/authorize"
+import { PostStatus, ViewStatus } from "@prisma/client"
 import { getMonthBoundaries, pctDelta } from "@/utils/metrics-utils"
 
 export async function getMetrics(app: FastifyInstance) {
@@ -86,20 +86,9 @@ export async function getMetrics(app: FastifyInstance) {
             }),
           },
         },
+        preHandler: [authorize("metrics:read")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, role: true },
-        })
-
-        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
-        if (user.role !== Role.ADMIN && user.role !== Role.EDITOR)
-          throw new UnauthorizedError(
-            "Você não tem permissão para consultar métricas.",
-          )
-
         const { monthStart, nextMonthStart, prevMonthStart, prevMonthEnd } =
           getMonthBoundaries(new Date())
 
@@ -109,12 +98,14 @@ export async function getMetrics(app: FastifyInstance) {
             prisma.post.count({
               where: {
                 status: PostStatus.PUBLISHED,
+                deletedAt: null,
                 publishedAt: { gte: monthStart, lt: nextMonthStart },
               },
             }),
             prisma.post.count({
               where: {
                 status: PostStatus.PUBLISHED,
+                deletedAt: null,
                 publishedAt: { gte: prevMonthStart, lt: prevMonthEnd },
               },
             }),
@@ -265,7 +256,7 @@ export async function getMetrics(app: FastifyInstance) {
         const postIds = topViews.map((t) => t.postId)
         const posts = postIds.length
           ? await prisma.post.findMany({
-              where: { id: { in: postIds } },
+              where: { id: { in: postIds }, deletedAt: null },
               select: { id: true, title: true, slug: true },
             })
           : []
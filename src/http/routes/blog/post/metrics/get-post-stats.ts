@@ -3,9 +3,9 @@ import type { ZodTypeProvider } from "fastify-type-provider-zod"
 import { z } from "zod"
 
 import { prisma } from "@/lib/prisma"
-import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
 import { auth } from "@/http/middlewares/auth"
-import { Role, PostStatus /*, Visibility */ } from "@prisma/client"
+import { authorize } from "@/http/middlewares/authorize"
+import { PostStatus /*, Visibility */ } from "@prisma/client"
 
 export async function getPostStats(app: FastifyInstance) {
   app
@@ -22,34 +22,29 @@ export async function getPostStats(app: FastifyInstance) {
               total: z.number().int().nonnegative(),
               published: z.number().int().nonnegative(),
               drafts: z.number().int().nonnegative(),
+              inReview: z.number().int().nonnegative(),
             }),
           },
         },
+        preHandler: [authorize("metrics:read")],
       },
       async (request, reply) => {
-        const userId = await request.getCurrentUserId()
-
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { id: true, role: true },
-        })
-
-        if (!user) throw new UnauthorizedError("Usuário não autenticado.")
-        if (user.role !== Role.ADMIN && user.role !== Role.EDITOR) {
-          throw new UnauthorizedError(
-            "Você não tem permissão para consultar estatísticas.",
-          )
-        }
-
         // Se quiser contar somente publicados PUBLIC, troque o where de 'published' por:
         // { status: PostStatus.PUBLISHED, visibility: Visibility.PUBLIC }
-        const [total, published, drafts] = await prisma.$transaction([
-          prisma.post.count(),
-          prisma.post.count({ where: { status: PostStatus.PUBLISHED } }),
-          prisma.post.count({ where: { status: PostStatus.DRAFT } }),
+        const [total, published, drafts, inReview] = await prisma.$transaction([
+          prisma.post.count({ where: { deletedAt: null } }),
+          prisma.post.count({
+            where: { status: PostStatus.PUBLISHED, deletedAt: null },
+          }),
+          prisma.post.count({
+            where: { status: PostStatus.DRAFT, deletedAt: null },
+          }),
+          prisma.post.count({
+            where: { status: PostStatus.IN_REVIEW, deletedAt: null },
+          }),
         ])
 
-        return reply.send({ total, published, drafts })
+        return reply.send({ total, published, drafts, inReview })
       },
     )
 }
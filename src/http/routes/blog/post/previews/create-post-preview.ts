@@ -0,0 +1,100 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { generateToken, hashToken } from "@/utils/auth-utils"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import {
+  PREVIEW_DEFAULT_TTL_HOURS,
+  PREVIEW_MAX_TTL_HOURS,
+} from "@/utils/preview-utils"
+
+export async function createPostPreview(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/:id/previews",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary:
+            "Gera um link de pré-visualização (expira e pode ser revogado)",
+          params: z.object({ id: z.string().uuid() }),
+          body: z
+            .object({
+              label: z.string().trim().min(1).max(100).optional(),
+              expiresInHours: z
+                .number()
+                .int()
+                .min(1)
+                .max(PREVIEW_MAX_TTL_HOURS)
+                .default(PREVIEW_DEFAULT_TTL_HOURS),
+            })
+            .default({ expiresInHours: PREVIEW_DEFAULT_TTL_HOURS }),
+          response: {
+            201: z.object({
+              id: z.string().uuid(),
+              // exibido uma única vez; só o hash fica salvo
+              token: z.string(),
+              path: z.string(),
+              expiresAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { label, expiresInHours } = request.body
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: { id: true, ...POST_OWNERS_SELECT },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(post),
+          "Você não pode editar posts de outros autores.",
+        )
+
+        const token = generateToken()
+
+        const preview = await prisma.postPreviewToken.create({
+          data: {
+            postId: post.id,
+            tokenHash: hashToken(token),
+            label: label ?? null,
+            createdById: request.user.id,
+            expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+          },
+          select: { id: true, expiresAt: true },
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.preview.create",
+          targetType: "post",
+          targetId: post.id,
+          after: { previewId: preview.id, label, expiresInHours },
+        })
+
+        return reply.code(201).send({
+          id: preview.id,
+          token,
+          // pelo id: o link continua valendo se o slug mudar
+          path: `/blog/posts/${post.id}?preview=${token}`,
+          expiresAt: preview.expiresAt.toISOString(),
+        })
+      },
+    )
+}
@@ -0,0 +1,73 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { isoOrNull } from "@/utils/blog-utils"
+
+export async function listPostPreviews(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/:id/previews",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Lista os links de pré-visualização de um post e seus usos",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            200: z.object({
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  label: z.string().nullable(),
+                  createdBy: z
+                    .object({ id: z.string().uuid(), name: z.string() })
+                    .nullable(),
+                  expiresAt: z.string().datetime(),
+                  revokedAt: z.string().datetime().nullable(),
+                  lastUsedAt: z.string().datetime().nullable(),
+                  useCount: z.number().int().nonnegative(),
+                  active: z.boolean(),
+                  createdAt: z.string().datetime(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("post:read")],
+      },
+      async (request, reply) => {
+        const rows = await prisma.postPreviewToken.findMany({
+          where: { postId: request.params.id },
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            label: true,
+            expiresAt: true,
+            revokedAt: true,
+            lastUsedAt: true,
+            useCount: true,
+            createdAt: true,
+            createdBy: { select: { id: true, name: true } },
+          },
+        })
+
+        const now = new Date()
+
+        return reply.send({
+          items: rows.map((r) => ({
+            ...r,
+            expiresAt: r.expiresAt.toISOString(),
+            revokedAt: isoOrNull(r.revokedAt),
+            lastUsedAt: isoOrNull(r.lastUsedAt),
+            active: !r.revokedAt && r.expiresAt > now,
+            createdAt: r.createdAt.toISOString(),
+          })),
+        })
+      },
+    )
+}
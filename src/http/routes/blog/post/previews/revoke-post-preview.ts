@@ -0,0 +1,71 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function revokePostPreview(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/blog/admin/posts/:id/previews/:previewId",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Revoga um link de pré-visualização",
+          params: z.object({
+            id: z.string().uuid(),
+            previewId: z.string().uuid(),
+          }),
+          response: {
+            204: z.null(),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { id, previewId } = request.params
+
+        const preview = await prisma.postPreviewToken.findFirst({
+          where: { id: previewId, postId: id },
+          select: {
+            id: true,
+            revokedAt: true,
+            post: { select: POST_OWNERS_SELECT },
+          },
+        })
+        if (!preview) throw new NotFoundError("Link não encontrado.")
+
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(preview.post),
+          "Você não pode editar posts de outros autores.",
+        )
+
+        if (!preview.revokedAt) {
+          await prisma.postPreviewToken.update({
+            where: { id: preview.id },
+            data: { revokedAt: new Date() },
+          })
+
+          await recordAuditEvent(request, {
+            actorId: request.user.id,
+            action: "post.preview.revoke",
+            targetType: "post",
+            targetId: id,
+            before: { previewId: preview.id },
+          })
+        }
+
+        return reply.code(204).send()
+      },
+    )
+}
@@ -7,6 +7,9 @@ import { NotFoundError } from "@/http/_errors/not-found-error"
 import { PostStatus, Visibility } from "@prisma/client"
 import { isoOrNull } from "@/utils/blog-utils"
 
+// outra parte da mesma série pesa mais que uma tag em comum
+const SAME_SERIES_SCORE = 3
+
 export async function getRelatedPosts(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     "/blog/posts/:identifier/related",
@@ -53,23 +56,30 @@ export async function getRelatedPosts(app: FastifyInstance) {
 
       // 1) Post base (pode estar DRAFT; rota é pública mesmo assim)
       const basePost = await prisma.post.findFirst({
-        where: isUUID ? { id: identifier } : { slug: identifier },
+        where: {
+          ...(isUUID ? { id: identifier } : { slug: identifier }),
+          deletedAt: null,
+        },
         include: {
           tags: { select: { tagId: true } },
           categories: { select: { categoryId: true } },
+          series: { select: { seriesId: true } },
         },
       })
       if (!basePost) throw new NotFoundError("Post não encontrado.")
 
       const tagIds = basePost.tags.map((t) => t.tagId)
       const categoryIds = basePost.categories.map((c) => c.categoryId)
-      const hasSignals = tagIds.length > 0 || categoryIds.length > 0
+      const seriesId = basePost.series?.seriesId ?? null
+      const hasSignals =
+        tagIds.length > 0 || categoryIds.length > 0 || seriesId !== null
 
       // 2) Apenas posts PUBLIC + PUBLISHED
       const wherePublishedPublic = {
         id: { not: basePost.id },
         visibility: Visibility.PUBLIC,
         status: PostStatus.PUBLISHED,
+        deletedAt: null,
         // se quiser garantir que só volte publicado com data setada:
         // publishedAt: { not: null },
       } as const
@@ -87,6 +97,7 @@ export async function getRelatedPosts(app: FastifyInstance) {
                       categories: { some: { categoryId: { in: categoryIds } } },
                     }
                   : undefined,
+                seriesId ? { series: { seriesId } } : undefined,
               ].filter(Boolean) as any,
             },
             include: {
@@ -94,6 +105,7 @@ export async function getRelatedPosts(app: FastifyInstance) {
               cover: { select: { url: true } },
               tags: { select: { tagId: true } },
               categories: { select: { categoryId: true } },
+              series: { select: { seriesId: true } },
             },
             orderBy: [{ publishedAt: "desc" }, { updatedAt: "desc" }],
             take: Math.max(limit * 3, 20),
@@ -110,13 +122,14 @@ export async function getRelatedPosts(app: FastifyInstance) {
               cover: { select: { url: true } },
               tags: { select: { tagId: true } },
               categories: { select: { categoryId: true } },
+              series: { select: { seriesId: true } },
             },
             orderBy: [{ publishedAt: "desc" }, { updatedAt: "desc" }],
             take: limit,
           })
         : []
 
-      // 4) Score (2 por tag comum, 1 por categoria)
+      // 4) Score (3 pela mesma série, 2 por tag comum, 1 por categoria)
       const pool = needsFallback ? fallbackPosts : relatedCandidates
       const scored = pool
         .map((p) => {
@@ -133,7 +146,13 @@ export async function getRelatedPosts(app: FastifyInstance) {
                 0,
               )
             : 0
-          const score = needsFallback ? 0 : commonTags * 2 + commonCats * 1
+          const sameSeries =
+            seriesId !== null && p.series?.seriesId === seriesId
+          const score = needsFallback
+            ? 0
+            : (sameSeries ? SAME_SERIES_SCORE : 0) +
+              commonTags * 2 +
+              commonCats * 1
           return { p, score }
         })
         .sort((a, b) => {
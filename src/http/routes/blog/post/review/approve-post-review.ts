@@ -0,0 +1,113 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { ForbiddenError } from "@/http/_errors/forbidden-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PostStatus, ReviewDecision } from "@prisma/client"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+
+export async function approvePostReview(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/:id/review/approve",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary:
+            "Aprova o post em revisão, liberando publicação ou agendamento",
+          params: z.object({ id: z.string().uuid() }),
+          body: z
+            .object({
+              comment: z.string().trim().max(2000).optional(),
+            })
+            .default({}),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(PostStatus),
+              approvedAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:review")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const comment = request.body.comment || null
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: { id: true, status: true, ...POST_OWNERS_SELECT },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        if (post.status !== PostStatus.IN_REVIEW) {
+          throw new BadRequestError("O post não está em revisão.")
+        }
+        if (postOwnerIds(post).includes(request.user.id)) {
+          throw new ForbiddenError("Você não pode revisar o próprio post.")
+        }
+
+        const review = await prisma.postReview.findFirst({
+          where: {
+            postId: post.id,
+            reviewerId: request.user.id,
+            decision: ReviewDecision.PENDING,
+          },
+          select: { id: true },
+        })
+        if (!review) {
+          throw new ForbiddenError("Você não é revisor deste post.")
+        }
+
+        const approvedAt = new Date()
+
+        await prisma.$transaction(async (tx) => {
+          await tx.postReview.update({
+            where: { id: review.id },
+            data: {
+              decision: ReviewDecision.APPROVED,
+              comment,
+              decidedAt: approvedAt,
+            },
+          })
+
+          // uma aprovação basta: as demais revisões pendentes são encerradas
+          await tx.postReview.updateMany({
+            where: { postId: post.id, decision: ReviewDecision.PENDING },
+            data: { decision: ReviewDecision.CANCELED, decidedAt: approvedAt },
+          })
+
+          await tx.post.update({
+            where: { id: post.id },
+            data: { approvedAt },
+          })
+        })
+
+        await Queue.add("SendReviewDecisionEmail", { reviewId: review.id })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.review.approve",
+          targetType: "post",
+          targetId: post.id,
+          after: { reviewId: review.id },
+        })
+
+        return reply.send({
+          id: post.id,
+          status: post.status,
+          approvedAt: approvedAt.toISOString(),
+        })
+      },
+    )
+}
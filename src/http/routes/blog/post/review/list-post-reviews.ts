@@ -0,0 +1,109 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { ReviewDecision } from "@prisma/client"
+import { isoOrNull } from "@/utils/blog-utils"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+
+const person = z
+  .object({ id: z.string().uuid(), name: z.string(), username: z.string() })
+  .nullable()
+
+export async function listPostReviews(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/:id/reviews",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Histórico de revisões editoriais do post, com as notas",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            200: z.object({
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  decision: z.nativeEnum(ReviewDecision),
+                  reviewer: person,
+                  requestedBy: person,
+                  message: z.string().nullable(),
+                  comment: z.string().nullable(),
+                  notes: z.array(
+                    z.object({
+                      id: z.string().uuid(),
+                      path: z.string().nullable(),
+                      quote: z.string().nullable(),
+                      body: z.string(),
+                      createdAt: z.string().datetime(),
+                    }),
+                  ),
+                  decidedAt: z.string().datetime().nullable(),
+                  createdAt: z.string().datetime(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: { id: true, ...POST_OWNERS_SELECT },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        const userSelect = { select: { id: true, name: true, username: true } }
+
+        const rows = await prisma.postReview.findMany({
+          where: { postId: post.id },
+          orderBy: { createdAt: "desc" },
+          include: {
+            reviewer: userSelect,
+            requestedBy: userSelect,
+            notes: { orderBy: { createdAt: "asc" } },
+          },
+        })
+
+        // além dos donos, os revisores designados leem o histórico do post
+        if (!rows.some((r) => r.reviewerId === request.user.id)) {
+          assertCan(
+            request.user,
+            "post:edit",
+            postOwnerIds(post),
+            "Você não pode ver as revisões de posts de outros autores.",
+          )
+        }
+
+        return reply.send({
+          items: rows.map((r) => ({
+            id: r.id,
+            decision: r.decision,
+            reviewer: r.reviewer,
+            requestedBy: r.requestedBy,
+            message: r.message,
+            comment: r.comment,
+            notes: r.notes.map((n) => ({
+              id: n.id,
+              path: n.path,
+              quote: n.quote,
+              body: n.body,
+              createdAt: n.createdAt.toISOString(),
+            })),
+            decidedAt: isoOrNull(r.decidedAt),
+            createdAt: r.createdAt.toISOString(),
+          })),
+        })
+      },
+    )
+}
@@ -0,0 +1,145 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { ForbiddenError } from "@/http/_errors/forbidden-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PostStatus, ReviewDecision } from "@prisma/client"
+import { assertPostTransition } from "@/utils/post-workflow-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+
+export async function requestPostChanges(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/:id/review/request-changes",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary:
+            "Solicita alterações com notas no conteúdo; o post volta para rascunho",
+          params: z.object({ id: z.string().uuid() }),
+          body: z
+            .object({
+              comment: z.string().trim().max(2000).optional(),
+              notes: z
+                .array(
+                  z.object({
+                    path: z.string().trim().max(200).optional(),
+                    quote: z.string().trim().max(500).optional(),
+                    body: z.string().trim().min(1).max(2000),
+                  }),
+                )
+                .max(100)
+                .default([]),
+            })
+            .refine((b) => b.comment || b.notes.length > 0, {
+              message: "informe um comentário ou ao menos uma nota",
+            }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(PostStatus),
+              reviewId: z.string().uuid(),
+              notes: z.number().int().nonnegative(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:review")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { notes } = request.body
+        const comment = request.body.comment || null
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: { id: true, status: true, ...POST_OWNERS_SELECT },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        if (post.status !== PostStatus.IN_REVIEW) {
+          throw new BadRequestError("O post não está em revisão.")
+        }
+        if (postOwnerIds(post).includes(request.user.id)) {
+          throw new ForbiddenError("Você não pode revisar o próprio post.")
+        }
+
+        const review = await prisma.postReview.findFirst({
+          where: {
+            postId: post.id,
+            reviewerId: request.user.id,
+            decision: ReviewDecision.PENDING,
+          },
+          select: { id: true },
+        })
+        if (!review) {
+          throw new ForbiddenError("Você não é revisor deste post.")
+        }
+
+        assertPostTransition(post.status, PostStatus.DRAFT, {
+          approved: false,
+          via: "review",
+        })
+
+        const decidedAt = new Date()
+
+        await prisma.$transaction(async (tx) => {
+          await tx.postReview.update({
+            where: { id: review.id },
+            data: {
+              decision: ReviewDecision.CHANGES_REQUESTED,
+              comment,
+              decidedAt,
+            },
+          })
+
+          if (notes.length > 0) {
+            await tx.postReviewNote.createMany({
+              data: notes.map((note) => ({
+                reviewId: review.id,
+                path: note.path || null,
+                quote: note.quote || null,
+                body: note.body,
+              })),
+            })
+          }
+
+          await tx.postReview.updateMany({
+            where: { postId: post.id, decision: ReviewDecision.PENDING },
+            data: { decision: ReviewDecision.CANCELED, decidedAt },
+          })
+
+          await tx.post.update({
+            where: { id: post.id },
+            data: { status: PostStatus.DRAFT, approvedAt: null },
+          })
+        })
+
+        await Queue.add("SendReviewDecisionEmail", { reviewId: review.id })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.review.request_changes",
+          targetType: "post",
+          targetId: post.id,
+          before: { status: post.status },
+          after: { status: PostStatus.DRAFT, reviewId: review.id },
+        })
+
+        return reply.send({
+          id: post.id,
+          status: PostStatus.DRAFT,
+          reviewId: review.id,
+          notes: notes.length,
+        })
+      },
+    )
+}
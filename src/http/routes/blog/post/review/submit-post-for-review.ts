@@ -0,0 +1,138 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import Queue from "@/lib/queue"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PostStatus, ReviewDecision } from "@prisma/client"
+import { assertCan, can } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import { assertPostTransition } from "@/utils/post-workflow-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function submitPostForReview(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/:id/review/submit",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Envia o post para revisão, notificando os revisores",
+          params: z.object({ id: z.string().uuid() }),
+          body: z.object({
+            reviewerIds: z.array(z.string().uuid()).min(1).max(5),
+            message: z.string().trim().max(2000).optional(),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              status: z.nativeEnum(PostStatus),
+              reviews: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  reviewerId: z.string().uuid(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const reviewerIds = [...new Set(request.body.reviewerIds)]
+        const message = request.body.message || null
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: { id: true, status: true, ...POST_OWNERS_SELECT },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(post),
+          "Você não pode editar posts de outros autores.",
+        )
+
+        assertPostTransition(post.status, PostStatus.IN_REVIEW, {
+          approved: false,
+          via: "review",
+        })
+
+        // coautores também não revisam o próprio post
+        if (postOwnerIds(post).some((id) => reviewerIds.includes(id))) {
+          throw new BadRequestError("O autor não pode revisar o próprio post.")
+        }
+
+        const reviewers = await prisma.user.findMany({
+          where: { id: { in: reviewerIds } },
+          select: { id: true, role: true, deactivatedAt: true },
+        })
+        const valid = reviewers.filter(
+          (r) => !r.deactivatedAt && can(r, "post:review"),
+        )
+        if (valid.length !== reviewerIds.length) {
+          throw new BadRequestError(
+            "Todos os revisores devem ser usuários ativos com permissão de revisão.",
+          )
+        }
+
+        const reviews = await prisma.$transaction(async (tx) => {
+          // um novo envio encerra rodadas anteriores ainda pendentes
+          await tx.postReview.updateMany({
+            where: { postId: post.id, decision: ReviewDecision.PENDING },
+            data: { decision: ReviewDecision.CANCELED, decidedAt: new Date() },
+          })
+
+          await tx.post.update({
+            where: { id: post.id },
+            data: { status: PostStatus.IN_REVIEW, approvedAt: null },
+          })
+
+          return Promise.all(
+            reviewerIds.map((reviewerId) =>
+              tx.postReview.create({
+                data: {
+                  postId: post.id,
+                  reviewerId,
+                  requestedById: request.user.id,
+                  message,
+                },
+                select: { id: true, reviewerId: true },
+              }),
+            ),
+          )
+        })
+
+        for (const review of reviews) {
+          await Queue.add("SendReviewRequestEmail", { reviewId: review.id })
+        }
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.review.submit",
+          targetType: "post",
+          targetId: post.id,
+          before: { status: post.status },
+          after: { status: PostStatus.IN_REVIEW, reviewerIds },
+        })
+
+        return reply.send({
+          id: post.id,
+          status: PostStatus.IN_REVIEW,
+          reviews: reviews.map((r) => ({
+            id: r.id,
+            reviewerId: r.reviewerId!,
+          })),
+        })
+      },
+    )
+}
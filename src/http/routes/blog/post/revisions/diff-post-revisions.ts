@@ -0,0 +1,100 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { diffContent, REVISION_DIFF_FIELDS } from "@/utils/revision-utils"
+
+export async function diffPostRevisions(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/:id/revisions/diff",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary:
+            "Compara duas revisões de um post (metadados e texto do conteúdo)",
+          params: z.object({ id: z.string().uuid() }),
+          querystring: z.object({
+            from: z.coerce.number().int().min(1),
+            // padrão: revisão mais recente
+            to: z.coerce.number().int().min(1).optional(),
+          }),
+          response: {
+            200: z.object({
+              from: z.object({
+                version: z.number().int(),
+                createdAt: z.string().datetime(),
+              }),
+              to: z.object({
+                version: z.number().int(),
+                createdAt: z.string().datetime(),
+              }),
+              fields: z.array(
+                z.object({
+                  field: z.string(),
+                  from: z.unknown(),
+                  to: z.unknown(),
+                }),
+              ),
+              content: z.object({
+                changes: z.array(
+                  z.object({
+                    op: z.enum(["equal", "insert", "delete"]),
+                    text: z.string(),
+                  }),
+                ),
+                stats: z.object({
+                  wordsAdded: z.number().int().nonnegative(),
+                  wordsRemoved: z.number().int().nonnegative(),
+                }),
+              }),
+            }),
+          },
+        },
+        preHandler: [authorize("post:read")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { from } = request.query
+
+        const to =
+          request.query.to ??
+          (
+            await prisma.postRevision.findFirst({
+              where: { postId: id },
+              orderBy: { version: "desc" },
+              select: { version: true },
+            })
+          )?.version
+
+        const [a, b] = await Promise.all([
+          prisma.postRevision.findUnique({
+            where: { postId_version: { postId: id, version: from } },
+          }),
+          to
+            ? prisma.postRevision.findUnique({
+                where: { postId_version: { postId: id, version: to } },
+              })
+            : null,
+        ])
+        if (!a || !b) throw new NotFoundError("Revisão não encontrada.")
+
+        const fields = REVISION_DIFF_FIELDS.filter(
+          (field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]),
+        ).map((field) => ({ field, from: a[field], to: b[field] }))
+
+        return reply.send({
+          from: { version: a.version, createdAt: a.createdAt.toISOString() },
+          to: { version: b.version, createdAt: b.createdAt.toISOString() },
+          fields,
+          content: diffContent(a.content, b.content),
+        })
+      },
+    )
+}
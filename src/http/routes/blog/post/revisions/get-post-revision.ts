@@ -0,0 +1,72 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PostStatus, Visibility } from "@prisma/client"
+
+export async function getPostRevision(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/:id/revisions/:version",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Detalha uma revisão de um post",
+          params: z.object({
+            id: z.string().uuid(),
+            version: z.coerce.number().int().min(1),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              postId: z.string().uuid(),
+              version: z.number().int(),
+              title: z.string(),
+              slug: z.string(),
+              excerpt: z.string().nullable(),
+              content: z.any(),
+              coverId: z.string().nullable(),
+              status: z.nativeEnum(PostStatus),
+              visibility: z.nativeEnum(Visibility),
+              categoryNames: z.array(z.string()),
+              tagNames: z.array(z.string()),
+              editor: z
+                .object({
+                  id: z.string().uuid(),
+                  name: z.string(),
+                  username: z.string(),
+                })
+                .nullable(),
+              restoredFromVersion: z.number().int().nullable(),
+              createdAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:read")],
+      },
+      async (request, reply) => {
+        const { id, version } = request.params
+
+        const revision = await prisma.postRevision.findUnique({
+          where: { postId_version: { postId: id, version } },
+          include: {
+            editor: { select: { id: true, name: true, username: true } },
+          },
+        })
+        if (!revision) throw new NotFoundError("Revisão não encontrada.")
+
+        const { editorId: _editorId, ...rest } = revision
+
+        return reply.send({
+          ...rest,
+          createdAt: revision.createdAt.toISOString(),
+        })
+      },
+    )
+}
@@ -0,0 +1,103 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PostStatus, Visibility } from "@prisma/client"
+
+export async function listPostRevisions(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/:id/revisions",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Lista o histórico de revisões de um post",
+          params: z.object({ id: z.string().uuid() }),
+          querystring: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            perPage: z.coerce.number().int().min(1).max(100).default(20),
+          }),
+          response: {
+            200: z.object({
+              meta: z.object({
+                page: z.number().int(),
+                perPage: z.number().int(),
+                total: z.number().int(),
+                totalPages: z.number().int(),
+              }),
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  version: z.number().int(),
+                  title: z.string(),
+                  slug: z.string(),
+                  status: z.nativeEnum(PostStatus),
+                  visibility: z.nativeEnum(Visibility),
+                  editor: z
+                    .object({
+                      id: z.string().uuid(),
+                      name: z.string(),
+                      username: z.string(),
+                    })
+                    .nullable(),
+                  restoredFromVersion: z.number().int().nullable(),
+                  createdAt: z.string().datetime(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("post:read")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { page, perPage } = request.query
+
+        const post = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          select: { id: true },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado.")
+
+        const [total, rows] = await Promise.all([
+          prisma.postRevision.count({ where: { postId: id } }),
+          prisma.postRevision.findMany({
+            where: { postId: id },
+            orderBy: { version: "desc" },
+            skip: (page - 1) * perPage,
+            take: perPage,
+            select: {
+              id: true,
+              version: true,
+              title: true,
+              slug: true,
+              status: true,
+              visibility: true,
+              restoredFromVersion: true,
+              createdAt: true,
+              editor: { select: { id: true, name: true, username: true } },
+            },
+          }),
+        ])
+
+        return reply.send({
+          meta: {
+            page,
+            perPage,
+            total,
+            totalPages: Math.max(1, Math.ceil(total / perPage)),
+          },
+          items: rows.map((r) => ({
+            ...r,
+            createdAt: r.createdAt.toISOString(),
+          })),
+        })
+      },
+    )
+}
@@ -0,0 +1,151 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import {
+  countWords,
+  estimateReadTimeMinutes,
+  jsonToPlainText,
+  replacePostTaxonomy,
+} from "@/utils/blog-utils"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import {
+  invalidatesApproval,
+  REVIEWED_POST_FIELDS,
+} from "@/utils/post-workflow-utils"
+import {
+  POST_AUDIT_FIELDS,
+  recordAuditEvent,
+  snapshot,
+} from "@/utils/audit-utils"
+import {
+  assertContentMediaExists,
+  parsePostContent,
+} from "@/utils/content-utils"
+import {
+  ensureBaselineRevision,
+  recordPostRevision,
+} from "@/utils/revision-utils"
+
+/**
+ * Restaura título, resumo, conteúdo, capa e taxonomia de uma revisão.
+ * Slug, status e visibilidade ficam como estão: restaurar texto não deve
+ * despublicar o post nem quebrar a URL atual.
+ */
+export async function restorePostRevision(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/:id/revisions/:version/restore",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Restaura uma revisão como uma nova edição do post",
+          params: z.object({
+            id: z.string().uuid(),
+            version: z.coerce.number().int().min(1),
+          }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              version: z.number().int(),
+              restoredFromVersion: z.number().int(),
+              updatedAt: z.string().datetime(),
+            }),
+          },
+        },
+        preHandler: [authorize("post:edit")],
+      },
+      async (request, reply) => {
+        const { id, version } = request.params
+
+        const existing = await prisma.post.findUnique({
+          where: { id, deletedAt: null },
+          include: { contributors: POST_OWNERS_SELECT.contributors },
+        })
+        if (!existing) throw new NotFoundError("Post não encontrado.")
+
+        assertCan(
+          request.user,
+          "post:edit",
+          postOwnerIds(existing),
+          "Você não pode editar posts de outros autores.",
+        )
+
+        const revision = await prisma.postRevision.findUnique({
+          where: { postId_version: { postId: id, version } },
+        })
+        if (!revision) throw new NotFoundError("Revisão não encontrada.")
+
+        // a capa pode ter sido removida depois da revisão
+        const cover = revision.coverId
+          ? await prisma.media.findUnique({
+              where: { id: revision.coverId },
+              select: { id: true },
+            })
+          : null
+
+        const content = parsePostContent(revision.content)
+        await assertContentMediaExists(content)
+
+        const wordCount = countWords(jsonToPlainText(content))
+
+        const { updated, newRevision } = await prisma.$transaction(
+          async (tx) => {
+            await ensureBaselineRevision(tx, existing.id, existing.authorId)
+
+            const post = await tx.post.update({
+              where: { id: existing.id },
+              data: {
+                title: revision.title,
+                excerpt: revision.excerpt,
+                content,
+                coverId: cover?.id ?? null,
+                wordCount,
+                readTime: estimateReadTimeMinutes(wordCount),
+                ...(invalidatesApproval(existing, REVIEWED_POST_FIELDS)
+                  ? { approvedAt: null }
+                  : {}),
+              },
+            })
+
+            await replacePostTaxonomy(tx, post.id, revision)
+
+            const newRevision = await recordPostRevision(
+              tx,
+              post.id,
+              request.user.id,
+              revision.version,
+            )
+
+            return { updated: post, newRevision }
+          },
+        )
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.revision.restore",
+          targetType: "post",
+          targetId: updated.id,
+          before: snapshot(existing, POST_AUDIT_FIELDS),
+          after: {
+            ...snapshot(updated, POST_AUDIT_FIELDS),
+            restoredFromVersion: revision.version,
+          },
+        })
+
+        return reply.send({
+          id: updated.id,
+          version: newRevision.version,
+          restoredFromVersion: revision.version,
+          updatedAt: updated.updatedAt.toISOString(),
+        })
+      },
+    )
+}
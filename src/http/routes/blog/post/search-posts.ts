@@ -87,6 +87,7 @@ export async function searchPosts(app: FastifyInstance) {
 
       where.AND.push({ status: PostStatus.PUBLISHED })
       where.AND.push({ visibility: Visibility.PUBLIC })
+      where.AND.push({ deletedAt: null })
 
       if (authorId) where.AND.push({ authorId })
 
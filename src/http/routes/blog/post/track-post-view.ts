@@ -11,6 +11,8 @@ import {
   parseClientHints,
   yyyymmdd,
 } from "@/utils/metrics-utils"
+import { isPreviewRequest } from "@/utils/preview-utils"
+import { getClientIp } from "@/utils/auth-utils"
 
 export async function trackPostView(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
@@ -20,6 +22,8 @@ export async function trackPostView(app: FastifyInstance) {
         tags: ["Posts"],
         summary: "Track a post view (DB first, Redis dedupe) — sem UTM",
         params: z.object({ slug: z.string().min(1) }),
+        // presente quando a página foi aberta via link de pré-visualização
+        querystring: z.object({ preview: z.string().optional() }),
         body: z
           .object({
             fp: z.string().min(16).max(128).optional(), // fingerprint diário do client
@@ -33,20 +37,20 @@ export async function trackPostView(app: FastifyInstance) {
       const { slug } = request.params
       const body = request.body ?? {}
 
+      // leituras via link de pré-visualização não contam
+      if (isPreviewRequest(request, body.path)) return reply.code(204).send()
+
       // headers/client info
       const ua = (request.headers["user-agent"] as string) ?? ""
       const referrer =
         (request.headers["referer"] as string) ||
         (request.headers["referrer"] as string) ||
         undefined
-      const ipHeader = (request.headers["x-forwarded-for"] as string)
-        ?.split(",")[0]
-        ?.trim()
-      const ip = ipHeader || request.ip || "0.0.0.0"
+      const ip = getClientIp(request)
 
       // valida post elegível
       const post = await prisma.post.findUnique({
-        where: { slug },
+        where: { slug, deletedAt: null },
         select: { id: true, status: true, visibility: true },
       })
       if (
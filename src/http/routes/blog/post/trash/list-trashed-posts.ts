@@ -0,0 +1,103 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { PostStatus, Visibility, type Prisma } from "@prisma/client"
+import { can } from "@/utils/permissions"
+import { ownedPostsWhere } from "@/utils/contributor-utils"
+import { getTrashRetentionDays, trashPurgeAt } from "@/utils/trash-utils"
+
+export async function listTrashedPosts(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/posts/trash",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Lista os posts na lixeira (editores veem só os próprios)",
+          querystring: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            perPage: z.coerce.number().int().min(1).max(100).default(20),
+          }),
+          response: {
+            200: z.object({
+              meta: z.object({
+                page: z.number().int(),
+                perPage: z.number().int(),
+                total: z.number().int(),
+                totalPages: z.number().int(),
+              }),
+              retentionDays: z.number().int(),
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  title: z.string(),
+                  slug: z.string(),
+                  status: z.nativeEnum(PostStatus),
+                  visibility: z.nativeEnum(Visibility),
+                  author: z.object({
+                    id: z.string().uuid(),
+                    name: z.string(),
+                    username: z.string(),
+                  }),
+                  deletedAt: z.string().datetime(),
+                  purgeAt: z.string().datetime(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("post:delete")],
+      },
+      async (request, reply) => {
+        const { page, perPage } = request.query
+
+        // sem dono informado, só quem tem `post:delete:any` passa
+        const seesAll = can(request.user, "post:delete", null)
+
+        const where: Prisma.PostWhereInput = {
+          deletedAt: { not: null },
+          ...(seesAll ? {} : ownedPostsWhere(request.user.id)),
+        }
+
+        const [total, rows, retentionDays] = await Promise.all([
+          prisma.post.count({ where }),
+          prisma.post.findMany({
+            where,
+            orderBy: { deletedAt: "desc" },
+            skip: (page - 1) * perPage,
+            take: perPage,
+            select: {
+              id: true,
+              title: true,
+              slug: true,
+              status: true,
+              visibility: true,
+              deletedAt: true,
+              author: { select: { id: true, name: true, username: true } },
+            },
+          }),
+          getTrashRetentionDays(),
+        ])
+
+        const items = rows.map(({ deletedAt, ...p }) => ({
+          ...p,
+          deletedAt: deletedAt!.toISOString(),
+          purgeAt: trashPurgeAt(deletedAt!, retentionDays).toISOString(),
+        }))
+
+        const totalPages = Math.max(1, Math.ceil(total / perPage))
+
+        return reply.send({
+          meta: { page, perPage, total, totalPages },
+          retentionDays,
+          items,
+        })
+      },
+    )
+}
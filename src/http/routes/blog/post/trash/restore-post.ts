@@ -0,0 +1,72 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { PostStatus } from "@prisma/client"
+import { assertCan } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function restorePost(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/posts/:id/restore",
+      {
+        schema: {
+          tags: ["Posts"],
+          summary: "Restaura um post da lixeira",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            200: z.object({
+              id: z.string().uuid(),
+              slug: z.string(),
+              status: z.nativeEnum(PostStatus),
+              restored: z.literal(true),
+            }),
+          },
+        },
+        preHandler: [authorize("post:delete")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+
+        const post = await prisma.post.findFirst({
+          where: { id, deletedAt: { not: null } },
+          select: { id: true, deletedAt: true, ...POST_OWNERS_SELECT },
+        })
+        if (!post) throw new NotFoundError("Post não encontrado na lixeira.")
+
+        // quem pode excluir pode restaurar: o autor ou um admin
+        assertCan(
+          request.user,
+          "post:delete",
+          postOwnerIds(post),
+          "Você não pode restaurar posts de outros autores.",
+        )
+
+        // o slug continua reservado na lixeira, então volta intacto
+        const restored = await prisma.post.update({
+          where: { id: post.id },
+          data: { deletedAt: null },
+          select: { id: true, slug: true, status: true },
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "post.restore",
+          targetType: "post",
+          targetId: post.id,
+          before: { deletedAt: post.deletedAt },
+          after: { deletedAt: null },
+        })
+
+        return reply.send({ ...restored, restored: true })
+      },
+    )
+}
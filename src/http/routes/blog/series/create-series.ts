@@ -0,0 +1,77 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import {
+  adminSeriesSchema,
+  loadAdminSeries,
+  makeUniqueSeriesSlug,
+  replaceSeriesPosts,
+  SERIES_MAX_POSTS,
+} from "@/utils/series-utils"
+
+export async function createSeries(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .post(
+      "/blog/admin/series",
+      {
+        schema: {
+          tags: ["Series"],
+          summary: "Cria uma série com a lista ordenada de posts",
+          body: z.object({
+            title: z.string().trim().min(3).max(160),
+            slug: z.string().min(1).max(140).optional(),
+            description: z.string().trim().max(500).optional(),
+            postIds: z
+              .array(z.string().uuid())
+              .max(SERIES_MAX_POSTS)
+              .default([]),
+          }),
+          response: {
+            201: adminSeriesSchema,
+          },
+        },
+        preHandler: [authorize("series:manage")],
+      },
+      async (request, reply) => {
+        const { title, slug, description, postIds } = request.body
+
+        const uniqueSlug = await makeUniqueSeriesSlug(slug || title)
+
+        const series = await prisma.$transaction(async (tx) => {
+          const created = await tx.series.create({
+            data: {
+              title,
+              slug: uniqueSlug,
+              description: description || null,
+            },
+            select: { id: true },
+          })
+
+          await replaceSeriesPosts(tx, created.id, postIds)
+
+          return (await loadAdminSeries(tx, created.id))!
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "series.create",
+          targetType: "series",
+          targetId: series.id,
+          after: {
+            title: series.title,
+            slug: series.slug,
+            postIds: series.posts.map((p) => p.id),
+          },
+        })
+
+        return reply.code(201).send(series)
+      },
+    )
+}
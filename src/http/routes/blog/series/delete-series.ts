@@ -0,0 +1,48 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+export async function deleteSeries(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .delete(
+      "/blog/admin/series/:id",
+      {
+        schema: {
+          tags: ["Series"],
+          summary: "Remove uma série (os posts continuam publicados)",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            204: z.null(),
+          },
+        },
+        preHandler: [authorize("series:manage")],
+      },
+      async (request, reply) => {
+        const series = await prisma.series.findUnique({
+          where: { id: request.params.id },
+          select: { id: true, title: true, slug: true },
+        })
+        if (!series) throw new NotFoundError("Série não encontrada.")
+
+        await prisma.series.delete({ where: { id: series.id } })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "series.delete",
+          targetType: "series",
+          targetId: series.id,
+          before: { title: series.title, slug: series.slug },
+        })
+
+        return reply.code(204).send()
+      },
+    )
+}
@@ -0,0 +1,35 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { adminSeriesSchema, loadAdminSeries } from "@/utils/series-utils"
+
+export async function getSeriesById(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/series/:id",
+      {
+        schema: {
+          tags: ["Series"],
+          summary: "Detalhe da série com todos os posts (qualquer status)",
+          params: z.object({ id: z.string().uuid() }),
+          response: {
+            200: adminSeriesSchema,
+          },
+        },
+        preHandler: [authorize("series:manage")],
+      },
+      async (request, reply) => {
+        const series = await loadAdminSeries(prisma, request.params.id)
+        if (!series) throw new NotFoundError("Série não encontrada.")
+
+        return reply.send(series)
+      },
+    )
+}
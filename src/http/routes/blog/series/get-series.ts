@@ -0,0 +1,66 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { isoOrNull } from "@/utils/blog-utils"
+import { listVisibleSeriesPosts } from "@/utils/series-utils"
+
+export async function getSeries(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    "/blog/series/:slug",
+    {
+      schema: {
+        tags: ["Series"],
+        summary: "Get a series and its published posts in order",
+        params: z.object({
+          slug: z.string().min(1),
+        }),
+        response: {
+          200: z.object({
+            id: z.string().uuid(),
+            title: z.string(),
+            slug: z.string(),
+            description: z.string().nullable(),
+            total: z.number().int(),
+            posts: z.array(
+              z.object({
+                id: z.string().uuid(),
+                title: z.string(),
+                slug: z.string(),
+                excerpt: z.string().nullable(),
+                coverUrl: z.string().nullable(),
+                publishedAt: z.string().datetime().nullable(),
+                readTime: z.number().int(),
+                position: z.number().int(),
+              }),
+            ),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const series = await prisma.series.findUnique({
+        where: { slug: request.params.slug },
+        select: { id: true, title: true, slug: true, description: true },
+      })
+      if (!series) throw new NotFoundError("Série não encontrada.")
+
+      const posts = await listVisibleSeriesPosts(series.id)
+      // série sem nenhum post no ar não é exibida
+      if (posts.length === 0) throw new NotFoundError("Série não encontrada.")
+
+      return reply.send({
+        ...series,
+        total: posts.length,
+        posts: posts.map(({ cover, publishedAt, ...p }, index) => ({
+          ...p,
+          coverUrl: cover?.url ?? null,
+          publishedAt: isoOrNull(publishedAt),
+          position: index + 1,
+        })),
+      })
+    },
+  )
+}
@@ -0,0 +1,89 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import type { Prisma } from "@prisma/client"
+
+export async function listSeries(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .get(
+      "/blog/admin/series",
+      {
+        schema: {
+          tags: ["Series"],
+          summary: "Lista as séries (paginado)",
+          querystring: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            perPage: z.coerce.number().int().min(1).max(100).default(20),
+            q: z.string().trim().min(1).max(160).optional(),
+          }),
+          response: {
+            200: z.object({
+              meta: z.object({
+                page: z.number().int(),
+                perPage: z.number().int(),
+                total: z.number().int(),
+                totalPages: z.number().int(),
+              }),
+              items: z.array(
+                z.object({
+                  id: z.string().uuid(),
+                  title: z.string(),
+                  slug: z.string(),
+                  description: z.string().nullable(),
+                  postCount: z.number().int(),
+                  createdAt: z.string().datetime(),
+                  updatedAt: z.string().datetime(),
+                }),
+              ),
+            }),
+          },
+        },
+        preHandler: [authorize("series:manage")],
+      },
+      async (request, reply) => {
+        const { page, perPage, q } = request.query
+
+        const where: Prisma.SeriesWhereInput = q
+          ? { title: { contains: q, mode: "insensitive" } }
+          : {}
+
+        const [total, rows] = await Promise.all([
+          prisma.series.count({ where }),
+          prisma.series.findMany({
+            where,
+            orderBy: { createdAt: "desc" },
+            skip: (page - 1) * perPage,
+            take: perPage,
+            include: {
+              _count: {
+                select: { posts: { where: { post: { deletedAt: null } } } },
+              },
+            },
+          }),
+        ])
+
+        const items = rows.map((s) => ({
+          id: s.id,
+          title: s.title,
+          slug: s.slug,
+          description: s.description,
+          postCount: s._count.posts,
+          createdAt: s.createdAt.toISOString(),
+          updatedAt: s.updatedAt.toISOString(),
+        }))
+
+        const totalPages = Math.max(1, Math.ceil(total / perPage))
+
+        return reply.send({
+          meta: { page, perPage, total, totalPages },
+          items,
+        })
+      },
+    )
+}
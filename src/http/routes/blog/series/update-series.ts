@@ -0,0 +1,94 @@
+import type { FastifyInstance } from "fastify"
+import type { ZodTypeProvider } from "fastify-type-provider-zod"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { auth } from "@/http/middlewares/auth"
+import { authorize } from "@/http/middlewares/authorize"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import {
+  adminSeriesSchema,
+  loadAdminSeries,
+  makeUniqueSeriesSlug,
+  replaceSeriesPosts,
+  SERIES_MAX_POSTS,
+} from "@/utils/series-utils"
+
+export async function updateSeries(app: FastifyInstance) {
+  app
+    .withTypeProvider<ZodTypeProvider>()
+    .register(auth)
+    .patch(
+      "/blog/admin/series/:id",
+      {
+        schema: {
+          tags: ["Series"],
+          summary:
+            "Edita uma série; `postIds` substitui a lista (e a ordem) de posts",
+          params: z.object({ id: z.string().uuid() }),
+          body: z.object({
+            title: z.string().trim().min(3).max(160).optional(),
+            slug: z.string().min(1).max(140).optional(),
+            description: z.string().trim().max(500).nullable().optional(),
+            postIds: z
+              .array(z.string().uuid())
+              .max(SERIES_MAX_POSTS)
+              .optional(),
+          }),
+          response: {
+            200: adminSeriesSchema,
+          },
+        },
+        preHandler: [authorize("series:manage")],
+      },
+      async (request, reply) => {
+        const { id } = request.params
+        const { title, slug, description, postIds } = request.body
+
+        const before = await loadAdminSeries(prisma, id)
+        if (!before) throw new NotFoundError("Série não encontrada.")
+
+        const nextSlug =
+          slug !== undefined ? await makeUniqueSeriesSlug(slug, id) : undefined
+
+        const series = await prisma.$transaction(async (tx) => {
+          await tx.series.update({
+            where: { id },
+            data: {
+              ...(title !== undefined ? { title } : {}),
+              ...(nextSlug !== undefined ? { slug: nextSlug } : {}),
+              ...(description !== undefined
+                ? { description: description || null }
+                : {}),
+            },
+          })
+
+          if (postIds) await replaceSeriesPosts(tx, id, postIds)
+
+          return (await loadAdminSeries(tx, id))!
+        })
+
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action: "series.update",
+          targetType: "series",
+          targetId: id,
+          before: {
+            title: before.title,
+            slug: before.slug,
+            description: before.description,
+            postIds: before.posts.map((p) => p.id),
+          },
+          after: {
+            title: series.title,
+            slug: series.slug,
+            description: series.description,
+            postIds: series.posts.map((p) => p.id),
+          },
+        })
+
+        return reply.send(series)
+      },
+    )
+}
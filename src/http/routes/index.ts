@@ -8,6 +8,7 @@ import { createPost } from "./blog/post/create-post"
 import { createMedia } from "./blog/media/create-media"
 import { listMedia } from "./blog/media/list-media"
 import { listPublicPosts } from "./blog/post/list-public-posts"
+import { getAuthor } from "./blog/authors/get-author"
 import { searchPosts } from "./blog/post/search-posts"
 import { getPost } from "./blog/post/get-post"
 import { deletePost } from "./blog/post/delete-post"
@@ -15,6 +16,33 @@ import { listPost } from "./blog/post/list-posts"
 import { getRelatedPosts } from "./blog/post/related-post"
 import { editPost } from "./blog/post/edit-post"
 import { getPostById } from "./blog/post/get-post-by-id"
+import { listPostRevisions } from "./blog/post/revisions/list-post-revisions"
+import { diffPostRevisions } from "./blog/post/revisions/diff-post-revisions"
+import { getPostRevision } from "./blog/post/revisions/get-post-revision"
+import { restorePostRevision } from "./blog/post/revisions/restore-post-revision"
+import { getPostDraft } from "./blog/post/draft/get-post-draft"
+import { autosavePostDraft } from "./blog/post/draft/autosave-post-draft"
+import { discardPostDraft } from "./blog/post/draft/discard-post-draft"
+import { publishPostDraft } from "./blog/post/draft/publish-post-draft"
+import { createPostPreview } from "./blog/post/previews/create-post-preview"
+import { listPostPreviews } from "./blog/post/previews/list-post-previews"
+import { revokePostPreview } from "./blog/post/previews/revoke-post-preview"
+import { submitPostForReview } from "./blog/post/review/submit-post-for-review"
+import { approvePostReview } from "./blog/post/review/approve-post-review"
+import { requestPostChanges } from "./blog/post/review/request-post-changes"
+import { listPostReviews } from "./blog/post/review/list-post-reviews"
+import { importMarkdownPost } from "./blog/post/markdown/import-markdown-post"
+import { exportMarkdownPost } from "./blog/post/markdown/export-markdown-post"
+import { listTrashedPosts } from "./blog/post/trash/list-trashed-posts"
+import { restorePost } from "./blog/post/trash/restore-post"
+import { createPostBulkOperation } from "./blog/post/bulk/create-post-bulk-operation"
+import { getPostBulkOperation } from "./blog/post/bulk/get-post-bulk-operation"
+import { createSeries } from "./blog/series/create-series"
+import { listSeries } from "./blog/series/list-series"
+import { getSeriesById } from "./blog/series/get-series-by-id"
+import { updateSeries } from "./blog/series/update-series"
+import { deleteSeries } from "./blog/series/delete-series"
+import { getSeries } from "./blog/series/get-series"
 import { trackPostView } from "./blog/post/track-post-view"
 import { createUtmEvent } from "./analytics/utm/create-utm-event"
 import { createUtmCampaign } from "./analytics/utm/create-utm-campaign"
@@ -25,12 +53,65 @@ import { getPostStats } from "./blog/post/metrics/get-post-stats"
 import { getMetrics } from "./blog/post/metrics/get-metrics"
 import { setAvatar } from "./users/set-avatar"
 import { getUserAvatarByUsername } from "./users/get-user-avatar-by-username"
+import { requestPasswordRecover } from "./auth/request-password-recover"
+import { resetPassword } from "./auth/reset-password"
+import { requestEmailCode } from "./auth/request-email-code"
+import { verifyEmailCode } from "./auth/verify-email-code"
+import { refreshToken } from "./auth/refresh-token"
+import { signOut } from "./auth/sign-out"
+import { listSessions } from "./auth/list-sessions"
+import { revokeSession } from "./auth/revoke-session"
+import { enrollTwoFactor } from "./auth/two-factor/enroll-two-factor"
+import { confirmTwoFactor } from "./auth/two-factor/confirm-two-factor"
+import { disableTwoFactor } from "./auth/two-factor/disable-two-factor"
+import { regenerateTwoFactorRecoveryCodes } from "./auth/two-factor/regenerate-recovery-codes"
+import { verifyTwoFactor } from "./auth/two-factor/verify-two-factor"
+import { getTwoFactorPolicy } from "./admin/security/get-two-factor-policy"
+import { updateTwoFactorPolicy } from "./admin/security/update-two-factor-policy"
+import { createApiKey } from "./admin/api-keys/create-api-key"
+import { listApiKeys } from "./admin/api-keys/list-api-keys"
+import { revokeApiKey } from "./admin/api-keys/revoke-api-key"
+import { listUsers } from "./admin/users/list-users"
+import { deactivateUser } from "./admin/users/deactivate-user"
+import { reactivateUser } from "./admin/users/reactivate-user"
+import { deleteUser } from "./admin/users/delete-user"
+import { unlockUser } from "./admin/users/unlock-user"
+import { createInvite } from "./admin/invites/create-invite"
+import { listInvites } from "./admin/invites/list-invites"
+import { revokeInvite } from "./admin/invites/revoke-invite"
+import { acceptInvite } from "./auth/accept-invite"
+import { listAuditEvents } from "./admin/audit/list-audit-events"
+import { createPrivacyExport } from "./admin/privacy/create-privacy-export"
+import { createPrivacyErasure } from "./admin/privacy/create-privacy-erasure"
+import { getPrivacyRequest } from "./admin/privacy/get-privacy-request"
+import { migratePostContent } from "./admin/content/migrate-post-content"
+import { getTrashPolicy } from "./admin/content/get-trash-policy"
+import { updateTrashPolicy } from "./admin/content/update-trash-policy"
+import { createWordPressImport } from "./admin/imports/create-wordpress-import"
+import { getWordPressImport } from "./admin/imports/get-wordpress-import"
+import { listSlugRedirects } from "./admin/redirects/list-slug-redirects"
+import { createSlugRedirect } from "./admin/redirects/create-slug-redirect"
+import { deleteSlugRedirect } from "./admin/redirects/delete-slug-redirect"
 
 export async function routes(app: FastifyInstance) {
   //ROTA PARA AUTHENTICAÇÃO
   app.register(signIn)
   app.register(getProfile)
   app.register(signUp)
+  app.register(requestPasswordRecover)
+  app.register(resetPassword)
+  app.register(requestEmailCode)
+  app.register(verifyEmailCode)
+  app.register(refreshToken)
+  app.register(signOut)
+  app.register(listSessions)
+  app.register(revokeSession)
+  app.register(enrollTwoFactor)
+  app.register(confirmTwoFactor)
+  app.register(disableTwoFactor)
+  app.register(regenerateTwoFactorRecoveryCodes)
+  app.register(verifyTwoFactor)
+  app.register(acceptInvite)
 
   //ROTAS DO USER
   app.register(updateUser)
@@ -45,11 +126,39 @@ export async function routes(app: FastifyInstance) {
   app.register(deletePost)
   app.register(editPost)
   app.register(getPostById)
+  app.register(listPostRevisions)
+  app.register(diffPostRevisions)
+  app.register(getPostRevision)
+  app.register(restorePostRevision)
+  app.register(getPostDraft)
+  app.register(autosavePostDraft)
+  app.register(discardPostDraft)
+  app.register(publishPostDraft)
+  app.register(createPostPreview)
+  app.register(listPostPreviews)
+  app.register(revokePostPreview)
+  app.register(submitPostForReview)
+  app.register(approvePostReview)
+  app.register(requestPostChanges)
+  app.register(listPostReviews)
+  app.register(importMarkdownPost)
+  app.register(exportMarkdownPost)
+  app.register(listTrashedPosts)
+  app.register(restorePost)
+  app.register(createPostBulkOperation)
+  app.register(getPostBulkOperation)
+  app.register(createSeries)
+  app.register(listSeries)
+  app.register(getSeriesById)
+  app.register(updateSeries)
+  app.register(deleteSeries)
   //rotas publicas
   app.register(listPublicPosts)
+  app.register(getAuthor)
   app.register(searchPosts)
   app.register(getPost)
   app.register(getRelatedPosts)
+  app.register(getSeries)
   app.register(trackPostView)
   //metricas
   app.register(getPostStats)
@@ -65,4 +174,31 @@ export async function routes(app: FastifyInstance) {
   //MEDIA
   app.register(createMedia)
   app.register(listMedia)
+
+  //ADMIN
+  app.register(getTwoFactorPolicy)
+  app.register(updateTwoFactorPolicy)
+  app.register(createApiKey)
+  app.register(listApiKeys)
+  app.register(revokeApiKey)
+  app.register(listUsers)
+  app.register(deactivateUser)
+  app.register(reactivateUser)
+  app.register(deleteUser)
+  app.register(unlockUser)
+  app.register(createInvite)
+  app.register(listInvites)
+  app.register(revokeInvite)
+  app.register(listAuditEvents)
+  app.register(createPrivacyExport)
+  app.register(createPrivacyErasure)
+  app.register(getPrivacyRequest)
+  app.register(migratePostContent)
+  app.register(getTrashPolicy)
+  app.register(updateTrashPolicy)
+  app.register(createWordPressImport)
+  app.register(getWordPressImport)
+  app.register(listSlugRedirects)
+  app.register(createSlugRedirect)
+  app.register(deleteSlugRedirect)
 }
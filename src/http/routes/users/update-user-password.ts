@@ -6,12 +6,13 @@ import { prisma } from "@/lib/prisma"
 import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
 import { auth } from "@/http/middlewares/auth"
 import bcrypt from "bcrypt"
+import { revokeUserSessions } from "@/utils/auth-utils"
 
 export async function updateUserPassword(app: FastifyInstance) {
   app
     .withTypeProvider<ZodTypeProvider>()
     .register(auth)
-    .register(apiKey)
+    .register(apiKey, { scopes: ["users:write"] })
     .put(
       "/user/password",
       {
@@ -84,6 +85,10 @@ export async function updateUserPassword(app: FastifyInstance) {
           select: { id: true, updatedAt: true },
         })
 
+        // mantém apenas a sessão atual
+        const sessionId = await request.getCurrentSessionId()
+        await revokeUserSessions(user.id, sessionId)
+
         return reply.status(200).send(updated)
       },
     )
@@ -7,12 +7,20 @@ import { prisma } from "@/lib/prisma"
 import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
 import { NotFoundError } from "@/http/_errors/not-found-error"
 import { auth } from "@/http/middlewares/auth"
+import { assertCan } from "@/utils/permissions"
+import { normalizeSocialHandle } from "@/utils/profile-utils"
+import {
+  recordAuditEvent,
+  snapshot,
+  USER_AUDIT_FIELDS,
+} from "@/utils/audit-utils"
+import { authorize } from "@/http/middlewares/authorize"
 
 export async function updateUser(app: FastifyInstance) {
   app
     .withTypeProvider<ZodTypeProvider>()
     .register(auth)
-    .register(apiKey)
+    .register(apiKey, { scopes: ["users:write"] })
     .put(
       "/user/:id",
       {
@@ -34,6 +42,10 @@ export async function updateUser(app: FastifyInstance) {
               email: z.string().email().optional(),
               description: z.string().min(1).max(500).optional(),
               role: z.nativeEnum(Role).optional(),
+              // perfil público; null limpa o campo
+              website: z.string().url().max(300).nullable().optional(),
+              linkedin: z.string().trim().min(1).max(200).nullable().optional(),
+              twitter: z.string().trim().min(1).max(100).nullable().optional(),
             })
             .transform((data) => ({
               ...data,
@@ -46,6 +58,14 @@ export async function updateUser(app: FastifyInstance) {
                   : undefined,
               email:
                 typeof data.email === "string" ? data.email.trim() : undefined,
+              linkedin:
+                typeof data.linkedin === "string"
+                  ? normalizeSocialHandle(data.linkedin)
+                  : data.linkedin,
+              twitter:
+                typeof data.twitter === "string"
+                  ? normalizeSocialHandle(data.twitter)
+                  : data.twitter,
             })),
           response: {
             200: z.object({
@@ -55,29 +75,37 @@ export async function updateUser(app: FastifyInstance) {
               email: z.string().email().nullable(),
               role: z.nativeEnum(Role),
               description: z.string().nullable(),
+              website: z.string().nullable(),
+              linkedinHandle: z.string().nullable(),
+              twitterHandle: z.string().nullable(),
               createdAt: z.date(),
               updatedAt: z.date(),
             }),
           },
         },
+        preHandler: [authorize("user:update")],
       },
       async (request, reply) => {
-        const authUserId = await request.getCurrentUserId()
-        const authUser = await prisma.user.findUnique({
-          where: { id: authUserId },
-        })
-        if (!authUser) throw new UnauthorizedError()
-
         const { id } = request.params
 
         // Só ADMIN ou o próprio usuário podem atualizar
-        if (authUser.role !== Role.ADMIN && authUser.id !== id) {
-          throw new UnauthorizedError(
-            "você não tem permissão para atualizar este usuário.",
-          )
-        }
+        assertCan(
+          request.user,
+          "user:update",
+          id,
+          "você não tem permissão para atualizar este usuário.",
+        )
 
-        const { name, role, username, email, description } = request.body
+        const {
+          name,
+          role,
+          username,
+          email,
+          description,
+          website,
+          linkedin,
+          twitter,
+        } = request.body
 
         const user = await prisma.user.findUnique({ where: { id } })
         if (!user) {
@@ -85,8 +113,11 @@ export async function updateUser(app: FastifyInstance) {
         }
 
         // Apenas ADMIN pode alterar o role
-        if (typeof role !== "undefined" && authUser.role !== Role.ADMIN) {
-          throw new UnauthorizedError(
+        if (typeof role !== "undefined") {
+          assertCan(
+            request.user,
+            "user:role:update",
+            undefined,
             "apenas administradores podem alterar o cargo.",
           )
         }
@@ -121,6 +152,9 @@ export async function updateUser(app: FastifyInstance) {
           email?: string
           role?: Role
           description?: string
+          website?: string | null
+          linkedinHandle?: string | null
+          twitterHandle?: string | null
         } = {}
 
         if (typeof name !== "undefined") dataToUpdate.name = name
@@ -129,12 +163,27 @@ export async function updateUser(app: FastifyInstance) {
         if (typeof role !== "undefined") dataToUpdate.role = role
         if (typeof description !== "undefined")
           dataToUpdate.description = description
+        if (typeof website !== "undefined") dataToUpdate.website = website
+        if (typeof linkedin !== "undefined")
+          dataToUpdate.linkedinHandle = linkedin || null
+        if (typeof twitter !== "undefined")
+          dataToUpdate.twitterHandle = twitter || null
 
         const updatedUser = await prisma.user.update({
           where: { id: user.id },
           data: dataToUpdate,
         })
 
+        await recordAuditEvent(request, {
+          actorId: request.user.id,
+          action:
+            updatedUser.role !== user.role ? "user.role.change" : "user.update",
+          targetType: "user",
+          targetId: user.id,
+          before: snapshot(user, USER_AUDIT_FIELDS),
+          after: snapshot(updatedUser, USER_AUDIT_FIELDS),
+        })
+
         return reply.status(200).send(updatedUser)
       },
     )
@@ -26,6 +26,8 @@ const app = fastify({
   bodyLimit: 15 * 1024 * 1024, // 15MB
   connectionTimeout: 60000, // 60 segundos
   keepAliveTimeout: 60000, // 60 segundos
+  // request.ip usa X-Forwarded-For apenas através dos proxies configurados
+  trustProxy: env.TRUST_PROXY_HOPS || false,
 }).withTypeProvider<ZodTypeProvider>()
 
 app.register(fastifyCors, {
@@ -59,6 +59,16 @@ export async function getSignedGetUrl(key: string, expiresInSeconds = 60) {
   return getSignedUrl(s3, command, { expiresIn: expiresInSeconds })
 }
 
+export async function downloadFromS3(key: string) {
+  const result = await s3.send(
+    new GetObjectCommand({
+      Bucket: env.S3_BUCKET_NAME!,
+      Key: key,
+    }),
+  )
+  return streamToBuffer(result.Body as Readable)
+}
+
 // helper para acumular stream -> Buffer (Fastify multipart)
 export async function streamToBuffer(stream: Readable) {
   const chunks: Buffer[] = []
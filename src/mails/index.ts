@@ -10,6 +10,30 @@ export function RecoverPasswordTemplateEmail(token: string) {
   return template({ token })
 }
 
+export function InviteTemplateEmail(data: {
+  token: string
+  role: string
+  invitedBy: string | null
+  expiresInDays: number
+}) {
+  const source = fs.readFileSync("./src/mails/templates/invite.hbs", "utf-8")
+  const template = Handlebars.compile(source)
+  return template(data)
+}
+
+export function SignInAlertTemplateEmail(data: {
+  failures: number
+  ip: string
+  date: string
+}) {
+  const source = fs.readFileSync(
+    "./src/mails/templates/sign-in-alert.hbs",
+    "utf-8",
+  )
+  const template = Handlebars.compile(source)
+  return template(data)
+}
+
 export function RequestAuthCodeWithEmailTemplate(code: string) {
   const source = fs.readFileSync(
     "./src/mails/templates/request-auth-code.hbs",
@@ -18,3 +42,33 @@ export function RequestAuthCodeWithEmailTemplate(code: string) {
   const template = Handlebars.compile(source)
   return template({ code })
 }
+
+export function ReviewRequestTemplateEmail(data: {
+  reviewer: string
+  requestedBy: string
+  title: string
+  message: string | null
+}) {
+  const source = fs.readFileSync(
+    "./src/mails/templates/review-request.hbs",
+    "utf-8",
+  )
+  const template = Handlebars.compile(source)
+  return template(data)
+}
+
+export function ReviewDecisionTemplateEmail(data: {
+  author: string
+  reviewer: string
+  title: string
+  approved: boolean
+  comment: string | null
+  notesCount: number
+}) {
+  const source = fs.readFileSync(
+    "./src/mails/templates/review-decision.hbs",
+    "utf-8",
+  )
+  const template = Handlebars.compile(source)
+  return template(data)
+}
@@ -0,0 +1,638 @@
+import type { Job } from "bull"
+import bcrypt from "bcrypt"
+import { basename } from "path"
+import { ImportStatus, PostStatus, Role, Visibility } from "@prisma/client"
+
+import { env } from "@/env"
+import { prisma } from "@/lib/prisma"
+import { downloadFromS3, uploadToS3 } from "@/lib/s3"
+import {
+  clampExcerpt,
+  countWords,
+  estimateReadTimeMinutes,
+  jsonToPlainText,
+  makeUniqueSlug,
+  replacePostTaxonomy,
+  slugify,
+} from "@/utils/blog-utils"
+import { resolveMediaIdByUrl } from "@/utils/content-utils"
+import { generateToken } from "@/utils/auth-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+import { recordPostRevision } from "@/utils/revision-utils"
+import {
+  attachmentSize,
+  attachmentUrlKey,
+  finishConversion,
+  htmlToBlocks,
+  htmlToText,
+  parseWxr,
+  type WxrExport,
+  type WxrItem,
+} from "@/utils/wordpress-utils"
+
+/**
+ * Importa um export WXR do WordPress: autores, anexos (reenviados ao S3),
+ * posts com datas/slugs originais, categorias/tags e comentários.
+ * - idempotente: cada item importado ganha um par em ImportedEntity e é
+ *   pulado nas próximas execuções (comentários novos ainda entram)
+ * - o relatório lista o que foi ignorado e por quê
+ */
+
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024
+const DOWNLOAD_TIMEOUT_MS = 30_000
+// limita o tamanho do JSON do relatório; as contagens continuam exatas
+const MAX_REPORT_ENTRIES = 500
+
+export interface ImportWordPressData {
+  importId: string
+}
+
+type Counter = { imported: number; existing: number; skipped: number }
+
+type ReportEntry = {
+  kind: string
+  externalId: string
+  title?: string
+  message: string
+}
+
+const counter = (): Counter => ({ imported: 0, existing: 0, skipped: 0 })
+
+class ImportReport {
+  authors = { created: 0, matched: 0, existing: 0 }
+  attachments = counter()
+  posts = counter()
+  comments = counter()
+  // páginas, menus e outros tipos que o importador não traz
+  others = { skipped: 0 }
+  skipped: ReportEntry[] = []
+  warnings: ReportEntry[] = []
+  warningCount = 0
+
+  skip(section: { skipped: number }, entry: ReportEntry) {
+    section.skipped++
+    if (this.skipped.length < MAX_REPORT_ENTRIES) this.skipped.push(entry)
+  }
+
+  warn(entry: ReportEntry) {
+    this.warningCount++
+    if (this.warnings.length < MAX_REPORT_ENTRIES) this.warnings.push(entry)
+  }
+
+  toJSON() {
+    return {
+      authors: this.authors,
+      attachments: this.attachments,
+      posts: this.posts,
+      comments: this.comments,
+      others: this.others,
+      warningCount: this.warningCount,
+      skipped: this.skipped,
+      warnings: this.warnings,
+    }
+  }
+}
+
+type Kind = "author" | "attachment" | "post" | "comment"
+
+/** Pares já gravados por execuções anteriores, por tipo */
+async function loadMappings(source: string, kind: Kind) {
+  const rows = await prisma.importedEntity.findMany({
+    where: { source, kind },
+    select: { externalId: true, localId: true },
+  })
+  return new Map(rows.map((r) => [r.externalId, r.localId]))
+}
+
+const mappingData = (
+  source: string,
+  kind: Kind,
+  externalId: string,
+  localId: string,
+) => ({
+  where: { source_kind_externalId: { source, kind, externalId } },
+  update: { localId },
+  create: { source, kind, externalId, localId },
+})
+
+/** Username válido ([a-zA-Z0-9._-], 3–32) e livre, derivado do login */
+async function uniqueUsername(login: string) {
+  const base =
+    login
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-zA-Z0-9._-]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 28) || "autor"
+  const padded = base.length >= 3 ? base : `${base}-wp`
+
+  let candidate = padded
+  for (let suffix = 2; ; suffix++) {
+    const taken = await prisma.user.findUnique({
+      where: { username: candidate },
+      select: { id: true },
+    })
+    if (!taken) return candidate
+    candidate = `${padded}-${suffix}`
+  }
+}
+
+async function importAuthors(
+  wxr: WxrExport,
+  source: string,
+  report: ImportReport,
+) {
+  const mapped = await loadMappings(source, "author")
+  const byLogin = new Map<string, string>()
+  const byWpId = new Map<string, string>()
+
+  for (const author of wxr.authors) {
+    if (!author.login) continue
+
+    const previous = mapped.get(author.login)
+    let userId = previous
+      ? (
+          await prisma.user.findUnique({
+            where: { id: previous },
+            select: { id: true },
+          })
+        )?.id
+      : undefined
+
+    if (userId) {
+      report.authors.existing++
+    } else {
+      // só o e-mail identifica a pessoa: logins como "admin" ou "editor"
+      // coincidiriam com contas locais sem relação com o autor
+      const existing = author.email
+        ? await prisma.user.findFirst({
+            where: { email: { equals: author.email, mode: "insensitive" } },
+            select: { id: true },
+          })
+        : null
+
+      if (existing) {
+        userId = existing.id
+        report.authors.matched++
+      } else {
+        // senha aleatória e sem papel editorial: o e-mail vem do arquivo
+        // enviado, então um admin precisa promover a conta antes do uso
+        const created = await prisma.user.create({
+          data: {
+            name: author.displayName.slice(0, 100),
+            username: await uniqueUsername(author.login),
+            email: author.email,
+            password: await bcrypt.hash(generateToken(), 10),
+            role: Role.USER,
+          },
+          select: { id: true },
+        })
+        userId = created.id
+        report.authors.created++
+      }
+
+      await prisma.importedEntity.upsert(
+        mappingData(source, "author", author.login, userId),
+      )
+    }
+
+    byLogin.set(author.login, userId)
+    if (author.id) byWpId.set(author.id, userId)
+  }
+
+  return { byLogin, byWpId }
+}
+
+async function downloadAttachment(url: string) {
+  const res = await fetch(url, {
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  })
+  if (!res.ok) throw new Error(`download falhou (HTTP ${res.status})`)
+
+  const mimetype = (res.headers.get("content-type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase()
+  if (!mimetype.startsWith("image/")) {
+    throw new Error(`tipo não suportado (${mimetype || "desconhecido"})`)
+  }
+  if (Number(res.headers.get("content-length") ?? 0) > MAX_ATTACHMENT_BYTES) {
+    throw new Error("arquivo maior que 25 MB")
+  }
+
+  const buffer = Buffer.from(await res.arrayBuffer())
+  if (buffer.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error("arquivo maior que 25 MB")
+  }
+  return { buffer, mimetype }
+}
+
+async function importAttachments(
+  items: WxrItem[],
+  source: string,
+  report: ImportReport,
+) {
+  const mapped = await loadMappings(source, "attachment")
+  const byWpId = new Map<string, string>()
+  const byUrl = new Map<string, string>()
+  const baseUrl = env.S3_BASE_URL.replace(/\/+$/, "")
+
+  for (const item of items) {
+    if (item.type !== "attachment" || !item.attachmentUrl) continue
+    const entry = { kind: "attachment", externalId: item.id, title: item.title }
+
+    const previous = mapped.get(item.id)
+    let mediaId = previous
+      ? (
+          await prisma.media.findUnique({
+            where: { id: previous },
+            select: { id: true },
+          })
+        )?.id
+      : undefined
+
+    if (mediaId) {
+      report.attachments.existing++
+    } else {
+      try {
+        const { buffer, mimetype } = await downloadAttachment(
+          item.attachmentUrl,
+        )
+        const { key } = await uploadToS3(
+          {
+            buffer,
+            filename: basename(new URL(item.attachmentUrl).pathname),
+            mimetype,
+          },
+          "media/wordpress",
+        )
+        const { width, height } = attachmentSize(
+          item.meta._wp_attachment_metadata,
+        )
+
+        const media = await prisma.media.create({
+          data: {
+            url: `${baseUrl}/${key}`,
+            alt:
+              (item.meta._wp_attachment_image_alt || item.title).slice(
+                0,
+                500,
+              ) || null,
+            mimeType: mimetype,
+            width,
+            height,
+          },
+          select: { id: true },
+        })
+        mediaId = media.id
+
+        await prisma.importedEntity.upsert(
+          mappingData(source, "attachment", item.id, mediaId),
+        )
+        report.attachments.imported++
+      } catch (err) {
+        report.skip(report.attachments, {
+          ...entry,
+          message: err instanceof Error ? err.message : String(err),
+        })
+        continue
+      }
+    }
+
+    byWpId.set(item.id, mediaId)
+    byUrl.set(attachmentUrlKey(item.attachmentUrl), mediaId)
+  }
+
+  return { byWpId, byUrl }
+}
+
+const STATUS_MAP: Record<
+  string,
+  { status: PostStatus; visibility?: Visibility } | undefined
+> = {
+  publish: { status: PostStatus.PUBLISHED },
+  future: { status: PostStatus.SCHEDULED },
+  draft: { status: PostStatus.DRAFT },
+  pending: { status: PostStatus.DRAFT },
+  private: { status: PostStatus.PUBLISHED, visibility: Visibility.PRIVATE },
+}
+
+async function importComments(
+  item: WxrItem,
+  postId: string,
+  source: string,
+  mapped: Map<string, string>,
+  usersByWpId: Map<string, string>,
+  report: ImportReport,
+) {
+  const local = new Map<string, string>()
+  // ordem por id: o pai sempre é importado antes das respostas
+  const comments = [...item.comments].sort(
+    (a, b) => Number(a.id) - Number(b.id),
+  )
+
+  for (const comment of comments) {
+    const entry = { kind: "comment", externalId: comment.id, title: item.title }
+
+    if (comment.type === "pingback" || comment.type === "trackback") {
+      report.skip(report.comments, { ...entry, message: comment.type })
+      continue
+    }
+    if (comment.approved === "trash") {
+      report.skip(report.comments, { ...entry, message: "na lixeira" })
+      continue
+    }
+
+    const previous = mapped.get(comment.id)
+    if (previous) {
+      const exists = await prisma.comment.findUnique({
+        where: { id: previous },
+        select: { id: true },
+      })
+      if (exists) {
+        local.set(comment.id, previous)
+        report.comments.existing++
+        continue
+      }
+    }
+
+    const content = htmlToText(comment.content)
+    if (!content) {
+      report.skip(report.comments, { ...entry, message: "comentário vazio" })
+      continue
+    }
+
+    const parentId = comment.parentId
+      ? (local.get(comment.parentId) ?? null)
+      : null
+    if (comment.parentId && !parentId) {
+      report.warn({
+        ...entry,
+        message: "resposta a um comentário ignorado; importada sem o pai",
+      })
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const row = await tx.comment.create({
+        data: {
+          postId,
+          authorId: comment.userId
+            ? (usersByWpId.get(comment.userId) ?? null)
+            : null,
+          parentId,
+          name: comment.authorName || null,
+          email: comment.authorEmail,
+          content,
+          isApproved: comment.approved === "1",
+          isSpam: comment.approved === "spam",
+          ...(comment.date ? { createdAt: comment.date } : {}),
+        },
+        select: { id: true },
+      })
+      await tx.importedEntity.upsert(
+        mappingData(source, "comment", comment.id, row.id),
+      )
+      return row
+    })
+
+    local.set(comment.id, created.id)
+    report.comments.imported++
+  }
+}
+
+async function importPosts(
+  wxr: WxrExport,
+  source: string,
+  authors: { byLogin: Map<string, string>; byWpId: Map<string, string> },
+  media: { byWpId: Map<string, string>; byUrl: Map<string, string> },
+  fallbackAuthorId: string | null,
+  report: ImportReport,
+) {
+  const mapped = await loadMappings(source, "post")
+  const mappedComments = await loadMappings(source, "comment")
+
+  for (const item of wxr.items) {
+    if (item.type !== "post") {
+      if (item.type !== "attachment") {
+        report.skip(report.others, {
+          kind: item.type || "item",
+          externalId: item.id,
+          title: item.title,
+          message: `tipo "${item.type}" não é importado`,
+        })
+      }
+      continue
+    }
+    const entry = { kind: "post", externalId: item.id, title: item.title }
+
+    const target = STATUS_MAP[item.status]
+    if (!target) {
+      report.skip(report.posts, {
+        ...entry,
+        message: `status "${item.status}" não é importado`,
+      })
+      continue
+    }
+
+    const previous = mapped.get(item.id)
+    let postId = previous
+      ? (
+          await prisma.post.findUnique({
+            where: { id: previous },
+            select: { id: true },
+          })
+        )?.id
+      : undefined
+
+    if (postId) {
+      report.posts.existing++
+    } else {
+      const authorId = authors.byLogin.get(item.creator) ?? fallbackAuthorId
+      if (!authorId) {
+        report.skip(report.posts, {
+          ...entry,
+          message: `autor "${item.creator}" não encontrado`,
+        })
+        continue
+      }
+
+      try {
+        const conversion = htmlToBlocks(item.content)
+        const mediaIds = await Promise.all(
+          conversion.images.map(async ({ ref }) => {
+            if (ref.attachmentId && media.byWpId.has(ref.attachmentId)) {
+              return media.byWpId.get(ref.attachmentId)!
+            }
+            if (!ref.src) return null
+            return (
+              media.byUrl.get(attachmentUrlKey(ref.src)) ??
+              (await resolveMediaIdByUrl(ref.src))
+            )
+          }),
+        )
+        const content = finishConversion(conversion, mediaIds)
+        for (const message of conversion.warnings) {
+          report.warn({ ...entry, message })
+        }
+
+        const baseSlug =
+          slugify(item.slug) || slugify(item.title) || `post-${item.id}`
+        const slug = await makeUniqueSlug(baseSlug)
+        if (slug !== baseSlug) {
+          report.warn({
+            ...entry,
+            message: `slug "${baseSlug}" já em uso; importado como "${slug}"`,
+          })
+        }
+
+        let visibility = target.visibility ?? Visibility.PUBLIC
+        if (item.password) {
+          visibility = Visibility.PRIVATE
+          report.warn({
+            ...entry,
+            message: "post protegido por senha importado como PRIVATE",
+          })
+        }
+
+        const plain = jsonToPlainText(content)
+        const wordCount = countWords(plain)
+        const date = item.date ?? new Date()
+
+        postId = await prisma.$transaction(async (tx) => {
+          const post = await tx.post.create({
+            data: {
+              authorId,
+              title: item.title || "(sem título)",
+              slug,
+              excerpt:
+                clampExcerpt(htmlToText(item.excerpt) || undefined, plain) ||
+                null,
+              content,
+              coverId: media.byWpId.get(item.meta._thumbnail_id) ?? null,
+              status: target.status,
+              visibility,
+              publishedAt: target.status === PostStatus.PUBLISHED ? date : null,
+              scheduledFor:
+                target.status === PostStatus.SCHEDULED ? date : null,
+              wordCount,
+              readTime: estimateReadTimeMinutes(wordCount),
+              createdAt: date,
+            },
+            select: { id: true },
+          })
+
+          await replacePostTaxonomy(tx, post.id, {
+            categoryNames: item.categories,
+            tagNames: item.tags,
+          })
+          await recordPostRevision(tx, post.id, authorId)
+          await tx.importedEntity.upsert(
+            mappingData(source, "post", item.id, post.id),
+          )
+
+          return post.id
+        })
+        report.posts.imported++
+      } catch (err) {
+        report.skip(report.posts, {
+          ...entry,
+          message: err instanceof Error ? err.message : String(err),
+        })
+        continue
+      }
+    }
+
+    await importComments(
+      item,
+      postId,
+      source,
+      mappedComments,
+      authors.byWpId,
+      report,
+    )
+  }
+}
+
+export default {
+  key: "ImportWordPress",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<ImportWordPressData>) {
+    // updateMany condicional: evita processar a mesma importação duas vezes
+    const claimed = await prisma.wordPressImport.updateMany({
+      where: { id: job.data.importId, status: ImportStatus.PENDING },
+      data: { status: ImportStatus.PROCESSING, startedAt: new Date() },
+    })
+    if (claimed.count === 0) return
+
+    const row = await prisma.wordPressImport.findUniqueOrThrow({
+      where: { id: job.data.importId },
+    })
+
+    try {
+      const wxr = parseWxr((await downloadFromS3(row.sourceKey)).toString())
+      const siteUrl = wxr.siteUrl.replace(/\/+$/, "").slice(0, 250)
+      // a origem identifica os pares: reimportar o mesmo site pula o que já existe
+      const source = `wordpress:${siteUrl || row.id}`
+
+      await prisma.wordPressImport.update({
+        where: { id: row.id },
+        data: { siteUrl: siteUrl || null },
+      })
+
+      const report = new ImportReport()
+      const authors = await importAuthors(wxr, source, report)
+      const media = await importAttachments(wxr.items, source, report)
+      await importPosts(wxr, source, authors, media, row.requestedById, report)
+
+      await prisma.wordPressImport.update({
+        where: { id: row.id },
+        data: {
+          status: ImportStatus.COMPLETED,
+          completedAt: new Date(),
+          report: report.toJSON(),
+        },
+      })
+
+      console.log(`[ImportWordPress] ✅ ${row.id}`, {
+        authors: report.authors,
+        attachments: report.attachments,
+        posts: report.posts,
+        comments: report.comments,
+        others: report.others,
+      })
+
+      await recordAuditEvent(null, {
+        actorId: row.requestedById,
+        action: "wordpress.import",
+        targetType: "wordpress_import",
+        targetId: row.id,
+        after: {
+          siteUrl,
+          authors: report.authors,
+          attachments: report.attachments,
+          posts: report.posts,
+          comments: report.comments,
+          others: report.others,
+        },
+      })
+    } catch (err) {
+      await prisma.wordPressImport.update({
+        where: { id: row.id },
+        data: {
+          status: ImportStatus.FAILED,
+          completedAt: new Date(),
+          error: (err instanceof Error ? err.message : String(err)).slice(
+            0,
+            500,
+          ),
+        },
+      })
+      throw err
+    }
+  },
+}
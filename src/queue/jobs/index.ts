@@ -1,2 +1,14 @@
 export { default as FlushPostViews } from "./flush-post-views"
 export { default as PublishScheduledPosts } from "./publish-scheduled-posts"
+export { default as SendRecoverPasswordEmail } from "./send-recover-password-email"
+export { default as SendAuthCodeEmail } from "./send-auth-code-email"
+export { default as SendInviteEmail } from "./send-invite-email"
+export { default as SendSignInAlertEmail } from "./send-sign-in-alert-email"
+export { default as ProcessPrivacyRequest } from "./process-privacy-request"
+export { default as PrunePostRevisions } from "./prune-post-revisions"
+export { default as SendReviewRequestEmail } from "./send-review-request-email"
+export { default as SendReviewDecisionEmail } from "./send-review-decision-email"
+export { default as MigratePostContent } from "./migrate-post-content"
+export { default as ImportWordPress } from "./import-wordpress"
+export { default as PurgeDeletedPosts } from "./purge-deleted-posts"
+export { default as ProcessPostBulkOperation } from "./process-post-bulk-operation"
@@ -0,0 +1,134 @@
+import type { Job } from "bull"
+
+import { prisma } from "@/lib/prisma"
+import {
+  countWords,
+  estimateReadTimeMinutes,
+  jsonToPlainText,
+} from "@/utils/blog-utils"
+import {
+  CONTENT_SCHEMA_VERSION,
+  isCurrentContent,
+  resolveMediaIdByUrl,
+  upgradeContent,
+  type PostContent,
+} from "@/utils/content-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+/**
+ * Atualiza documentos antigos para CONTENT_SCHEMA_VERSION:
+ * - posts (recalculando palavras/tempo de leitura), rascunhos e revisões
+ * - idempotente: documentos já na versão atual são ignorados
+ * - falhas por item são logadas e não interrompem o lote
+ */
+
+const BATCH_SIZE = 100
+
+export interface MigratePostContentData {
+  requestedById?: string
+}
+
+type Report = {
+  scanned: number
+  upgraded: number
+  failed: number
+  warnings: number
+}
+
+async function migrateTable(
+  name: string,
+  fetch: (cursor?: string) => Promise<{ id: string; content: unknown }[]>,
+  save: (id: string, content: PostContent) => Promise<unknown>,
+): Promise<Report> {
+  const report: Report = { scanned: 0, upgraded: 0, failed: 0, warnings: 0 }
+  let cursor: string | undefined
+
+  for (;;) {
+    const rows = await fetch(cursor)
+    if (rows.length === 0) break
+
+    for (const row of rows) {
+      report.scanned++
+      if (isCurrentContent(row.content)) continue
+
+      try {
+        const { content, warnings } = await upgradeContent(
+          row.content,
+          resolveMediaIdByUrl,
+        )
+        await save(row.id, content)
+        report.upgraded++
+        report.warnings += warnings.length
+        for (const warning of warnings) {
+          console.warn(`[MigratePostContent] ${name} ${row.id}: ${warning}`)
+        }
+      } catch (err) {
+        report.failed++
+        console.error(`[MigratePostContent] ❌ ${name} ${row.id}`, err)
+      }
+    }
+
+    cursor = rows[rows.length - 1].id
+    if (rows.length < BATCH_SIZE) break
+  }
+
+  return report
+}
+
+const page = (cursor?: string) => ({
+  take: BATCH_SIZE,
+  orderBy: { id: "asc" as const },
+  ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+  select: { id: true, content: true },
+})
+
+export default {
+  key: "MigratePostContent",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<MigratePostContentData>) {
+    const posts = await migrateTable(
+      "post",
+      (cursor) => prisma.post.findMany(page(cursor)),
+      (id, content) => {
+        const wordCount = countWords(jsonToPlainText(content))
+        return prisma.post.update({
+          where: { id },
+          data: {
+            content,
+            wordCount,
+            readTime: estimateReadTimeMinutes(wordCount),
+          },
+        })
+      },
+    )
+
+    const drafts = await migrateTable(
+      "draft",
+      (cursor) => prisma.postDraft.findMany(page(cursor)),
+      (id, content) =>
+        prisma.postDraft.update({ where: { id }, data: { content } }),
+    )
+
+    const revisions = await migrateTable(
+      "revision",
+      (cursor) => prisma.postRevision.findMany(page(cursor)),
+      (id, content) =>
+        prisma.postRevision.update({ where: { id }, data: { content } }),
+    )
+
+    const report = { version: CONTENT_SCHEMA_VERSION, posts, drafts, revisions }
+    console.log("[MigratePostContent] ✅ concluído", report)
+
+    await recordAuditEvent(null, {
+      actorId: job.data.requestedById ?? null,
+      action: "post.content.migrate",
+      targetType: "post",
+      after: report,
+    })
+  },
+}
@@ -0,0 +1,29 @@
+import type { Job } from "bull"
+
+import { runPostBulkOperation } from "@/utils/bulk-utils"
+
+/**
+ * Executa operações em lote grandes demais para a requisição.
+ * O progresso fica em PostBulkOperation (e no progresso do job).
+ */
+
+export interface ProcessPostBulkOperationData {
+  operationId: string
+}
+
+export default {
+  key: "ProcessPostBulkOperation",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<ProcessPostBulkOperationData>) {
+    await runPostBulkOperation(job.data.operationId, (progress, total) =>
+      job.progress(
+        total > 0 ? Math.floor((progress.processed / total) * 100) : 100,
+      ),
+    )
+  },
+}
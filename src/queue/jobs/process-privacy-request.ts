@@ -0,0 +1,100 @@
+import type { Job } from "bull"
+import { PrivacyRequestStatus, PrivacyRequestType } from "@prisma/client"
+
+import { prisma } from "@/lib/prisma"
+import { uploadToS3 } from "@/lib/s3"
+import { buildPrivacyExport, erasePersonalData } from "@/utils/privacy-utils"
+
+/**
+ * Processa exportações e eliminações LGPD.
+ * O payload leva só o id: e-mails, fingerprints e IPs ficam no banco,
+ * fora do Redis e dos logs da fila.
+ */
+
+export interface ProcessPrivacyRequestData {
+  requestId: string
+}
+
+export default {
+  key: "ProcessPrivacyRequest",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<ProcessPrivacyRequestData>) {
+    // updateMany condicional: evita processar a mesma solicitação duas vezes
+    const claimed = await prisma.privacyRequest.updateMany({
+      where: { id: job.data.requestId, status: PrivacyRequestStatus.PENDING },
+      data: { status: PrivacyRequestStatus.PROCESSING, startedAt: new Date() },
+    })
+    if (claimed.count === 0) return
+
+    const request = await prisma.privacyRequest.findUniqueOrThrow({
+      where: { id: job.data.requestId },
+    })
+
+    try {
+      if (request.type === PrivacyRequestType.EXPORT) {
+        const data = await buildPrivacyExport(request)
+
+        const { key } = await uploadToS3(
+          {
+            buffer: Buffer.from(JSON.stringify(data, null, 2)),
+            filename: "export.json",
+            mimetype: "application/json",
+          },
+          `privacy-exports/${request.id}`,
+        )
+
+        await prisma.privacyRequest.update({
+          where: { id: request.id },
+          data: {
+            status: PrivacyRequestStatus.COMPLETED,
+            completedAt: new Date(),
+            resultKey: key,
+            report: {
+              posts: data.posts.length,
+              comments: data.comments.length,
+              sessions: data.sessions.length,
+              auditEvents: data.auditEvents.length,
+              apiKeys: data.apiKeys.length,
+              invites: data.invites.length,
+              postViews: data.postViews.length,
+            },
+          },
+        })
+        return
+      }
+
+      const report = await erasePersonalData(request)
+
+      // a própria solicitação não deve reter os identificadores eliminados
+      await prisma.privacyRequest.update({
+        where: { id: request.id },
+        data: {
+          status: PrivacyRequestStatus.COMPLETED,
+          completedAt: new Date(),
+          report,
+          subjectEmail: null,
+          fingerprints: [],
+          ipHashes: [],
+        },
+      })
+    } catch (err) {
+      await prisma.privacyRequest.update({
+        where: { id: request.id },
+        data: {
+          status: PrivacyRequestStatus.FAILED,
+          completedAt: new Date(),
+          error: (err instanceof Error ? err.message : String(err)).slice(
+            0,
+            500,
+          ),
+        },
+      })
+      throw err
+    }
+  },
+}
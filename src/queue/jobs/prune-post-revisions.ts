@@ -0,0 +1,28 @@
+import type { Job } from "bull"
+
+import { prunePostRevisions } from "@/utils/revision-utils"
+
+/**
+ * Aplica a política de retenção do histórico de posts (REVISION_RETENTION).
+ */
+
+export interface PrunePostRevisionsData {}
+
+export default {
+  key: "PrunePostRevisions",
+
+  options: {
+    // diariamente às 03:30
+    repeat: { cron: "30 3 * * *" },
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(_job: Job<PrunePostRevisionsData>) {
+    const removed = await prunePostRevisions()
+
+    if (removed > 0) {
+      console.log(`[PrunePostRevisions] 🧹 revisões removidas: ${removed}`)
+    }
+  },
+}
@@ -17,6 +17,7 @@ async function fetchDueIds(limit: number): Promise<string[]> {
     where: {
       status: "SCHEDULED",
       scheduledFor: { lte: now },
+      deletedAt: null,
     },
     orderBy: [{ scheduledFor: "asc" }, { createdAt: "asc" }],
     select: { id: true },
@@ -34,6 +35,7 @@ async function publishOne(postId: string): Promise<"PUBLISHED" | "SKIPPED"> {
       id: postId,
       status: "SCHEDULED",
       scheduledFor: { lte: now },
+      deletedAt: null,
     },
     data: {
       status: "PUBLISHED",
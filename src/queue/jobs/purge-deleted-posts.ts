@@ -0,0 +1,39 @@
+import type { Job } from "bull"
+
+import { purgeDeletedPosts } from "@/utils/trash-utils"
+import { recordAuditEvent } from "@/utils/audit-utils"
+
+/**
+ * Esvazia a lixeira: posts excluídos há mais tempo que a retenção configurada
+ * (posts.trashRetentionDays) são removidos definitivamente.
+ */
+
+export interface PurgeDeletedPostsData {}
+
+export default {
+  key: "PurgeDeletedPosts",
+
+  options: {
+    // diariamente às 04:00
+    repeat: { cron: "0 4 * * *" },
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(_job: Job<PurgeDeletedPostsData>) {
+    const purged = await purgeDeletedPosts()
+
+    if (purged > 0) {
+      console.log(
+        `[PurgeDeletedPosts] 🗑️ posts removidos da lixeira: ${purged}`,
+      )
+
+      await recordAuditEvent(null, {
+        actorId: null,
+        action: "post.purge",
+        targetType: "post",
+        after: { purged },
+      })
+    }
+  },
+}
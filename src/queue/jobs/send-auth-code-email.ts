@@ -0,0 +1,49 @@
+import type { Job } from "bull"
+import { env } from "@/env"
+import { Mail } from "@/lib/mail"
+import { redis } from "@/lib/redis"
+import { RequestAuthCodeWithEmailTemplate } from "@/mails"
+import {
+  AUTH_CODE_TTL_SECONDS,
+  authCodeKey,
+  generateAuthCode,
+  hashAuthCode,
+} from "@/utils/auth-utils"
+
+/**
+ * Gera o código de acesso e guarda apenas o HMAC no Redis.
+ * Um novo código substitui o anterior (e zera as tentativas).
+ */
+
+export interface SendAuthCodeEmailData {
+  email: string
+}
+
+export default {
+  key: "SendAuthCodeEmail",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<SendAuthCodeEmailData>) {
+    const { email } = job.data
+    const code = generateAuthCode()
+    const key = authCodeKey(email)
+
+    await redis
+      .multi()
+      .del(key)
+      .hset(key, { hash: hashAuthCode(email, code), attempts: 0 })
+      .expire(key, AUTH_CODE_TTL_SECONDS)
+      .exec()
+
+    await Mail.sendMail({
+      from: env.NODEMAILER_USER,
+      to: email,
+      subject: "Seu código de acesso",
+      html: RequestAuthCodeWithEmailTemplate(code),
+    })
+  },
+}
@@ -0,0 +1,62 @@
+import type { Job } from "bull"
+import { env } from "@/env"
+import { Mail } from "@/lib/mail"
+import { prisma } from "@/lib/prisma"
+import { InviteTemplateEmail } from "@/mails"
+import { generateToken, hashToken } from "@/utils/auth-utils"
+
+/**
+ * Assim como na recuperação de senha, o token é gerado no job para não
+ * passar pelo payload da fila. Um novo envio substitui o token anterior.
+ */
+
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 dias
+
+export interface SendInviteEmailData {
+  inviteId: string
+}
+
+export default {
+  key: "SendInviteEmail",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<SendInviteEmailData>) {
+    const invite = await prisma.invite.findUnique({
+      where: { id: job.data.inviteId },
+      include: { invitedBy: { select: { name: true } } },
+    })
+
+    // revogado, aceito ou expirado antes do envio
+    if (
+      !invite ||
+      invite.acceptedAt ||
+      invite.revokedAt ||
+      invite.expiresAt <= new Date()
+    ) {
+      return
+    }
+
+    const token = generateToken()
+
+    await prisma.invite.update({
+      where: { id: invite.id },
+      data: { tokenHash: hashToken(token) },
+    })
+
+    await Mail.sendMail({
+      from: env.NODEMAILER_USER,
+      to: invite.email,
+      subject: "Convite para o Certifica",
+      html: InviteTemplateEmail({
+        token,
+        role: invite.role,
+        invitedBy: invite.invitedBy?.name ?? null,
+        expiresInDays: Math.round(INVITE_TTL_MS / (24 * 60 * 60 * 1000)),
+      }),
+    })
+  },
+}
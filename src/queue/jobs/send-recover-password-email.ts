@@ -0,0 +1,57 @@
+import type { Job } from "bull"
+import { env } from "@/env"
+import { Mail } from "@/lib/mail"
+import { prisma } from "@/lib/prisma"
+import { RecoverPasswordTemplateEmail } from "@/mails"
+import { generateToken, hashToken } from "@/utils/auth-utils"
+
+/**
+ * O token é gerado aqui (e não na rota) para que o valor em texto puro
+ * nunca passe pelo payload do job no Redis nem pelos logs da fila.
+ * Cada nova solicitação invalida os tokens anteriores ainda não usados.
+ */
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000 // 1 hora
+
+export interface SendRecoverPasswordEmailData {
+  userId: string
+}
+
+export default {
+  key: "SendRecoverPasswordEmail",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<SendRecoverPasswordEmailData>) {
+    const user = await prisma.user.findUnique({
+      where: { id: job.data.userId },
+      select: { id: true, email: true },
+    })
+    if (!user?.email) return
+
+    const token = generateToken()
+
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      }),
+      prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+        },
+      }),
+    ])
+
+    await Mail.sendMail({
+      from: env.NODEMAILER_USER,
+      to: user.email,
+      subject: "Recuperação de senha",
+      html: RecoverPasswordTemplateEmail(token),
+    })
+  },
+}
@@ -0,0 +1,67 @@
+import type { Job } from "bull"
+import { ReviewDecision } from "@prisma/client"
+
+import { env } from "@/env"
+import { Mail } from "@/lib/mail"
+import { prisma } from "@/lib/prisma"
+import { ReviewDecisionTemplateEmail } from "@/mails"
+
+export interface SendReviewDecisionEmailData {
+  reviewId: string
+}
+
+export default {
+  key: "SendReviewDecisionEmail",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<SendReviewDecisionEmailData>) {
+    const review = await prisma.postReview.findUnique({
+      where: { id: job.data.reviewId },
+      select: {
+        decision: true,
+        comment: true,
+        reviewer: { select: { name: true } },
+        post: {
+          select: {
+            title: true,
+            author: { select: { name: true, email: true } },
+          },
+        },
+        _count: { select: { notes: true } },
+      },
+    })
+
+    if (
+      !review ||
+      (review.decision !== ReviewDecision.APPROVED &&
+        review.decision !== ReviewDecision.CHANGES_REQUESTED)
+    ) {
+      return
+    }
+
+    const { author } = review.post
+    if (!author.email) return
+
+    const approved = review.decision === ReviewDecision.APPROVED
+
+    await Mail.sendMail({
+      from: env.NODEMAILER_USER,
+      to: author.email,
+      subject: approved
+        ? `Post aprovado: ${review.post.title}`
+        : `Alterações solicitadas: ${review.post.title}`,
+      html: ReviewDecisionTemplateEmail({
+        author: author.name,
+        reviewer: review.reviewer?.name ?? "O revisor",
+        title: review.post.title,
+        approved,
+        comment: review.comment,
+        notesCount: review._count.notes,
+      }),
+    })
+  },
+}
@@ -0,0 +1,49 @@
+import type { Job } from "bull"
+import { ReviewDecision } from "@prisma/client"
+
+import { env } from "@/env"
+import { Mail } from "@/lib/mail"
+import { prisma } from "@/lib/prisma"
+import { ReviewRequestTemplateEmail } from "@/mails"
+
+export interface SendReviewRequestEmailData {
+  reviewId: string
+}
+
+export default {
+  key: "SendReviewRequestEmail",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<SendReviewRequestEmailData>) {
+    const review = await prisma.postReview.findUnique({
+      where: { id: job.data.reviewId },
+      select: {
+        decision: true,
+        message: true,
+        post: { select: { title: true } },
+        reviewer: { select: { name: true, email: true } },
+        requestedBy: { select: { name: true } },
+      },
+    })
+
+    // revisão já decidida/cancelada antes do envio: nada a avisar
+    if (!review || review.decision !== ReviewDecision.PENDING) return
+    if (!review.reviewer?.email) return
+
+    await Mail.sendMail({
+      from: env.NODEMAILER_USER,
+      to: review.reviewer.email,
+      subject: `Revisão solicitada: ${review.post.title}`,
+      html: ReviewRequestTemplateEmail({
+        reviewer: review.reviewer.name,
+        requestedBy: review.requestedBy?.name ?? "Um autor",
+        title: review.post.title,
+        message: review.message,
+      }),
+    })
+  },
+}
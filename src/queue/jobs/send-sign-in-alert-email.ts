@@ -0,0 +1,41 @@
+import type { Job } from "bull"
+import { env } from "@/env"
+import { Mail } from "@/lib/mail"
+import { prisma } from "@/lib/prisma"
+import { SignInAlertTemplateEmail } from "@/mails"
+
+export interface SendSignInAlertEmailData {
+  userId: string
+  ip: string
+  failures: number
+}
+
+export default {
+  key: "SendSignInAlertEmail",
+
+  options: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+
+  async handle(job: Job<SendSignInAlertEmailData>) {
+    const user = await prisma.user.findUnique({
+      where: { id: job.data.userId },
+      select: { email: true },
+    })
+    if (!user?.email) return
+
+    await Mail.sendMail({
+      from: env.NODEMAILER_USER,
+      to: user.email,
+      subject: "Tentativas de login na sua conta",
+      html: SignInAlertTemplateEmail({
+        failures: job.data.failures,
+        ip: job.data.ip,
+        date: new Date(job.timestamp).toLocaleString("pt-BR", {
+          timeZone: "America/Sao_Paulo",
+        }),
+      }),
+    })
+  },
+}
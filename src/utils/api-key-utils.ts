@@ -0,0 +1,37 @@
+import { generateToken, hashToken } from "@/utils/auth-utils"
+
+/** Escopos que uma API key pode receber */
+export const API_KEY_SCOPES = [
+  "users:read",
+  "users:write",
+  "posts:read",
+  "posts:write",
+  "media:write",
+  "analytics:read",
+] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+const API_KEY_PREFIX = "ck_"
+
+/**
+ * Gera uma nova chave no formato `ck_<hex>`.
+ * Só o hash é persistido; a chave completa é exibida uma única vez.
+ */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${generateToken(24)}`
+
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+    keyHash: hashApiKey(key),
+  }
+}
+
+export function hashApiKey(key: string) {
+  return hashToken(key)
+}
+
+export function hasScopes(granted: string[], required: ApiKeyScope[]) {
+  return required.every((scope) => granted.includes(scope))
+}
@@ -0,0 +1,133 @@
+import type { FastifyRequest } from "fastify"
+import type { Prisma } from "@prisma/client"
+
+import { prisma } from "@/lib/prisma"
+import { getClientIp } from "@/utils/auth-utils"
+
+type Snapshot = Record<string, unknown>
+
+export type AuditDiff = Record<string, { from: unknown; to: unknown }>
+
+export interface AuditEventInput {
+  actorId: string | null
+  action: string
+  targetType: string
+  targetId?: string | null
+  before?: Snapshot | null
+  after?: Snapshot | null
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (value === undefined) return null
+  return value
+}
+
+/** Apenas os campos alterados; `before`/`after` nulos representam criação/remoção */
+export function diffSnapshots(
+  before?: Snapshot | null,
+  after?: Snapshot | null,
+): AuditDiff {
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ])
+  const diff: AuditDiff = {}
+
+  for (const key of keys) {
+    const from = normalize(before?.[key])
+    const to = normalize(after?.[key])
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[key] = { from, to }
+    }
+  }
+
+  return diff
+}
+
+/**
+ * Registra um evento de auditoria. Falhas aqui são apenas logadas:
+ * a auditoria não deve derrubar a operação que já foi concluída.
+ * `request` é opcional para eventos disparados por jobs.
+ */
+export async function recordAuditEvent(
+  request: FastifyRequest | null,
+  event: AuditEventInput,
+) {
+  const diff = diffSnapshots(event.before, event.after)
+
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: event.actorId,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId ?? null,
+        diff:
+          Object.keys(diff).length > 0
+            ? (diff as Prisma.InputJsonValue)
+            : undefined,
+        ip: request ? getClientIp(request).slice(0, 45) : null,
+        userAgent: request
+          ? ((request.headers["user-agent"] as string) ?? "").slice(0, 300) ||
+            null
+          : null,
+      },
+    })
+  } catch (err) {
+    console.error("[Audit] falha ao registrar evento", event.action, err)
+  }
+}
+
+/** Recorta apenas os campos relevantes para o diff */
+export function snapshot<T extends object, K extends keyof T>(
+  obj: T,
+  keys: readonly K[],
+): Snapshot {
+  const out: Snapshot = {}
+  for (const key of keys) out[key as string] = obj[key]
+  return out
+}
+
+export const POST_AUDIT_FIELDS = [
+  "title",
+  "slug",
+  "excerpt",
+  "coverId",
+  "status",
+  "visibility",
+  "publishedAt",
+  "scheduledFor",
+] as const
+
+export const USER_AUDIT_FIELDS = [
+  "name",
+  "username",
+  "email",
+  "role",
+  "description",
+  "website",
+  "linkedinHandle",
+  "twitterHandle",
+] as const
+
+/** Campos de USER_AUDIT_FIELDS que identificam a pessoa (o papel não) */
+export const USER_PERSONAL_AUDIT_FIELDS = USER_AUDIT_FIELDS.filter(
+  (field) => field !== "role",
+)
+
+const REDACTED = "[removido]"
+
+/** Substitui os valores dos campos informados, mantendo o registro de que mudaram */
+export function redactAuditDiff(diff: AuditDiff, fields: readonly string[]) {
+  const out: AuditDiff = {}
+  for (const [key, change] of Object.entries(diff)) {
+    out[key] = fields.includes(key)
+      ? {
+          from: change.from === null ? null : REDACTED,
+          to: change.to === null ? null : REDACTED,
+        }
+      : change
+  }
+  return out
+}
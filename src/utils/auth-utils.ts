@@ -0,0 +1,160 @@
+import crypto from "crypto"
+import type { FastifyReply, FastifyRequest } from "fastify"
+
+import { env } from "@/env"
+import { prisma } from "@/lib/prisma"
+import { redis } from "@/lib/redis"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { Role } from "@prisma/client"
+
+/** Token opaco e aleatório (hex) para links enviados por e-mail */
+export function generateToken(bytes = 32) {
+  return crypto.randomBytes(bytes).toString("hex")
+}
+
+/** Apenas o hash é persistido; o token em si só existe no e-mail do usuário */
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex")
+}
+
+type SystemAccessUser = { role: Role; deactivatedAt: Date | null }
+
+/** Somente ADMIN e EDITOR com conta ativa acessam o sistema */
+export function canAccessSystem(user: SystemAccessUser) {
+  return (
+    !user.deactivatedAt &&
+    (user.role === Role.ADMIN || user.role === Role.EDITOR)
+  )
+}
+
+export function assertCanAccessSystem(user: SystemAccessUser) {
+  if (user.deactivatedAt) {
+    throw new UnauthorizedError("Conta desativada.")
+  }
+  if (!canAccessSystem(user)) {
+    throw new UnauthorizedError(
+      "Você não tem permissão para acessar o sistema.",
+    )
+  }
+}
+
+/**
+ * Sessões: access token (JWT curto, carrega o id da sessão em `sid`)
+ * + refresh token opaco e rotativo, guardado apenas como hash em `Session`.
+ */
+export const ACCESS_TOKEN_TTL = "15m"
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000 // 30 dias
+
+export function signAccessToken(
+  reply: FastifyReply,
+  userId: string,
+  sessionId: string,
+) {
+  return reply.jwtSign(
+    {
+      sub: userId,
+      sid: sessionId,
+    },
+    {
+      sign: {
+        expiresIn: ACCESS_TOKEN_TTL,
+      },
+    },
+  )
+}
+
+export function getClientIp(request: FastifyRequest) {
+  // nunca ler X-Forwarded-For direto: o cliente escolheria o IP (ver trustProxy)
+  return request.ip || "0.0.0.0"
+}
+
+/** Abre uma nova sessão e devolve o par access/refresh token */
+export async function createSession(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  userId: string,
+) {
+  const refreshToken = generateToken()
+  const ua = (request.headers["user-agent"] as string) ?? ""
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: ua.slice(0, 300) || null,
+      ip: getClientIp(request).slice(0, 45),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+    select: { id: true },
+  })
+
+  const token = await signAccessToken(reply, userId, session.id)
+
+  return { token, refreshToken }
+}
+
+/** Revoga todas as sessões ativas do usuário (opcionalmente preservando uma) */
+export function revokeUserSessions(userId: string, exceptSessionId?: string) {
+  return prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { NOT: { id: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  })
+}
+
+/**
+ * Login por código enviado por e-mail.
+ * Chaves no Redis:
+ * - auth:code:<email>    (HASH { hash, attempts }, TTL = AUTH_CODE_TTL_SECONDS)
+ * - auth:code:rl:<email> (contador de solicitações na janela de rate limit)
+ */
+export const AUTH_CODE_TTL_SECONDS = 60 * 10 // 10 minutos
+export const AUTH_CODE_MAX_ATTEMPTS = 5
+export const AUTH_CODE_REQUEST_LIMIT = 3
+export const AUTH_CODE_REQUEST_WINDOW_SECONDS = 60 * 15
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+export function authCodeKey(email: string) {
+  return `auth:code:${normalizeEmail(email)}`
+}
+
+export function authCodeRateLimitKey(email: string) {
+  return `auth:code:rl:${normalizeEmail(email)}`
+}
+
+export function generateAuthCode() {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, "0")
+}
+
+/** HMAC com o segredo do servidor: 6 dígitos não resistem a força bruta com SHA puro */
+export function hashAuthCode(email: string, code: string) {
+  return crypto
+    .createHmac("sha256", env.JWT_SECRET)
+    .update(`${normalizeEmail(email)}:${code}`)
+    .digest("hex")
+}
+
+// HINCRBY numa chave já expirada criaria um hash novo, sem TTL, que nunca sairia do Redis
+const INCREMENT_IF_EXISTS_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return 0 end
+return redis.call("HINCRBY", KEYS[1], ARGV[1], 1)
+`
+
+/** Conta uma tentativa errada no hash; retorna 0 se a chave já expirou */
+export async function incrementAttempts(key: string) {
+  return Number(
+    await redis.eval(INCREMENT_IF_EXISTS_SCRIPT, 1, key, "attempts"),
+  )
+}
+
+export function safeCompare(a: string, b: string) {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB)
+}
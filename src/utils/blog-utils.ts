@@ -1,11 +1,24 @@
+import type { Prisma } from "@prisma/client"
+
 import { prisma } from "@/lib/prisma"
+import { blockPlainText, isCurrentContent } from "@/utils/content-utils"
 
 /**
- * Extrai texto simples de um JSON arbitrário de editor.
- * Estratégia defensiva: procura campos "text" recursivamente; se nada encontrado,
- * fallback para stringificar e limpar.
+ * Extrai texto simples do conteúdo do post.
+ * Documentos no schema atual são lidos bloco a bloco; para os antigos a
+ * estratégia é defensiva: procura campos "text" recursivamente e, se nada
+ * for encontrado, stringifica e limpa.
  */
 export function jsonToPlainText(content: unknown): string {
+  if (isCurrentContent(content)) {
+    return content.blocks
+      .map(blockPlainText)
+      .filter(Boolean)
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim()
+  }
+
   const out: string[] = []
   const visit = (node: any) => {
     if (!node) return
@@ -67,8 +80,75 @@ export async function makeUniqueSlug(base: string) {
 
   // tenta até encontrar um slug livre
   while (true) {
-    const exists = await prisma.post.findUnique({ where: { slug: candidate } })
-    if (!exists) return candidate
+    if (!(await isSlugTaken(candidate))) return candidate
     candidate = `${base}-${suffix++}`
   }
 }
+
+/**
+ * Slug em uso por outro post ou reservado por um redirect de outro post.
+ * Redirects do próprio post não bloqueiam: ele pode voltar a um slug antigo.
+ */
+export async function isSlugTaken(slug: string, exceptPostId?: string) {
+  const [post, redirect] = await Promise.all([
+    prisma.post.findFirst({
+      where: {
+        slug,
+        ...(exceptPostId ? { NOT: { id: exceptPostId } } : {}),
+      },
+      select: { id: true },
+    }),
+    prisma.slugRedirect.findFirst({
+      where: {
+        slug,
+        ...(exceptPostId ? { NOT: { postId: exceptPostId } } : {}),
+      },
+      select: { id: true },
+    }),
+  ])
+  return Boolean(post || redirect)
+}
+
+/**
+ * Substitui categorias e tags do post pelos nomes informados
+ * (deduplicados por slug; nomes existentes são preservados).
+ */
+export async function replacePostTaxonomy(
+  tx: Prisma.TransactionClient,
+  postId: string,
+  names: { categoryNames: string[]; tagNames: string[] },
+) {
+  const unique = (list: string[]) =>
+    Array.from(
+      new Map(
+        list
+          .map((name) => ({ name: name.trim(), slug: slugify(name) }))
+          .filter(({ name, slug }) => name.length > 0 && slug.length > 0)
+          .map((item) => [item.slug, item]),
+      ).values(),
+    )
+
+  await tx.categoryOnPosts.deleteMany({ where: { postId } })
+  for (const { name, slug } of unique(names.categoryNames)) {
+    const category = await tx.category.upsert({
+      where: { slug },
+      update: {},
+      create: { name, slug },
+      select: { id: true },
+    })
+    await tx.categoryOnPosts.create({
+      data: { postId, categoryId: category.id },
+    })
+  }
+
+  await tx.tagOnPosts.deleteMany({ where: { postId } })
+  for (const { name, slug } of unique(names.tagNames)) {
+    const tag = await tx.tag.upsert({
+      where: { slug },
+      update: {},
+      create: { name, slug },
+      select: { id: true },
+    })
+    await tx.tagOnPosts.create({ data: { postId, tagId: tag.id } })
+  }
+}
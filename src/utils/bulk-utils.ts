@@ -0,0 +1,493 @@
+import { z } from "zod"
+import {
+  BulkOperationStatus,
+  ContributorRole,
+  PostStatus,
+  Role,
+  Visibility,
+  type Prisma,
+} from "@prisma/client"
+
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { ForbiddenError } from "@/http/_errors/forbidden-error"
+import { NotFoundError } from "@/http/_errors/not-found-error"
+import { isoOrNull, slugify } from "@/utils/blog-utils"
+import { assertCan, can, type AuthUser } from "@/utils/permissions"
+import { POST_OWNERS_SELECT, postOwnerIds } from "@/utils/contributor-utils"
+import { assertPostTransition } from "@/utils/post-workflow-utils"
+import {
+  ensureBaselineRevision,
+  recordPostRevision,
+} from "@/utils/revision-utils"
+import {
+  POST_AUDIT_FIELDS,
+  recordAuditEvent,
+  snapshot,
+} from "@/utils/audit-utils"
+
+/**
+ * Operações em lote sobre posts. Cada item passa pelas mesmas regras da
+ * edição (`post:edit` + fluxo editorial) ou da exclusão (`post:delete`);
+ * um item recusado vira uma falha no relatório e não interrompe o lote.
+ * Seleções pequenas rodam na própria requisição, as demais na fila.
+ */
+
+// até aqui a operação roda na requisição; acima vai para a fila
+export const BULK_INLINE_LIMIT = 25
+export const BULK_MAX_ITEMS = 5000
+// limita o tamanho do JSON de falhas; a contagem continua exata
+const MAX_FAILURE_ENTRIES = 500
+// frequência da gravação do progresso
+const PROGRESS_EVERY = 10
+
+const taxonomyNames = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, "nome vazio")
+      .max(60, "nome muito longo")
+      .refine((name) => slugify(name).length > 0, "nome inválido"),
+  )
+  .min(1)
+  .max(20)
+
+export const bulkOperationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("setStatus"),
+    // IN_REVIEW só pelo envio para revisão, que define os revisores
+    status: z.enum([
+      PostStatus.DRAFT,
+      PostStatus.SCHEDULED,
+      PostStatus.PUBLISHED,
+    ]),
+    scheduledFor: z.string().datetime().optional(),
+  }),
+  z.object({
+    type: z.literal("setVisibility"),
+    visibility: z.nativeEnum(Visibility),
+  }),
+  z.object({ type: z.literal("addTags"), names: taxonomyNames }),
+  z.object({ type: z.literal("removeTags"), names: taxonomyNames }),
+  z.object({ type: z.literal("addCategories"), names: taxonomyNames }),
+  z.object({ type: z.literal("removeCategories"), names: taxonomyNames }),
+  z.object({
+    type: z.literal("reassignAuthor"),
+    authorId: z.string().uuid(),
+  }),
+  z.object({ type: z.literal("delete") }),
+])
+
+export type BulkOperationInput = z.infer<typeof bulkOperationSchema>
+
+type BulkActor = Pick<AuthUser, "id" | "role">
+
+type BulkFailure = { postId: string; message: string }
+
+export type BulkProgress = {
+  processed: number
+  succeeded: number
+  failed: number
+}
+
+export const bulkOperationViewSchema = z.object({
+  id: z.string().uuid(),
+  status: z.nativeEnum(BulkOperationStatus),
+  operation: z.string(),
+  params: z.record(z.string(), z.unknown()),
+  total: z.number().int(),
+  processed: z.number().int(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  progress: z.number().min(0).max(100), // percentual processado
+  failures: z.array(z.object({ postId: z.string(), message: z.string() })),
+  error: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  startedAt: z.string().datetime().nullable(),
+  completedAt: z.string().datetime().nullable(),
+})
+
+export function toBulkOperationView(
+  row: Prisma.PostBulkOperationGetPayload<object>,
+): z.infer<typeof bulkOperationViewSchema> {
+  return {
+    id: row.id,
+    status: row.status,
+    operation: row.operation,
+    params: row.params as Record<string, unknown>,
+    total: row.total,
+    processed: row.processed,
+    succeeded: row.succeeded,
+    failed: row.failed,
+    progress:
+      row.total > 0 ? Math.floor((row.processed / row.total) * 100) : 100,
+    failures: (row.failures as BulkFailure[] | null) ?? [],
+    error: row.error,
+    createdAt: row.createdAt.toISOString(),
+    startedAt: isoOrNull(row.startedAt),
+    completedAt: isoOrNull(row.completedAt),
+  }
+}
+
+/** Validações que não dependem do post: falham o pedido inteiro, não os itens */
+export async function assertBulkOperation(
+  actor: BulkActor,
+  input: BulkOperationInput,
+) {
+  if (input.type === "setStatus") {
+    if (input.status === PostStatus.SCHEDULED) {
+      if (!input.scheduledFor) {
+        throw new BadRequestError("Posts agendados requerem 'scheduledFor'.")
+      }
+      if (new Date(input.scheduledFor) <= new Date()) {
+        throw new BadRequestError("'scheduledFor' deve ser no futuro.")
+      }
+    }
+  }
+
+  if (input.type === "reassignAuthor") {
+    // sem dono informado, só quem edita posts de qualquer autor passa
+    if (!can(actor, "post:edit", null)) {
+      throw new ForbiddenError(
+        "Você não pode transferir posts para outros autores.",
+      )
+    }
+
+    const author = await prisma.user.findUnique({
+      where: { id: input.authorId },
+      select: { role: true, deactivatedAt: true },
+    })
+    if (!author || author.deactivatedAt) {
+      throw new NotFoundError("Autor não encontrado.")
+    }
+    if (author.role === Role.USER) {
+      throw new BadRequestError("O novo autor precisa ser editor ou admin.")
+    }
+  }
+}
+
+async function upsertTaxonomyIds(
+  tx: Prisma.TransactionClient,
+  kind: "tag" | "category",
+  names: string[],
+) {
+  const unique = new Map(names.map((name) => [slugify(name), name]))
+  const ids: string[] = []
+
+  for (const [slug, name] of unique) {
+    const row =
+      kind === "tag"
+        ? await tx.tag.upsert({
+            where: { slug },
+            update: {},
+            create: { name, slug },
+            select: { id: true },
+          })
+        : await tx.category.upsert({
+            where: { slug },
+            update: {},
+            create: { name, slug },
+            select: { id: true },
+          })
+    ids.push(row.id)
+  }
+
+  return ids
+}
+
+/** Aplica a operação a um post; lança o erro que vai para o relatório */
+async function applyToPost(
+  actor: BulkActor,
+  input: BulkOperationInput,
+  postId: string,
+) {
+  const existing = await prisma.post.findUnique({
+    where: { id: postId, deletedAt: null },
+    select: {
+      id: true,
+      ...POST_OWNERS_SELECT,
+      title: true,
+      slug: true,
+      excerpt: true,
+      coverId: true,
+      status: true,
+      visibility: true,
+      publishedAt: true,
+      scheduledFor: true,
+      approvedAt: true,
+    },
+  })
+  if (!existing) throw new NotFoundError("Post não encontrado.")
+
+  if (input.type === "delete") {
+    assertCan(
+      actor,
+      "post:delete",
+      postOwnerIds(existing),
+      "Você não pode deletar posts de outros autores.",
+    )
+
+    await prisma.post.update({
+      where: { id: existing.id },
+      data: { deletedAt: new Date() },
+    })
+
+    await recordAuditEvent(null, {
+      actorId: actor.id,
+      action: "post.delete",
+      targetType: "post",
+      targetId: existing.id,
+      before: snapshot(existing, POST_AUDIT_FIELDS),
+    })
+    return
+  }
+
+  assertCan(
+    actor,
+    "post:edit",
+    postOwnerIds(existing),
+    "Você não pode editar posts de outros autores.",
+  )
+
+  if (input.type === "reassignAuthor") {
+    if (existing.authorId === input.authorId) return
+
+    // o novo autor principal deixa de constar como coautor
+    await prisma.$transaction([
+      prisma.post.update({
+        where: { id: existing.id },
+        data: { authorId: input.authorId },
+      }),
+      prisma.postContributor.deleteMany({
+        where: {
+          postId: existing.id,
+          userId: input.authorId,
+          role: ContributorRole.AUTHOR,
+        },
+      }),
+    ])
+
+    await recordAuditEvent(null, {
+      actorId: actor.id,
+      action: "post.author.change",
+      targetType: "post",
+      targetId: existing.id,
+      before: { authorId: existing.authorId },
+      after: { authorId: input.authorId },
+    })
+    return
+  }
+
+  let data: Prisma.PostUpdateInput = {}
+
+  if (input.type === "setStatus") {
+    if (
+      existing.status === input.status &&
+      input.status !== PostStatus.SCHEDULED
+    ) {
+      return
+    }
+
+    // mesmas regras de status/datas da edição individual
+    assertPostTransition(existing.status, input.status, {
+      approved: !!existing.approvedAt,
+      via: "edit",
+    })
+
+    if (input.status === PostStatus.SCHEDULED) {
+      data = {
+        status: input.status,
+        scheduledFor: new Date(input.scheduledFor!),
+        publishedAt: null,
+      }
+    } else if (input.status === PostStatus.PUBLISHED) {
+      data = {
+        status: input.status,
+        publishedAt: existing.publishedAt ?? new Date(),
+        scheduledFor: null,
+      }
+    } else {
+      data = {
+        status: input.status,
+        publishedAt: null,
+        scheduledFor: null,
+        approvedAt: null,
+      }
+    }
+  }
+
+  if (input.type === "setVisibility") {
+    if (existing.visibility === input.visibility) return
+    data = { visibility: input.visibility }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await ensureBaselineRevision(tx, existing.id, existing.authorId)
+
+    const post = await tx.post.update({
+      where: { id: existing.id },
+      data,
+    })
+
+    if (input.type === "addTags") {
+      const tagIds = await upsertTaxonomyIds(tx, "tag", input.names)
+      await tx.tagOnPosts.createMany({
+        data: tagIds.map((tagId) => ({ postId: post.id, tagId })),
+        skipDuplicates: true,
+      })
+    }
+
+    if (input.type === "removeTags") {
+      await tx.tagOnPosts.deleteMany({
+        where: {
+          postId: post.id,
+          tag: { slug: { in: input.names.map(slugify) } },
+        },
+      })
+    }
+
+    if (input.type === "addCategories") {
+      const categoryIds = await upsertTaxonomyIds(tx, "category", input.names)
+      await tx.categoryOnPosts.createMany({
+        data: categoryIds.map((categoryId) => ({
+          postId: post.id,
+          categoryId,
+        })),
+        skipDuplicates: true,
+      })
+    }
+
+    if (input.type === "removeCategories") {
+      await tx.categoryOnPosts.deleteMany({
+        where: {
+          postId: post.id,
+          category: { slug: { in: input.names.map(slugify) } },
+        },
+      })
+    }
+
+    await recordPostRevision(tx, post.id, actor.id)
+
+    return post
+  })
+
+  await recordAuditEvent(null, {
+    actorId: actor.id,
+    action:
+      updated.status === PostStatus.PUBLISHED &&
+      existing.status !== PostStatus.PUBLISHED
+        ? "post.publish"
+        : "post.update",
+    targetType: "post",
+    targetId: updated.id,
+    before: snapshot(existing, POST_AUDIT_FIELDS),
+    after: snapshot(updated, POST_AUDIT_FIELDS),
+  })
+}
+
+// erros esperados por item (permissão, fluxo editorial) vão para o relatório
+function isItemError(err: unknown): err is Error {
+  return (
+    err instanceof BadRequestError ||
+    err instanceof ForbiddenError ||
+    err instanceof NotFoundError
+  )
+}
+
+/**
+ * Processa uma operação PENDING (claim condicional: roda uma única vez).
+ * `onProgress` é chamado a cada gravação do progresso.
+ */
+export async function runPostBulkOperation(
+  operationId: string,
+  onProgress?: (progress: BulkProgress, total: number) => unknown,
+) {
+  const claimed = await prisma.postBulkOperation.updateMany({
+    where: { id: operationId, status: BulkOperationStatus.PENDING },
+    data: { status: BulkOperationStatus.PROCESSING, startedAt: new Date() },
+  })
+  if (claimed.count === 0) return
+
+  const row = await prisma.postBulkOperation.findUniqueOrThrow({
+    where: { id: operationId },
+  })
+
+  const progress: BulkProgress = { processed: 0, succeeded: 0, failed: 0 }
+  const failures: BulkFailure[] = []
+
+  const saveProgress = async (extra: Prisma.PostBulkOperationUpdateInput) => {
+    await prisma.postBulkOperation.update({
+      where: { id: row.id },
+      data: {
+        ...progress,
+        failures: failures.length > 0 ? failures : undefined,
+        ...extra,
+      },
+    })
+    await onProgress?.(progress, row.total)
+  }
+
+  try {
+    const input = bulkOperationSchema.parse({
+      ...(row.params as Record<string, unknown>),
+      type: row.operation,
+    })
+
+    // permissões do momento da execução: o cargo pode ter mudado desde o pedido
+    const actor = row.requestedById
+      ? await prisma.user.findUnique({
+          where: { id: row.requestedById },
+          select: { id: true, role: true, deactivatedAt: true },
+        })
+      : null
+    if (!actor || actor.deactivatedAt) {
+      throw new ForbiddenError("Solicitante sem acesso.")
+    }
+
+    await assertBulkOperation(actor, input)
+
+    for (const postId of row.postIds) {
+      try {
+        await applyToPost(actor, input, postId)
+        progress.succeeded++
+      } catch (err) {
+        progress.failed++
+        if (!isItemError(err)) {
+          console.error(`[PostBulkOperation] ❌ ${row.id} post ${postId}`, err)
+        }
+        if (failures.length < MAX_FAILURE_ENTRIES) {
+          failures.push({
+            postId,
+            message: isItemError(err)
+              ? err.message
+              : "Erro inesperado ao processar o post.",
+          })
+        }
+      }
+
+      progress.processed++
+      if (progress.processed % PROGRESS_EVERY === 0) await saveProgress({})
+    }
+
+    await saveProgress({
+      status: BulkOperationStatus.COMPLETED,
+      completedAt: new Date(),
+    })
+
+    await recordAuditEvent(null, {
+      actorId: actor.id,
+      action: "post.bulk",
+      targetType: "post_bulk_operation",
+      targetId: row.id,
+      after: { operation: row.operation, total: row.total, ...progress },
+    })
+  } catch (err) {
+    await saveProgress({
+      status: BulkOperationStatus.FAILED,
+      completedAt: new Date(),
+      error: (err instanceof Error ? err.message : String(err)).slice(0, 500),
+    })
+    throw err
+  }
+}
@@ -0,0 +1,575 @@
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { ValidationError } from "@/http/_errors/validation-error"
+import { jsonToPlainText } from "@/utils/blog-utils"
+
+/**
+ * Documento de conteúdo do post (Post.content), em blocos e versionado.
+ * Ao mudar o formato: suba CONTENT_SCHEMA_VERSION e ensine `upgradeContent`
+ * a converter a versão anterior (o job MigratePostContent aplica nos dados).
+ */
+export const CONTENT_SCHEMA_VERSION = 1
+
+export const MARKS = ["bold", "italic", "underline", "strike", "code"] as const
+
+const inlineSchema = z.object({
+  text: z.string().max(20_000),
+  marks: z.array(z.enum(MARKS)).max(MARKS.length).optional(),
+  href: z.string().url().max(2000).optional(),
+})
+
+const inlinesSchema = z.array(inlineSchema).max(1000)
+
+const paragraphBlock = z.object({
+  type: z.literal("paragraph"),
+  children: inlinesSchema,
+})
+
+const headingBlock = z.object({
+  type: z.literal("heading"),
+  level: z.number().int().min(2).max(4), // h1 é o título do post
+  children: inlinesSchema,
+})
+
+const imageBlock = z.object({
+  type: z.literal("image"),
+  mediaId: z.string().uuid(),
+  alt: z.string().max(300),
+  caption: z.string().max(500).optional(),
+})
+
+const quoteBlock = z.object({
+  type: z.literal("quote"),
+  children: inlinesSchema,
+  cite: z.string().max(300).optional(),
+})
+
+const codeBlock = z.object({
+  type: z.literal("code"),
+  language: z.string().max(40).optional(),
+  code: z.string().max(50_000),
+})
+
+export const EMBED_PROVIDERS = [
+  "youtube",
+  "vimeo",
+  "twitter",
+  "instagram",
+  "spotify",
+] as const
+
+const embedBlock = z.object({
+  type: z.literal("embed"),
+  provider: z.enum(EMBED_PROVIDERS),
+  url: z.string().url().startsWith("https://").max(2000),
+  caption: z.string().max(500).optional(),
+})
+
+const listBlock = z.object({
+  type: z.literal("list"),
+  style: z.enum(["ordered", "unordered"]),
+  items: z
+    .array(z.object({ children: inlinesSchema }))
+    .min(1)
+    .max(500),
+})
+
+const tableBlock = z.object({
+  type: z.literal("table"),
+  // primeira linha como cabeçalho
+  header: z.boolean().default(false),
+  rows: z
+    .array(
+      z
+        .array(z.object({ children: inlinesSchema }))
+        .min(1)
+        .max(20),
+    )
+    .min(1)
+    .max(200),
+})
+
+export const contentBlockSchema = z.discriminatedUnion("type", [
+  paragraphBlock,
+  headingBlock,
+  imageBlock,
+  quoteBlock,
+  codeBlock,
+  embedBlock,
+  listBlock,
+  tableBlock,
+])
+
+export const postContentSchema = z.object({
+  version: z.literal(CONTENT_SCHEMA_VERSION),
+  blocks: z.array(contentBlockSchema).max(5000),
+})
+
+export type ContentInline = z.infer<typeof inlineSchema>
+export type ContentBlock = z.infer<typeof contentBlockSchema>
+export type PostContent = z.infer<typeof postContentSchema>
+
+/** ["blocks", 3, "children", 0] → "content.blocks[3].children[0]" */
+function toJsonPath(root: string, path: PropertyKey[]) {
+  return path.reduce<string>(
+    (acc, key) =>
+      typeof key === "number" ? `${acc}[${key}]` : `${acc}.${String(key)}`,
+    root,
+  )
+}
+
+/**
+ * Valida o documento e devolve a versão normalizada.
+ * Erros saem com o caminho JSON de cada problema (ex.: content.blocks[2].level).
+ */
+export function parsePostContent(input: unknown, root = "content") {
+  const result = postContentSchema.safeParse(input)
+  if (result.success) return result.data
+
+  throw new ValidationError(
+    "Conteúdo do post inválido.",
+    result.error.issues.map((issue) => ({
+      path: toJsonPath(root, issue.path),
+      message: issue.message,
+    })),
+  )
+}
+
+/** Todas as mídias referenciadas por blocos de imagem precisam existir */
+export async function assertContentMediaExists(
+  content: PostContent,
+  root = "content",
+) {
+  const refs = content.blocks.flatMap((block, index) =>
+    block.type === "image" ? [{ index, mediaId: block.mediaId }] : [],
+  )
+  if (refs.length === 0) return
+
+  const found = await prisma.media.findMany({
+    where: { id: { in: [...new Set(refs.map((r) => r.mediaId))] } },
+    select: { id: true },
+  })
+  const existing = new Set(found.map((m) => m.id))
+
+  const missing = refs.filter((r) => !existing.has(r.mediaId))
+  if (missing.length > 0) {
+    throw new ValidationError(
+      "Conteúdo do post inválido.",
+      missing.map((r) => ({
+        path: `${root}.blocks[${r.index}].mediaId`,
+        message: "mídia não encontrada",
+      })),
+    )
+  }
+}
+
+export function isCurrentContent(input: unknown): input is PostContent {
+  return postContentSchema.safeParse(input).success
+}
+
+const inlineText = (children: ContentInline[]) =>
+  children.map((c) => c.text).join("")
+
+/** Texto de um bloco, para busca, contagem de palavras e resumo */
+export function blockPlainText(block: ContentBlock): string {
+  switch (block.type) {
+    case "paragraph":
+    case "heading":
+      return inlineText(block.children)
+    case "quote":
+      return [inlineText(block.children), block.cite].filter(Boolean).join(" ")
+    case "image":
+      return block.caption ?? ""
+    case "code":
+      return block.code
+    case "embed":
+      return block.caption ?? ""
+    case "list":
+      return block.items.map((item) => inlineText(item.children)).join(" ")
+    case "table":
+      return block.rows
+        .map((row) => row.map((cell) => inlineText(cell.children)).join(" "))
+        .join(" ")
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Migração de documentos antigos
+// ---------------------------------------------------------------------------
+
+type ResolveMediaId = (url: string) => Promise<string | null>
+
+/** Documentos antigos referenciam imagens por URL; o schema atual usa a Media */
+export async function resolveMediaIdByUrl(url: string) {
+  const media = await prisma.media.findFirst({
+    where: { url },
+    select: { id: true },
+  })
+  return media?.id ?? null
+}
+
+export type UpgradeResult = {
+  content: PostContent
+  // avisos do que não pôde ser convertido fielmente
+  warnings: string[]
+}
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+
+const textInline = (text: string): ContentInline[] => (text ? [{ text }] : [])
+
+const paragraph = (text: string): ContentBlock => ({
+  type: "paragraph",
+  children: textInline(text),
+})
+
+export function detectEmbedProvider(url: string) {
+  const host = (() => {
+    try {
+      return new URL(url).hostname.replace(/^www\./, "")
+    } catch {
+      return ""
+    }
+  })()
+  if (host.endsWith("youtube.com") || host === "youtu.be") return "youtube"
+  if (host.endsWith("vimeo.com")) return "vimeo"
+  if (host === "twitter.com" || host === "x.com") return "twitter"
+  if (host.endsWith("instagram.com")) return "instagram"
+  if (host.endsWith("spotify.com")) return "spotify"
+  return null
+}
+
+// Formatos antigos: validados só no que a conversão lê (o resto passa adiante),
+// para que documentos malformados falhem na validação e não no meio da conversão
+type LegacyAttrs = Record<string, unknown>
+
+const legacyAttrsSchema = z.record(z.string(), z.unknown())
+
+type ProseMirrorNode = {
+  type?: string
+  text?: string
+  attrs?: LegacyAttrs
+  marks?: { type?: string; attrs?: LegacyAttrs }[]
+  content?: ProseMirrorNode[]
+}
+
+const proseMirrorNodeSchema: z.ZodType<ProseMirrorNode> = z.lazy(() =>
+  z
+    .object({
+      type: z.string().optional(),
+      text: z.string().optional(),
+      attrs: legacyAttrsSchema.optional(),
+      marks: z
+        .array(
+          z
+            .object({
+              type: z.string().optional(),
+              attrs: legacyAttrsSchema.optional(),
+            })
+            .passthrough(),
+        )
+        .optional(),
+      content: z.array(proseMirrorNodeSchema).optional(),
+    })
+    .passthrough(),
+)
+
+const editorJsBlocksSchema = z.array(
+  z
+    .object({
+      type: z.string().optional(),
+      data: legacyAttrsSchema.default({}),
+    })
+    .passthrough(),
+)
+
+type EditorJsBlock = z.infer<typeof editorJsBlocksSchema>[number]
+
+function parseLegacy<T>(schema: z.ZodType<T>, input: unknown, root: string) {
+  const result = schema.safeParse(input)
+  if (result.success) return result.data
+
+  throw new ValidationError(
+    "Conteúdo antigo inválido.",
+    result.error.issues.map((issue) => ({
+      path: toJsonPath(root, issue.path),
+      message: issue.message,
+    })),
+  )
+}
+
+const isRecord = (value: unknown): value is LegacyAttrs =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isMark = (value: unknown): value is (typeof MARKS)[number] =>
+  (MARKS as readonly unknown[]).includes(value)
+
+/** Valores soltos dos formatos antigos como texto ("" para ausentes) */
+const legacyText = (value: unknown) =>
+  value === undefined || value === null ? "" : String(value)
+
+/** Nós no formato ProseMirror/TipTap: { type: "doc", content: [...] } */
+async function upgradeProseMirror(
+  doc: ProseMirrorNode,
+  resolveMediaId: ResolveMediaId,
+  warnings: string[],
+): Promise<ContentBlock[]> {
+  const inlines = (node: ProseMirrorNode): ContentInline[] =>
+    (node.content ?? []).flatMap((child): ContentInline[] => {
+      if (child.type === "hardBreak") return [{ text: "\n" }]
+      if (child.text === undefined) return inlines(child)
+
+      const childMarks = child.marks ?? []
+      const marks = childMarks.map((m) => m.type).filter(isMark)
+      const href = childMarks.find((m) => m.type === "link")?.attrs?.href
+      return [
+        {
+          text: child.text,
+          ...(marks.length ? { marks } : {}),
+          ...(href ? { href: String(href) } : {}),
+        },
+      ]
+    })
+
+  const blocks: ContentBlock[] = []
+  for (const node of doc.content ?? []) {
+    switch (node.type) {
+      case "paragraph":
+        blocks.push({ type: "paragraph", children: inlines(node) })
+        break
+      case "heading":
+        blocks.push({
+          type: "heading",
+          level: Math.min(4, Math.max(2, Number(node.attrs?.level) || 2)),
+          children: inlines(node),
+        })
+        break
+      case "blockquote":
+        blocks.push({ type: "quote", children: inlines(node) })
+        break
+      case "codeBlock": {
+        const language = node.attrs?.language
+        blocks.push({
+          type: "code",
+          ...(typeof language === "string" && language ? { language } : {}),
+          code: inlines(node)
+            .map((i) => i.text)
+            .join(""),
+        })
+        break
+      }
+      case "bulletList":
+      case "orderedList":
+        blocks.push({
+          type: "list",
+          style: node.type === "orderedList" ? "ordered" : "unordered",
+          items: (node.content ?? []).map((item) => ({
+            children: inlines(item),
+          })),
+        })
+        break
+      case "image": {
+        const src = legacyText(node.attrs?.src)
+        const mediaId = src ? await resolveMediaId(src) : null
+        if (mediaId) {
+          blocks.push({
+            type: "image",
+            mediaId,
+            alt: legacyText(node.attrs?.alt),
+          })
+        } else {
+          warnings.push(`imagem sem mídia correspondente removida: ${src}`)
+        }
+        break
+      }
+      case "table":
+        blocks.push({
+          type: "table",
+          header: node.content?.[0]?.content?.[0]?.type === "tableHeader",
+          rows: (node.content ?? []).map((row) =>
+            (row.content ?? []).map((cell) => ({
+              children: inlines(cell),
+            })),
+          ),
+        })
+        break
+      default:
+        warnings.push(`bloco "${node.type}" convertido em parágrafo`)
+        blocks.push(
+          paragraph(
+            inlines(node)
+              .map((i) => i.text)
+              .join(""),
+          ),
+        )
+    }
+  }
+  return blocks
+}
+
+/** Blocos no formato Editor.js: { blocks: [{ type, data }] } */
+async function upgradeEditorJs(
+  legacy: EditorJsBlock[],
+  resolveMediaId: ResolveMediaId,
+  warnings: string[],
+): Promise<ContentBlock[]> {
+  const blocks: ContentBlock[] = []
+  for (const block of legacy) {
+    const data = block.data
+    switch (block.type) {
+      case "paragraph":
+        blocks.push(paragraph(stripHtml(legacyText(data.text))))
+        break
+      case "header":
+        blocks.push({
+          type: "heading",
+          level: Math.min(4, Math.max(2, Number(data.level) || 2)),
+          children: textInline(stripHtml(legacyText(data.text))),
+        })
+        break
+      case "quote":
+        blocks.push({
+          type: "quote",
+          children: textInline(stripHtml(legacyText(data.text))),
+          ...(data.caption
+            ? { cite: stripHtml(legacyText(data.caption)) }
+            : {}),
+        })
+        break
+      case "code":
+        blocks.push({ type: "code", code: legacyText(data.code) })
+        break
+      case "list":
+        blocks.push({
+          type: "list",
+          style: data.style === "ordered" ? "ordered" : "unordered",
+          items: (Array.isArray(data.items) ? data.items : []).map(
+            (item: unknown) => ({
+              children: textInline(
+                stripHtml(
+                  typeof item === "string"
+                    ? item
+                    : legacyText(isRecord(item) ? item.content : undefined),
+                ),
+              ),
+            }),
+          ),
+        })
+        break
+      case "image": {
+        const file = isRecord(data.file) ? data.file : {}
+        const url = legacyText(file.url ?? data.url)
+        const mediaId =
+          (typeof data.mediaId === "string" ? data.mediaId : null) ??
+          (url ? await resolveMediaId(url) : null)
+        if (mediaId) {
+          blocks.push({
+            type: "image",
+            mediaId,
+            alt: stripHtml(legacyText(data.caption)).slice(0, 300),
+            ...(data.caption
+              ? { caption: stripHtml(legacyText(data.caption)) }
+              : {}),
+          })
+        } else {
+          warnings.push(`imagem sem mídia correspondente removida: ${url}`)
+        }
+        break
+      }
+      case "embed": {
+        const url = legacyText(data.source ?? data.embed)
+        const provider = detectEmbedProvider(url)
+        if (provider && url.startsWith("https://")) {
+          blocks.push({
+            type: "embed",
+            provider,
+            url,
+            ...(data.caption
+              ? { caption: stripHtml(legacyText(data.caption)) }
+              : {}),
+          })
+        } else {
+          warnings.push(`embed não suportado convertido em link: ${url}`)
+          blocks.push(paragraph(url))
+        }
+        break
+      }
+      case "table":
+        blocks.push({
+          type: "table",
+          header: !!data.withHeadings,
+          rows: (Array.isArray(data.content) ? data.content : []).map(
+            (row: unknown) =>
+              (Array.isArray(row) ? row : []).map((cell: unknown) => ({
+                children: textInline(stripHtml(legacyText(cell))),
+              })),
+          ),
+        })
+        break
+      default:
+        warnings.push(`bloco "${block.type}" convertido em parágrafo`)
+        blocks.push(paragraph(stripHtml(JSON.stringify(data))))
+    }
+  }
+  return blocks
+}
+
+/**
+ * Converte qualquer documento antigo para a versão atual do schema.
+ * Reconhece ProseMirror/TipTap, Editor.js e texto puro; o resto vira um parágrafo.
+ * O resultado sempre passa por `parsePostContent`.
+ */
+export async function upgradeContent(
+  input: unknown,
+  resolveMediaId: ResolveMediaId,
+): Promise<UpgradeResult> {
+  if (isCurrentContent(input)) return { content: input, warnings: [] }
+
+  const warnings: string[] = []
+  let blocks: ContentBlock[]
+
+  if (typeof input === "string") {
+    blocks = input
+      .split(/\n{2,}/)
+      .map((p) => p.trim())
+      .filter(Boolean)
+      .map(paragraph)
+  } else if (isRecord(input) && input.type === "doc") {
+    blocks = await upgradeProseMirror(
+      parseLegacy(proseMirrorNodeSchema, input, "content"),
+      resolveMediaId,
+      warnings,
+    )
+  } else if (Array.isArray(input)) {
+    blocks = await upgradeEditorJs(
+      parseLegacy(editorJsBlocksSchema, input, "content"),
+      resolveMediaId,
+      warnings,
+    )
+  } else if (isRecord(input) && Array.isArray(input.blocks)) {
+    blocks = await upgradeEditorJs(
+      parseLegacy(editorJsBlocksSchema, input.blocks, "content.blocks"),
+      resolveMediaId,
+      warnings,
+    )
+  } else {
+    warnings.push("formato desconhecido: conteúdo convertido em texto simples")
+    const text = jsonToPlainText(input)
+    blocks = text ? [paragraph(text)] : []
+  }
+
+  return {
+    content: parsePostContent({ version: CONTENT_SCHEMA_VERSION, blocks }),
+    warnings,
+  }
+}
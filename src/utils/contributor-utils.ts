@@ -0,0 +1,145 @@
+import { ContributorRole, type Prisma } from "@prisma/client"
+import { z } from "zod"
+
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+
+/**
+ * Créditos do post: o autor principal (Post.authorId) e os colaboradores.
+ * Coautores (role AUTHOR) contam como donos nas permissões `:own`;
+ * revisores e tradutores só aparecem no byline.
+ */
+
+export const MAX_POST_CONTRIBUTORS = 20
+
+export const contributorsInputSchema = z
+  .array(
+    z.object({
+      userId: z.string().uuid(),
+      role: z.nativeEnum(ContributorRole),
+    }),
+  )
+  .max(MAX_POST_CONTRIBUTORS)
+
+export type ContributorInput = z.infer<typeof contributorsInputSchema>[number]
+
+/** Campos necessários para `postOwnerIds` */
+export const POST_OWNERS_SELECT = {
+  authorId: true,
+  contributors: {
+    where: { role: ContributorRole.AUTHOR },
+    select: { userId: true },
+  },
+} satisfies Prisma.PostSelect
+
+export function postOwnerIds(post: {
+  authorId: string
+  contributors: { userId: string }[]
+}) {
+  return [post.authorId, ...post.contributors.map((c) => c.userId)]
+}
+
+/** Posts de que o usuário é dono: autor principal ou coautor */
+export function ownedPostsWhere(userId: string): Prisma.PostWhereInput {
+  return {
+    OR: [
+      { authorId: userId },
+      { contributors: { some: { userId, role: ContributorRole.AUTHOR } } },
+    ],
+  }
+}
+
+/**
+ * Substitui os colaboradores do post, na ordem informada (ordem do byline).
+ * O autor principal não se repete como coautor.
+ */
+export async function replacePostContributors(
+  tx: Prisma.TransactionClient,
+  post: { id: string; authorId: string },
+  contributors: ContributorInput[],
+) {
+  const unique = Array.from(
+    new Map(
+      contributors
+        .filter(
+          (c) =>
+            !(c.userId === post.authorId && c.role === ContributorRole.AUTHOR),
+        )
+        .map((c) => [`${c.userId}:${c.role}`, c]),
+    ).values(),
+  )
+
+  const userIds = [...new Set(unique.map((c) => c.userId))]
+  const users = await tx.user.findMany({
+    where: { id: { in: userIds }, deactivatedAt: null },
+    select: { id: true },
+  })
+  const found = new Set(users.map((u) => u.id))
+  const missing = userIds.filter((id) => !found.has(id))
+  if (missing.length > 0) {
+    throw new BadRequestError(
+      `Colaboradores não encontrados: ${missing.join(", ")}.`,
+    )
+  }
+
+  await tx.postContributor.deleteMany({ where: { postId: post.id } })
+  if (unique.length > 0) {
+    await tx.postContributor.createMany({
+      data: unique.map((c, position) => ({
+        postId: post.id,
+        userId: c.userId,
+        role: c.role,
+        position,
+      })),
+    })
+  }
+}
+
+const bylineUserSelect = {
+  id: true,
+  name: true,
+  username: true,
+  description: true,
+  avatarKey: true,
+} satisfies Prisma.UserSelect
+
+/** Campos do post usados por `toByline` */
+export const BYLINE_SELECT = {
+  author: { select: bylineUserSelect },
+  contributors: {
+    orderBy: { position: "asc" },
+    select: { role: true, user: { select: bylineUserSelect } },
+  },
+} satisfies Prisma.PostSelect
+
+export const bylineSchema = z.array(
+  z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    username: z.string(),
+    bio: z.string().nullable(),
+    hasAvatar: z.boolean(),
+    role: z.nativeEnum(ContributorRole),
+  }),
+)
+
+type BylineUser = Prisma.UserGetPayload<{ select: typeof bylineUserSelect }>
+
+/** Byline completo: autor principal primeiro, depois os colaboradores */
+export function toByline(post: {
+  author: BylineUser
+  contributors: { role: ContributorRole; user: BylineUser }[]
+}): z.infer<typeof bylineSchema> {
+  const entry = (user: BylineUser, role: ContributorRole) => ({
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    bio: user.description,
+    hasAvatar: !!user.avatarKey,
+    role,
+  })
+
+  return [
+    entry(post.author, ContributorRole.AUTHOR),
+    ...post.contributors.map((c) => entry(c.user, c.role)),
+  ]
+}
@@ -0,0 +1,27 @@
+import { prisma } from "@/lib/prisma"
+import { ConflictError } from "@/http/_errors/conflict-error"
+
+/**
+ * Controle otimista do rascunho: o cliente envia a `version` que carregou
+ * (0 quando ainda não havia rascunho). Se outro editor salvou no meio tempo,
+ * devolvemos 409 com quem salvou e a versão atual para o cliente recarregar.
+ */
+export async function draftConflict(postId: string) {
+  const current = await prisma.postDraft.findUnique({
+    where: { postId },
+    select: {
+      version: true,
+      updatedAt: true,
+      updatedBy: { select: { id: true, name: true, username: true } },
+    },
+  })
+
+  return new ConflictError(
+    "O rascunho foi alterado por outra pessoa. Recarregue antes de salvar.",
+    {
+      currentVersion: current?.version ?? 0,
+      updatedAt: current?.updatedAt.toISOString() ?? null,
+      updatedBy: current?.updatedBy ?? null,
+    },
+  )
+}
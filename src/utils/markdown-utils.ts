@@ -0,0 +1,873 @@
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import {
+  ValidationError,
+  type ValidationIssue,
+} from "@/http/_errors/validation-error"
+import {
+  CONTENT_SCHEMA_VERSION,
+  detectEmbedProvider,
+  MARKS,
+  parsePostContent,
+  resolveMediaIdByUrl,
+  type ContentBlock,
+  type ContentInline,
+  type PostContent,
+} from "@/utils/content-utils"
+
+/**
+ * Conversão Markdown <-> documento em blocos (Post.content).
+ * Cobre o que o schema representa: títulos, parágrafos, listas (um nível),
+ * citações, código, imagens, tabelas (GFM) e embeds (URL sozinha na linha).
+ * O front matter é um subconjunto de YAML: `chave: valor` e listas.
+ */
+
+type Mark = NonNullable<ContentInline["marks"]>[number]
+
+// ---------------------------------------------------------------------------
+// Front matter
+// ---------------------------------------------------------------------------
+
+const frontMatterSchema = z.object({
+  title: z.string().trim().min(3).max(160),
+  slug: z.string().trim().min(1).max(140).optional(),
+  excerpt: z.string().trim().max(300).optional(),
+  // URL de uma mídia já enviada ou o id dela
+  cover: z.string().trim().min(1).optional(),
+  categories: z.array(z.string().trim().min(1).max(60)).max(50).default([]),
+  tags: z.array(z.string().trim().min(1).max(60)).max(50).default([]),
+})
+
+export type MarkdownFrontMatter = z.infer<typeof frontMatterSchema>
+
+function unquote(raw: string) {
+  const value = raw.trim()
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value) as string
+    } catch {
+      return value.slice(1, -1)
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  return value
+}
+
+/** `[a, "b, c"]` → ["a", "b, c"] */
+function splitFlowList(raw: string) {
+  const items: string[] = []
+  let current = ""
+  let quote: string | null = null
+
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i]
+    if (quote) {
+      current += ch
+      if (ch === "\\" && quote === '"') current += raw[++i] ?? ""
+      else if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+      current += ch
+    } else if (ch === ",") {
+      items.push(current)
+      current = ""
+    } else {
+      current += ch
+    }
+  }
+  items.push(current)
+
+  return items.map(unquote).filter(Boolean)
+}
+
+function splitFrontMatter(source: string) {
+  const match = source.match(
+    /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/,
+  )
+  if (!match) return { raw: null, body: source, offset: 0 }
+
+  return {
+    raw: match[1],
+    body: source.slice(match[0].length),
+    offset: match[0].split("\n").length - 1,
+  }
+}
+
+function parseFrontMatterFields(raw: string) {
+  const data: Record<string, string | string[]> = {}
+  let listKey: string | null = null
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue
+
+    const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/)
+    if (item && listKey) {
+      ;(data[listKey] as string[]).push(unquote(item[1]))
+      continue
+    }
+
+    const field = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/)
+    if (!field) continue
+
+    const [, key, value] = field
+    listKey = null
+    if (!value.trim()) {
+      data[key] = []
+      listKey = key
+    } else if (value.trim().startsWith("[") && value.trim().endsWith("]")) {
+      data[key] = splitFlowList(value.trim().slice(1, -1))
+    } else {
+      data[key] = unquote(value)
+    }
+  }
+
+  // aceita tags/categorias escritas como "a, b"
+  for (const key of ["tags", "categories"]) {
+    if (typeof data[key] === "string") {
+      data[key] = splitFlowList(data[key] as string)
+    }
+  }
+
+  return data
+}
+
+// ---------------------------------------------------------------------------
+// Inline
+// ---------------------------------------------------------------------------
+
+const unescapeText = (s: string) => s.replace(/\\(.)/g, "$1")
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!~<>|"]/
+
+function makeInline(text: string, marks: Mark[], href?: string): ContentInline {
+  const unique = MARKS.filter((m) => marks.includes(m))
+  return {
+    text,
+    ...(unique.length > 0 ? { marks: unique } : {}),
+    ...(href ? { href } : {}),
+  }
+}
+
+const sameFormat = (a: ContentInline, b: ContentInline) =>
+  a.href === b.href &&
+  [...(a.marks ?? [])].sort().join() === [...(b.marks ?? [])].sort().join()
+
+function mergeInlines(inlines: ContentInline[]) {
+  const merged: ContentInline[] = []
+  for (const inline of inlines) {
+    const last = merged[merged.length - 1]
+    if (last && sameFormat(last, inline)) last.text += inline.text
+    else if (inline.text) merged.push({ ...inline })
+  }
+  return merged
+}
+
+function safeUrl(raw: string) {
+  try {
+    const url = new URL(raw)
+    return ["http:", "https:", "mailto:"].includes(url.protocol)
+      ? url.toString()
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * `[texto](url "título")` a partir de `start`; devolve null se não for link.
+ * A URL pode ter parênteses balanceados (ex.: páginas da Wikipédia).
+ */
+function matchLink(text: string, start: number) {
+  let depth = 0
+  let i = start
+  for (; i < text.length; i++) {
+    if (text[i] === "\\") i++
+    else if (text[i] === "[") depth++
+    else if (text[i] === "]" && --depth === 0) break
+  }
+  if (i >= text.length || text[i + 1] !== "(") return null
+  const label = text.slice(start + 1, i)
+
+  let j = i + 2
+  while (text[j] === " ") j++
+
+  let url = ""
+  if (text[j] === "<") {
+    const close = text.indexOf(">", j)
+    if (close === -1) return null
+    url = text.slice(j + 1, close)
+    j = close + 1
+  } else {
+    let parens = 0
+    for (; j < text.length && !/\s/.test(text[j]); j++) {
+      if (text[j] === "(") parens++
+      else if (text[j] === ")" && --parens < 0) break
+      url += text[j]
+    }
+  }
+
+  const rest = text.slice(j).match(/^(?:\s+"((?:[^"\\]|\\.)*)")?\s*\)/)
+  if (!url || !rest) return null
+
+  return {
+    label,
+    url,
+    title: rest[1] === undefined ? undefined : unescapeText(rest[1]),
+    end: j + rest[0].length,
+  }
+}
+
+const DELIMITERS: { open: string; close: string; mark: Mark }[] = [
+  { open: "**", close: "**", mark: "bold" },
+  { open: "__", close: "__", mark: "bold" },
+  { open: "~~", close: "~~", mark: "strike" },
+  { open: "<u>", close: "</u>", mark: "underline" },
+  { open: "*", close: "*", mark: "italic" },
+  { open: "_", close: "_", mark: "italic" },
+]
+
+/** Fechamento do delimitador, ignorando escapes e (para `*`/`_`) o par duplo */
+function findClose(text: string, from: number, close: string) {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++
+      continue
+    }
+    if (!text.startsWith(close, i)) continue
+    if (close.length === 1 && text[i + 1] === close) {
+      i++
+      continue
+    }
+    // snake_case_name: `_` colado numa palavra não fecha
+    if (close === "_" && /[\p{L}\p{N}]/u.test(text[i + 1] ?? "")) continue
+    // em "***x***" o par duplo fecha por fora
+    if (close.length === 2 && close[0] === close[1] && text[i + 2] === close[0])
+      continue
+    return i
+  }
+  return -1
+}
+
+function parseInlines(
+  text: string,
+  marks: Mark[] = [],
+  href?: string,
+): ContentInline[] {
+  const out: ContentInline[] = []
+  let buffer = ""
+  const flush = () => {
+    if (buffer) out.push(makeInline(buffer, marks, href))
+    buffer = ""
+  }
+
+  let i = 0
+  outer: while (i < text.length) {
+    const ch = text[i]
+
+    if (ch === "\\" && ESCAPABLE.test(text[i + 1] ?? "")) {
+      buffer += text[i + 1]
+      i += 2
+      continue
+    }
+
+    if (ch === "`") {
+      const run = text.slice(i).match(/^`+/)![0]
+      const end = text.indexOf(run, i + run.length)
+      if (end !== -1) {
+        flush()
+        let code = text.slice(i + run.length, end)
+        if (code.startsWith(" ") && code.endsWith(" ") && code.trim()) {
+          code = code.slice(1, -1)
+        }
+        out.push(makeInline(code, [...marks, "code"], href))
+        i = end + run.length
+        continue
+      }
+    }
+
+    if (ch === "<" && !href) {
+      const auto = text.slice(i).match(/^<(https?:\/\/[^\s>]+)>/)
+      const url = auto && safeUrl(auto[1])
+      if (auto && url) {
+        flush()
+        out.push(makeInline(auto[1], marks, url))
+        i += auto[0].length
+        continue
+      }
+    }
+
+    if (ch === "[" && !href) {
+      const link = matchLink(text, i)
+      const url = link && safeUrl(link.url)
+      if (link && url) {
+        flush()
+        out.push(...parseInlines(link.label, marks, url))
+        i = link.end
+        continue
+      }
+    }
+
+    for (const { open, close, mark } of DELIMITERS) {
+      if (!text.startsWith(open, i) || marks.includes(mark)) continue
+      if (/\s/.test(text[i + open.length] ?? " ")) continue
+
+      const end = findClose(text, i + open.length, close)
+      if (end <= i + open.length) continue
+
+      flush()
+      out.push(
+        ...parseInlines(
+          text.slice(i + open.length, end),
+          [...marks, mark],
+          href,
+        ),
+      )
+      i = end + close.length
+      continue outer
+    }
+
+    buffer += ch
+    i++
+  }
+
+  flush()
+  return mergeInlines(out)
+}
+
+// ---------------------------------------------------------------------------
+// Blocos
+// ---------------------------------------------------------------------------
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const QUOTE = /^ {0,3}>\s?(.*)$/
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/
+const BARE_URL = /^\s*<?(https:\/\/[^\s>]+)>?\s*$/
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  LIST_ITEM.test(line)
+
+/** Junta linhas de um parágrafo: quebra dura com dois espaços ou `\` no fim */
+function joinLines(lines: string[]) {
+  return lines
+    .map((line, index) => {
+      if (index === lines.length - 1) return line.trim()
+      const hard = / {2,}$/.test(line) || /(?:^|[^\\])(?:\\\\)*\\$/.test(line)
+      const text = line.trim().replace(/\\$/, "")
+      return text + (hard ? "\n" : " ")
+    })
+    .join("")
+}
+
+function splitTableRow(line: string) {
+  const trimmed = line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+  const cells: string[] = []
+  let current = ""
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === "\\" && trimmed[i + 1] === "|") {
+      current += "|"
+      i++
+    } else if (trimmed[i] === "|") {
+      cells.push(current.trim())
+      current = ""
+    } else {
+      current += trimmed[i]
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+type PendingImage = { index: number; line: number; url: string }
+
+function parseBlocks(body: string, lineOffset: number) {
+  const lines = body.replace(/\r\n?/g, "\n").split("\n")
+  const blocks: ContentBlock[] = []
+  const images: PendingImage[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim() || RULE.test(line)) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const closing = new RegExp(
+        `^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`,
+      )
+      const code: string[] = []
+      i++
+      while (i < lines.length && !closing.test(lines[i])) code.push(lines[i++])
+      i++
+      blocks.push({
+        type: "code",
+        ...(fence[2] ? { language: fence[2].slice(0, 40) } : {}),
+        code: code.join("\n"),
+      })
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: Math.min(4, Math.max(2, heading[1].length)),
+        children: parseInlines(heading[2]),
+      })
+      i++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i++].match(QUOTE)![1])
+      }
+      while (quoted.length && !quoted[quoted.length - 1].trim()) quoted.pop()
+
+      // "— Autor" na última linha vira a citação da fonte
+      const last = quoted[quoted.length - 1] ?? ""
+      const cite = last.match(/^\s*(?:—|--)\s+(.+)$/)
+      if (cite) {
+        quoted.pop()
+        while (quoted.length && !quoted[quoted.length - 1].trim()) quoted.pop()
+      }
+
+      const paragraphs = quoted
+        .join("\n")
+        .split(/\n\s*\n/)
+        .map((p) => joinLines(p.split("\n")))
+      blocks.push({
+        type: "quote",
+        children: parseInlines(paragraphs.join("\n")),
+        ...(cite ? { cite: unescapeText(cite[1].trim()) } : {}),
+      })
+      continue
+    }
+
+    if (
+      line.includes("|") &&
+      i + 1 < lines.length &&
+      TABLE_DELIMITER.test(lines[i + 1]) &&
+      lines[i + 1].includes("-")
+    ) {
+      const header = splitTableRow(line)
+      const rows: string[][] = []
+      i += 2
+      while (i < lines.length && lines[i].trim() && lines[i].includes("|")) {
+        rows.push(splitTableRow(lines[i++]))
+      }
+
+      // cabeçalho vazio = tabela sem cabeçalho (é assim que exportamos)
+      const hasHeader = header.some((cell) => cell.length > 0)
+      blocks.push({
+        type: "table",
+        header: hasHeader,
+        rows: (hasHeader ? [header, ...rows] : rows).map((row) =>
+          row.map((cell) => ({ children: parseInlines(cell) })),
+        ),
+      })
+      continue
+    }
+
+    const listItem = line.match(LIST_ITEM)
+    if (listItem) {
+      const style = /\d/.test(listItem[2]) ? "ordered" : "unordered"
+      const items: string[][] = []
+
+      while (i < lines.length) {
+        const current = lines[i]
+        const item = current.match(LIST_ITEM)
+        if (item && /\d/.test(item[2]) !== (style === "ordered")) break
+        if (item) {
+          // sublistas viram itens do mesmo nível: o schema só tem um nível
+          items.push([item[3]])
+          i++
+        } else if (current.trim() && /^\s+/.test(current)) {
+          items[items.length - 1].push(current)
+          i++
+        } else if (!current.trim() && LIST_ITEM.test(lines[i + 1] ?? "")) {
+          i++
+        } else {
+          break
+        }
+      }
+
+      blocks.push({
+        type: "list",
+        style,
+        items: items.map((item) => ({
+          children: parseInlines(joinLines(item)),
+        })),
+      })
+      continue
+    }
+
+    const trimmed = line.trim()
+    const image = trimmed.startsWith("![") ? matchLink(trimmed, 1) : null
+    if (image && image.end === trimmed.length) {
+      images.push({
+        index: blocks.length,
+        line: lineOffset + i + 1,
+        url: image.url,
+      })
+      blocks.push({
+        type: "image",
+        mediaId: "",
+        alt: unescapeText(image.label),
+        ...(image.title ? { caption: image.title } : {}),
+      })
+      i++
+      continue
+    }
+
+    const bare = line.match(BARE_URL)
+    const provider = bare && detectEmbedProvider(bare[1])
+    if (bare && provider) {
+      blocks.push({ type: "embed", provider, url: bare[1] })
+      i++
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim()) {
+      if (paragraph.length > 0 && startsBlock(lines[i])) break
+      paragraph.push(lines[i++])
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInlines(joinLines(paragraph)),
+    })
+  }
+
+  return { blocks, images }
+}
+
+/** URL ou id de uma mídia já enviada */
+async function resolveMediaRef(ref: string) {
+  if (z.string().uuid().safeParse(ref).success) {
+    const media = await prisma.media.findUnique({
+      where: { id: ref },
+      select: { id: true },
+    })
+    if (media) return media.id
+  }
+  return resolveMediaIdByUrl(ref)
+}
+
+export type MarkdownPost = Omit<MarkdownFrontMatter, "cover"> & {
+  coverId: string | null
+  content: PostContent
+}
+
+/**
+ * Lê um post em Markdown com front matter.
+ * Imagens precisam já existir na biblioteca de mídia (por URL ou id);
+ * os problemas saem todos juntos, com a linha do arquivo.
+ */
+export async function parseMarkdownPost(source: string): Promise<MarkdownPost> {
+  const { raw, body, offset } = splitFrontMatter(source)
+  const issues: ValidationIssue[] = []
+
+  const parsedFrontMatter = frontMatterSchema.safeParse(
+    raw ? parseFrontMatterFields(raw) : {},
+  )
+  if (!parsedFrontMatter.success) {
+    issues.push(
+      ...parsedFrontMatter.error.issues.map((issue) => ({
+        path: ["frontMatter", ...issue.path.map(String)].join("."),
+        message: issue.message,
+      })),
+    )
+  }
+
+  const { blocks, images } = parseBlocks(body, offset)
+
+  for (const image of images) {
+    const mediaId = await resolveMediaRef(image.url)
+    if (mediaId) {
+      ;(
+        blocks[image.index] as Extract<ContentBlock, { type: "image" }>
+      ).mediaId = mediaId
+    } else {
+      issues.push({
+        path: `markdown:${image.line}`,
+        message: `imagem não encontrada na biblioteca de mídia: ${image.url}`,
+      })
+    }
+  }
+
+  let coverId: string | null = null
+  const cover = parsedFrontMatter.data?.cover
+  if (cover) {
+    coverId = await resolveMediaRef(cover)
+    if (!coverId) {
+      issues.push({
+        path: "frontMatter.cover",
+        message: "capa não encontrada na biblioteca de mídia",
+      })
+    }
+  }
+
+  if (issues.length > 0 || !parsedFrontMatter.success) {
+    throw new ValidationError("Markdown inválido.", issues)
+  }
+
+  const { title, slug, excerpt, categories, tags } = parsedFrontMatter.data
+  return {
+    title,
+    slug,
+    excerpt,
+    categories,
+    tags,
+    coverId,
+    content: parsePostContent({ version: CONTENT_SCHEMA_VERSION, blocks }),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Exportação
+// ---------------------------------------------------------------------------
+
+const escapeMarkdown = (s: string) => s.replace(/([\\`*_[\]~<|])/g, "\\$1")
+
+/** Evita que o início da linha vire título, lista ou citação */
+const escapeLineStart = (s: string) =>
+  s.replace(/^(\s*)(#|>|[-+](?=\s|-|$)|\d+(?=[.)]\s))/gm, (_, space, token) =>
+    /^\d/.test(token) ? `${space}${token}\\` : `${space}\\${token}`,
+  )
+
+function codeSpan(text: string) {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((r) => r.length))
+  const ticks = "`".repeat(longest + 1)
+  const pad = text.startsWith("`") || text.endsWith("`") ? " " : ""
+  return `${ticks}${pad}${text}${pad}${ticks}`
+}
+
+/** Espaços e parênteses desbalanceados quebram o `(url)` do Markdown */
+function encodeUrl(url: string) {
+  let depth = 0
+  for (const c of url) {
+    if (c === "(") depth++
+    else if (c === ")" && --depth < 0) break
+  }
+  const pattern = depth === 0 ? /\s/g : /[()\s]/g
+  return url.replace(
+    pattern,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`,
+  )
+}
+
+const MARK_DELIMITERS = {
+  bold: ["**", "**"],
+  italic: ["_", "_"],
+  strike: ["~~", "~~"],
+  underline: ["<u>", "</u>"],
+} as const
+
+type StackMark = keyof typeof MARK_DELIMITERS
+
+/** Espaços nas bordas saem da marcação: `**a **b` não é Markdown válido */
+function splitEdgeWhitespace(children: ContentInline[]) {
+  return children.flatMap((inline) => {
+    if (!inline.marks?.length || inline.marks.includes("code")) return [inline]
+    const [, lead, core, trail] = inline.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!
+    const plain = (text: string) => makeInline(text, [], inline.href)
+    if (!core) return [plain(inline.text)]
+    return [
+      ...(lead ? [plain(lead)] : []),
+      { ...inline, text: core },
+      ...(trail ? [plain(trail)] : []),
+    ]
+  })
+}
+
+/**
+ * Serializa uma sequência de inlines mantendo as marcações abertas enquanto
+ * continuam valendo (`_**a**b_`), em vez de fechar e reabrir a cada trecho —
+ * delimitadores colados (`***a****b*`) seriam ambíguos na volta.
+ */
+function formatRun(children: ContentInline[]) {
+  const stackMarks = (inline: ContentInline) =>
+    (inline.marks ?? []).filter((m): m is StackMark => m in MARK_DELIMITERS)
+  const runLength = (from: number, mark: StackMark) => {
+    let n = 0
+    while (stackMarks(children[from + n] ?? {}).includes(mark)) n++
+    return n
+  }
+
+  let out = ""
+  const stack: StackMark[] = []
+
+  children.forEach((inline, index) => {
+    const marks = stackMarks(inline)
+
+    const ended = stack.findIndex((m) => !marks.includes(m))
+    if (ended !== -1) {
+      while (stack.length > ended) out += MARK_DELIMITERS[stack.pop()!][1]
+    }
+
+    // quem dura mais abre primeiro (por fora)
+    const opening = marks
+      .filter((m) => !stack.includes(m))
+      .sort((a, b) => runLength(index, b) - runLength(index, a))
+    for (const mark of opening) {
+      out += MARK_DELIMITERS[mark][0]
+      stack.push(mark)
+    }
+
+    out += inline.marks?.includes("code")
+      ? codeSpan(inline.text)
+      : escapeMarkdown(inline.text).replace(/\n/g, "  \n")
+  })
+
+  while (stack.length > 0) out += MARK_DELIMITERS[stack.pop()!][1]
+  return out
+}
+
+function inlinesToMarkdown(children: ContentInline[]) {
+  const inlines = splitEdgeWhitespace(children)
+  let out = ""
+  for (let i = 0; i < inlines.length; ) {
+    // inlines vizinhos com o mesmo href formam um único link
+    const href = inlines[i].href
+    const group: ContentInline[] = []
+    while (i < inlines.length && inlines[i].href === href) {
+      group.push(inlines[i++])
+    }
+    out += href ? `[${formatRun(group)}](${encodeUrl(href)})` : formatRun(group)
+  }
+  return out
+}
+
+const quoteLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n")
+
+function blockToMarkdown(block: ContentBlock, mediaUrls: Map<string, string>) {
+  switch (block.type) {
+    case "paragraph":
+      return escapeLineStart(inlinesToMarkdown(block.children))
+
+    case "heading":
+      return `${"#".repeat(block.level)} ${inlinesToMarkdown(block.children).replace(/ {2}\n/g, " ")}`
+
+    case "image": {
+      const url = mediaUrls.get(block.mediaId)
+      if (!url) return ""
+      const alt = block.alt.replace(/([\\\]])/g, "\\$1")
+      const caption = block.caption
+        ? ` "${block.caption.replace(/(["\\])/g, "\\$1")}"`
+        : ""
+      return `![${alt}](${encodeUrl(url)}${caption})`
+    }
+
+    case "quote": {
+      const text = escapeLineStart(inlinesToMarkdown(block.children))
+      const cite = block.cite ? `\n\n— ${escapeMarkdown(block.cite)}` : ""
+      return quoteLines(`${text}${cite}`)
+    }
+
+    case "code": {
+      const longest = Math.max(
+        0,
+        ...(block.code.match(/^`+/gm) ?? []).map((r) => r.length),
+      )
+      const fence = "`".repeat(Math.max(3, longest + 1))
+      return `${fence}${block.language ?? ""}\n${block.code}\n${fence}`
+    }
+
+    case "embed":
+      return `<${block.url}>`
+
+    case "list":
+      return block.items
+        .map((item, index) => {
+          const marker = block.style === "ordered" ? `${index + 1}.` : "-"
+          const indent = " ".repeat(marker.length + 1)
+          return `${marker} ${escapeLineStart(inlinesToMarkdown(item.children))
+            .split("\n")
+            .join(`\n${indent}`)}`
+        })
+        .join("\n")
+
+    case "table": {
+      const width = Math.max(...block.rows.map((row) => row.length))
+      const line = (cells: string[]) =>
+        `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`
+      const rows = block.rows.map((row) =>
+        row.map((cell) =>
+          inlinesToMarkdown(cell.children).replace(/ {2}\n/g, " "),
+        ),
+      )
+      const [head, ...rest] = block.header ? rows : [[], ...rows]
+      return [
+        line(head),
+        line(Array.from({ length: width }, () => "---")),
+        ...rest.map(line),
+      ].join("\n")
+    }
+  }
+}
+
+/** Converte o documento em Markdown; imagens usam a URL da mídia */
+export async function contentToMarkdown(content: PostContent) {
+  const ids = [
+    ...new Set(
+      content.blocks.flatMap((b) => (b.type === "image" ? [b.mediaId] : [])),
+    ),
+  ]
+  const media = ids.length
+    ? await prisma.media.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, url: true },
+      })
+    : []
+  const mediaUrls = new Map(media.map((m) => [m.id, m.url]))
+
+  return content.blocks
+    .map((block) => blockToMarkdown(block, mediaUrls))
+    .filter(Boolean)
+    .join("\n\n")
+}
+
+/** Post completo: front matter (strings em JSON são YAML válido) + corpo */
+export async function postToMarkdown(post: {
+  title: string
+  slug: string
+  excerpt: string | null
+  coverUrl: string | null
+  categoryNames: string[]
+  tagNames: string[]
+  content: PostContent
+}) {
+  const frontMatter = [
+    `title: ${JSON.stringify(post.title)}`,
+    `slug: ${JSON.stringify(post.slug)}`,
+    ...(post.excerpt ? [`excerpt: ${JSON.stringify(post.excerpt)}`] : []),
+    ...(post.coverUrl ? [`cover: ${JSON.stringify(post.coverUrl)}`] : []),
+    `categories: ${JSON.stringify(post.categoryNames)}`,
+    `tags: ${JSON.stringify(post.tagNames)}`,
+  ]
+
+  const body = await contentToMarkdown(post.content)
+  return `---\n${frontMatter.join("\n")}\n---\n\n${body}\n`
+}
@@ -0,0 +1,111 @@
+import { Role } from "@prisma/client"
+
+import { ForbiddenError } from "@/http/_errors/forbidden-error"
+
+/**
+ * Matriz de permissões por cargo.
+ * Ações com sufixo `:own`/`:any` dependem do dono do recurso.
+ */
+export const PERMISSIONS = {
+  ADMIN: [
+    "post:create",
+    "post:read",
+    "post:edit:any",
+    "post:edit:own",
+    "post:delete:any",
+    "post:delete:own",
+    "post:review",
+    "series:manage",
+    "media:create",
+    "media:read",
+    "media:delete",
+    "metrics:read",
+    "user:create",
+    "user:invite",
+    "user:read",
+    "user:deactivate",
+    "user:unlock",
+    "user:delete",
+    "user:update:any",
+    "user:update:own",
+    "user:role:update",
+    "settings:manage",
+    "api-key:manage",
+    "audit:read",
+    "privacy:manage",
+    "redirect:manage",
+  ],
+  EDITOR: [
+    "post:create",
+    "post:read",
+    "post:edit:own",
+    "post:delete:own",
+    "post:review",
+    "series:manage",
+    "media:create",
+    "media:read",
+    "metrics:read",
+    "user:update:own",
+  ],
+  USER: ["user:update:own"],
+} as const satisfies Record<Role, readonly string[]>
+
+export type Permission = (typeof PERMISSIONS)[Role][number]
+
+type OwnablePermission = Extract<Permission, `${string}:own`>
+type OwnableAction = OwnablePermission extends `${infer A}:own` ? A : never
+
+/** Ação verificada: permissão direta ou ação "possuível" (ex.: `post:edit`) */
+export type Action =
+  | Exclude<Permission, `${string}:own` | `${string}:any`>
+  | OwnableAction
+
+export type AuthUser = {
+  id: string
+  role: Role
+  username: string
+  name: string
+  email: string | null
+}
+
+function hasPermission(role: Role, permission: string) {
+  return (PERMISSIONS[role] as readonly string[]).includes(permission)
+}
+
+/** Dono(s) do recurso: um id ou uma lista (ex.: autor + coautores do post) */
+export type Owners = string | readonly string[] | null
+
+/**
+ * `ownerId` só importa para ações "possuíveis": sem ele, basta ter `:own` ou `:any`
+ * (checagem de rota); com ele, `:own` exige que o usuário seja um dos donos.
+ */
+export function can(
+  user: Pick<AuthUser, "id" | "role">,
+  action: Action,
+  ownerId?: Owners,
+) {
+  if (hasPermission(user.role, action)) return true
+  if (hasPermission(user.role, `${action}:any`)) return true
+
+  if (hasPermission(user.role, `${action}:own`)) {
+    if (ownerId === undefined) return true
+    return typeof ownerId === "string"
+      ? ownerId === user.id
+      : (ownerId ?? []).includes(user.id)
+  }
+
+  return false
+}
+
+export function assertCan(
+  user: Pick<AuthUser, "id" | "role">,
+  action: Action,
+  ownerId?: Owners,
+  message?: string,
+) {
+  if (!can(user, action, ownerId)) {
+    throw new ForbiddenError(
+      message ?? "Você não tem permissão para realizar esta ação.",
+    )
+  }
+}
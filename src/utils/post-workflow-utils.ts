@@ -0,0 +1,85 @@
+import { PostStatus } from "@prisma/client"
+
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+
+/**
+ * Fluxo editorial: DRAFT → IN_REVIEW → (aprovado) → SCHEDULED/PUBLISHED.
+ * Todas as mudanças de status passam por `assertPostTransition`.
+ */
+export const POST_STATUS_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  DRAFT: [PostStatus.IN_REVIEW],
+  IN_REVIEW: [PostStatus.DRAFT, PostStatus.SCHEDULED, PostStatus.PUBLISHED],
+  SCHEDULED: [PostStatus.DRAFT, PostStatus.PUBLISHED],
+  PUBLISHED: [PostStatus.DRAFT],
+}
+
+const STATUS_LABELS: Record<PostStatus, string> = {
+  DRAFT: "rascunho",
+  IN_REVIEW: "em revisão",
+  SCHEDULED: "agendado",
+  PUBLISHED: "publicado",
+}
+
+type TransitionContext = {
+  // o post tem aprovação válida da revisão atual
+  approved: boolean
+  // IN_REVIEW só é alcançado pelo envio para revisão (que define os revisores)
+  via: "edit" | "review"
+}
+
+/**
+ * Valida a mudança de status; `from` null significa post novo (parte de DRAFT).
+ * Manter o mesmo status é sempre permitido (ex.: reagendar).
+ */
+export function assertPostTransition(
+  from: PostStatus | null,
+  to: PostStatus,
+  ctx: TransitionContext,
+) {
+  const current = from ?? PostStatus.DRAFT
+  if (current === to) return
+
+  if (to === PostStatus.IN_REVIEW && ctx.via !== "review") {
+    throw new BadRequestError(
+      "Use o envio para revisão para mandar o post aos revisores.",
+    )
+  }
+
+  if (!POST_STATUS_TRANSITIONS[current].includes(to)) {
+    throw new BadRequestError(
+      `Não é possível passar um post de ${STATUS_LABELS[current]} para ${STATUS_LABELS[to]}.`,
+    )
+  }
+
+  if (
+    current === PostStatus.IN_REVIEW &&
+    (to === PostStatus.PUBLISHED || to === PostStatus.SCHEDULED) &&
+    !ctx.approved
+  ) {
+    throw new BadRequestError(
+      "Somente posts aprovados na revisão podem ser publicados ou agendados.",
+    )
+  }
+}
+
+// campos cujo texto passou pela revisão
+export const REVIEWED_POST_FIELDS: readonly string[] = [
+  "title",
+  "excerpt",
+  "content",
+]
+
+/**
+ * A aprovação vale para o texto revisado: alterar título, resumo ou conteúdo
+ * de um post em revisão a invalida (approvedAt deve voltar a null).
+ */
+export function invalidatesApproval(
+  existing: { status: PostStatus; approvedAt: Date | null },
+  changedFields: readonly string[],
+) {
+  return (
+    !!existing.approvedAt &&
+    existing.status === PostStatus.IN_REVIEW &&
+    changedFields.some((field) => REVIEWED_POST_FIELDS.includes(field))
+  )
+}
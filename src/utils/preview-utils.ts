@@ -0,0 +1,62 @@
+import type { FastifyRequest } from "fastify"
+
+import { prisma } from "@/lib/prisma"
+import { getClientIp, hashToken } from "@/utils/auth-utils"
+import { hashIp } from "@/utils/metrics-utils"
+
+export const PREVIEW_DEFAULT_TTL_HOURS = 72
+export const PREVIEW_MAX_TTL_HOURS = 24 * 30
+
+/** Token válido (não revogado, não expirado) ou null */
+export async function findActivePreviewToken(token: string) {
+  const preview = await prisma.postPreviewToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { id: true, postId: true, expiresAt: true, revokedAt: true },
+  })
+
+  if (!preview || preview.revokedAt || preview.expiresAt <= new Date()) {
+    return null
+  }
+
+  return preview
+}
+
+/** Registra a leitura (IP só em hash, como nas PostViews) */
+export async function recordPreviewUse(
+  request: FastifyRequest,
+  tokenId: string,
+) {
+  const ua = (request.headers["user-agent"] as string | undefined) ?? null
+
+  await prisma.$transaction([
+    prisma.postPreviewUse.create({
+      data: {
+        tokenId,
+        ipHash: hashIp(getClientIp(request)),
+        userAgent: ua?.slice(0, 300) ?? null,
+      },
+    }),
+    prisma.postPreviewToken.update({
+      where: { id: tokenId },
+      data: { lastUsedAt: new Date(), useCount: { increment: 1 } },
+    }),
+  ])
+}
+
+/** Leituras de pré-visualização nunca contam como visualização do post */
+export function isPreviewRequest(request: FastifyRequest, path?: string) {
+  const query = request.query as Record<string, unknown> | undefined
+  if (query?.preview) return true
+  if (path && /[?&]preview=/.test(path)) return true
+
+  const referrer =
+    (request.headers["referer"] as string | undefined) ||
+    (request.headers["referrer"] as string | undefined)
+  if (!referrer) return false
+
+  try {
+    return new URL(referrer).searchParams.has("preview")
+  } catch {
+    return false
+  }
+}
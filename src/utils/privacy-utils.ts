@@ -0,0 +1,348 @@
+import { Prisma, type PrivacyRequest } from "@prisma/client"
+
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { deleteFromS3 } from "@/lib/s3"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import {
+  redactAuditDiff,
+  USER_PERSONAL_AUDIT_FIELDS,
+  type AuditDiff,
+} from "@/utils/audit-utils"
+import { normalizeEmail } from "@/utils/auth-utils"
+import { hashIp } from "@/utils/metrics-utils"
+import { can } from "@/utils/permissions"
+
+type Subject = Pick<
+  PrivacyRequest,
+  "subjectUserId" | "subjectEmail" | "fingerprints" | "ipHashes"
+>
+
+/** E-mail considerado para comentários/convites: o informado ou o da conta */
+async function resolveSubject(request: Subject) {
+  const user = request.subjectUserId
+    ? await prisma.user.findUnique({
+        where: { id: request.subjectUserId },
+        select: {
+          id: true,
+          username: true,
+          name: true,
+          email: true,
+          role: true,
+          description: true,
+          website: true,
+          linkedinHandle: true,
+          twitterHandle: true,
+          avatarKey: true,
+          avatarUpdatedAt: true,
+          twoFactorEnabled: true,
+          deactivatedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      })
+    : null
+
+  const emails = [
+    ...new Set(
+      [request.subjectEmail, user?.email]
+        .filter((e): e is string => !!e)
+        .map((e) => e.toLowerCase()),
+    ),
+  ]
+
+  return { user, emails }
+}
+
+function commentsWhere(
+  userId: string | undefined,
+  emails: string[],
+): Prisma.CommentWhereInput {
+  return {
+    OR: [
+      ...(userId ? [{ authorId: userId }] : []),
+      ...emails.map((email) => ({
+        email: { equals: email, mode: "insensitive" as const },
+      })),
+    ],
+  }
+}
+
+function postViewsWhere(request: Subject): Prisma.PostViewWhereInput {
+  return {
+    OR: [
+      ...(request.fingerprints.length
+        ? [{ fingerprint: { in: request.fingerprints } }]
+        : []),
+      ...(request.ipHashes.length
+        ? [{ ipHash: { in: request.ipHashes } }]
+        : []),
+    ],
+  }
+}
+
+/** Reúne todos os registros ligados ao titular em um único objeto JSON */
+export async function buildPrivacyExport(request: Subject) {
+  const { user, emails } = await resolveSubject(request)
+  const hasViews =
+    request.fingerprints.length > 0 || request.ipHashes.length > 0
+  const hasComments = !!user || emails.length > 0
+
+  const [posts, comments, sessions, auditEvents, apiKeys, invites, postViews] =
+    await Promise.all([
+      user
+        ? prisma.post.findMany({
+            where: { authorId: user.id },
+            select: {
+              id: true,
+              title: true,
+              slug: true,
+              status: true,
+              createdAt: true,
+              publishedAt: true,
+            },
+          })
+        : [],
+      hasComments
+        ? prisma.comment.findMany({
+            where: commentsWhere(user?.id, emails),
+            select: {
+              id: true,
+              postId: true,
+              name: true,
+              email: true,
+              content: true,
+              isApproved: true,
+              createdAt: true,
+            },
+          })
+        : [],
+      user
+        ? prisma.session.findMany({
+            where: { userId: user.id },
+            select: {
+              id: true,
+              userAgent: true,
+              ip: true,
+              createdAt: true,
+              lastUsedAt: true,
+              expiresAt: true,
+              revokedAt: true,
+            },
+          })
+        : [],
+      user
+        ? prisma.auditEvent.findMany({
+            where: { actorId: user.id },
+            select: {
+              action: true,
+              targetType: true,
+              targetId: true,
+              ip: true,
+              userAgent: true,
+              createdAt: true,
+            },
+          })
+        : [],
+      user
+        ? prisma.apiKey.findMany({
+            where: { createdById: user.id },
+            select: { name: true, prefix: true, createdAt: true },
+          })
+        : [],
+      emails.length
+        ? prisma.invite.findMany({
+            where: { email: { in: emails, mode: "insensitive" } },
+            select: {
+              email: true,
+              role: true,
+              createdAt: true,
+              acceptedAt: true,
+            },
+          })
+        : [],
+      hasViews
+        ? prisma.postView.findMany({
+            where: postViewsWhere(request),
+            select: {
+              postId: true,
+              day: true,
+              ua: true,
+              referrer: true,
+              path: true,
+              device: true,
+              browser: true,
+              os: true,
+              country: true,
+              createdAt: true,
+            },
+          })
+        : [],
+    ])
+
+  const { avatarKey, ...account } = user ?? { avatarKey: null }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    account: user ? { ...account, hasAvatar: !!avatarKey } : null,
+    posts,
+    comments,
+    sessions,
+    auditEvents,
+    apiKeys,
+    invites,
+    postViews,
+  }
+}
+
+/**
+ * Elimina/anonimiza os dados do titular:
+ * - comentários ficam sem autor, nome e e-mail (o conteúdo é mantido)
+ * - PostViews correspondentes perdem fingerprint, hash de IP e user agent
+ * - a conta é excluída (posts vão para `reassignTo`), com avatar e sessões
+ * - eventos de auditoria sobre a conta têm os dados pessoais do diff removidos
+ */
+export async function erasePersonalData(
+  request: Subject & Pick<PrivacyRequest, "reassignTo">,
+) {
+  const { user, emails } = await resolveSubject(request)
+  const hasViews =
+    request.fingerprints.length > 0 || request.ipHashes.length > 0
+
+  if (user) {
+    const postsCount = await prisma.post.count({ where: { authorId: user.id } })
+    if (postsCount > 0) {
+      const target = request.reassignTo
+        ? await prisma.user.findUnique({
+            where: { id: request.reassignTo },
+            select: { id: true, role: true, deactivatedAt: true },
+          })
+        : null
+      if (!target || target.deactivatedAt || !can(target, "post:create")) {
+        throw new Error("novo autor inválido para os posts do titular")
+      }
+    }
+  }
+
+  // o avatar sai antes da conta: se o S3 falhar, a solicitação fica FAILED
+  // e nada é eliminado, em vez de concluir com a imagem ainda no bucket
+  if (user?.avatarKey) {
+    try {
+      await deleteFromS3(user.avatarKey)
+    } catch (err) {
+      console.error("[ProcessPrivacyRequest] ❌ erro ao remover avatar", err)
+      throw new Error("não foi possível remover o avatar do titular do S3")
+    }
+  }
+
+  const report = await prisma.$transaction(async (tx) => {
+    const comments =
+      user || emails.length
+        ? await tx.comment.updateMany({
+            where: commentsWhere(user?.id, emails),
+            data: { authorId: null, name: null, email: null },
+          })
+        : { count: 0 }
+
+    const postViews = hasViews
+      ? await tx.postView.updateMany({
+          where: postViewsWhere(request),
+          data: { fingerprint: null, ipHash: null, ua: null },
+        })
+      : { count: 0 }
+
+    const previewUses = request.ipHashes.length
+      ? await tx.postPreviewUse.updateMany({
+          where: { ipHash: { in: request.ipHashes } },
+          data: { ipHash: null, userAgent: null },
+        })
+      : { count: 0 }
+
+    const invites = emails.length
+      ? await tx.invite.deleteMany({
+          where: { email: { in: emails, mode: "insensitive" } },
+        })
+      : { count: 0 }
+
+    let reassignedPosts = 0
+    if (user) {
+      if (request.reassignTo) {
+        const moved = await tx.post.updateMany({
+          where: { authorId: user.id },
+          data: { authorId: request.reassignTo },
+        })
+        reassignedPosts = moved.count
+      }
+
+      // o histórico de auditoria é mantido, mas sem IP/user agent do titular
+      await tx.auditEvent.updateMany({
+        where: { actorId: user.id },
+        data: { ip: null, userAgent: null },
+      })
+
+      // eventos sobre a conta guardam nome, e-mail etc. no diff
+      const userEvents = await tx.auditEvent.findMany({
+        where: {
+          targetType: "user",
+          targetId: user.id,
+          diff: { not: Prisma.DbNull },
+        },
+        select: { id: true, diff: true },
+      })
+      for (const event of userEvents) {
+        await tx.auditEvent.update({
+          where: { id: event.id },
+          data: {
+            diff: redactAuditDiff(
+              event.diff as AuditDiff,
+              USER_PERSONAL_AUDIT_FIELDS,
+            ) as Prisma.InputJsonValue,
+          },
+        })
+      }
+
+      await tx.user.delete({ where: { id: user.id } })
+    }
+
+    return {
+      accountDeleted: !!user,
+      reassignedPosts,
+      anonymizedComments: comments.count,
+      scrubbedPostViews: postViews.count,
+      scrubbedPreviewUses: previewUses.count,
+      deletedInvites: invites.count,
+    }
+  })
+
+  return report
+}
+
+/** Identificadores aceitos para localizar o titular dos dados */
+export const privacySubjectSchema = z.object({
+  userId: z.string().uuid().optional(),
+  email: z.string().trim().email().optional(),
+  fingerprints: z.array(z.string().trim().min(1).max(255)).max(50).default([]),
+  ips: z.array(z.string().trim().min(1).max(64)).max(50).default([]),
+})
+
+/** Normaliza o corpo da solicitação: IPs nunca são gravados em claro */
+export function toPrivacySubject(body: z.infer<typeof privacySubjectSchema>) {
+  if (
+    !body.userId &&
+    !body.email &&
+    body.fingerprints.length === 0 &&
+    body.ips.length === 0
+  ) {
+    throw new BadRequestError(
+      "Informe ao menos um identificador: userId, email, fingerprints ou ips.",
+    )
+  }
+
+  return {
+    subjectUserId: body.userId ?? null,
+    subjectEmail: body.email ? normalizeEmail(body.email) : null,
+    fingerprints: [...new Set(body.fingerprints)],
+    ipHashes: [...new Set(body.ips.map(hashIp))],
+  }
+}
@@ -0,0 +1,38 @@
+import { env } from "@/env"
+
+/**
+ * Aceita "@handle", "handle" ou a URL completa do perfil e devolve só o handle.
+ * Ex.: "https://www.linkedin.com/in/joao/" -> "joao"
+ */
+export function normalizeSocialHandle(input: string) {
+  const trimmed = input.trim().replace(/\/+$/, "")
+  const last = trimmed.split("/").pop() ?? ""
+  return last.replace(/^@/, "")
+}
+
+export function socialLinksFor(user: {
+  website: string | null
+  linkedinHandle: string | null
+  twitterHandle: string | null
+}) {
+  return {
+    website: user.website,
+    linkedin: user.linkedinHandle
+      ? `https://www.linkedin.com/in/${user.linkedinHandle}`
+      : null,
+    twitter: user.twitterHandle ? `https://x.com/${user.twitterHandle}` : null,
+  }
+}
+
+/** URL pública do avatar (stream em /users/avatar/:username), com cache-busting */
+export function avatarUrlFor(user: {
+  username: string
+  avatarKey: string | null
+  avatarUpdatedAt: Date | null
+}) {
+  if (!user.avatarKey) return null
+  const version = user.avatarUpdatedAt?.getTime()
+  return `${env.API_URL}/users/avatar/${encodeURIComponent(user.username)}${
+    version ? `?v=${version}` : ""
+  }`
+}
@@ -0,0 +1,245 @@
+import { prisma } from "@/lib/prisma"
+import { redis } from "@/lib/redis"
+import { jsonToPlainText, slugify } from "@/utils/blog-utils"
+import {
+  isCurrentContent,
+  type ContentBlock,
+  type ContentInline,
+  type PostContent,
+} from "@/utils/content-utils"
+
+/**
+ * Renderiza o documento em blocos como HTML semântico.
+ * Todo texto é escapado e só geramos as tags abaixo — nenhum HTML do
+ * conteúdo é repassado. Embeds viram iframes apenas para URLs de player
+ * montadas aqui a partir de provedores conhecidos.
+ */
+
+// o HTML muda quando o post muda: a chave inclui o updatedAt
+const HTML_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60
+const htmlCacheKey = (postId: string, updatedAt: Date) =>
+  `post:html:${postId}:${updatedAt.getTime()}`
+
+type RenderMedia = {
+  url: string
+  alt: string | null
+  width: number | null
+  height: number | null
+}
+
+const escapeHtml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+
+function safeHref(href: string) {
+  try {
+    const url = new URL(href)
+    return ["http:", "https:", "mailto:"].includes(url.protocol)
+      ? url.toString()
+      : null
+  } catch {
+    return null
+  }
+}
+
+const MARK_TAGS = {
+  bold: "strong",
+  italic: "em",
+  underline: "u",
+  strike: "s",
+  code: "code",
+} as const
+
+function renderInlines(children: ContentInline[]) {
+  return children
+    .map((inline) => {
+      let html = escapeHtml(inline.text).replace(/\n/g, "<br>")
+      for (const mark of inline.marks ?? []) {
+        const tag = MARK_TAGS[mark]
+        html = `<${tag}>${html}</${tag}>`
+      }
+      const href = inline.href ? safeHref(inline.href) : null
+      if (href) {
+        const external = !href.startsWith("mailto:")
+        html = `<a href="${escapeHtml(href)}"${
+          external ? ' rel="noopener noreferrer nofollow" target="_blank"' : ""
+        }>${html}</a>`
+      }
+      return html
+    })
+    .join("")
+}
+
+function embedPlayerUrl(provider: string, url: string) {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+
+  if (provider === "youtube") {
+    const id =
+      parsed.hostname === "youtu.be"
+        ? parsed.pathname.slice(1)
+        : (parsed.searchParams.get("v") ??
+          parsed.pathname.match(/^\/(?:embed|shorts)\/([^/]+)/)?.[1])
+    return id && /^[\w-]{6,20}$/.test(id)
+      ? `https://www.youtube-nocookie.com/embed/${id}`
+      : null
+  }
+
+  if (provider === "vimeo") {
+    const id = parsed.pathname.match(/\/(\d+)/)?.[1]
+    return id ? `https://player.vimeo.com/video/${id}` : null
+  }
+
+  if (provider === "spotify") {
+    const path = parsed.pathname.match(
+      /^\/(track|album|playlist|episode|show)\/[A-Za-z0-9]+/,
+    )?.[0]
+    return path ? `https://open.spotify.com/embed${path}` : null
+  }
+
+  return null
+}
+
+function renderBlock(
+  block: ContentBlock,
+  media: Map<string, RenderMedia>,
+  anchors: Map<string, number>,
+) {
+  switch (block.type) {
+    case "paragraph":
+      return `<p>${renderInlines(block.children)}</p>`
+
+    case "heading": {
+      const text = block.children.map((c) => c.text).join("")
+      const base = slugify(text) || "secao"
+      const seen = anchors.get(base) ?? 0
+      anchors.set(base, seen + 1)
+      const id = seen === 0 ? base : `${base}-${seen + 1}`
+      const tag = `h${block.level}`
+      return `<${tag} id="${id}"><a class="heading-anchor" href="#${id}" aria-hidden="true">#</a>${renderInlines(block.children)}</${tag}>`
+    }
+
+    case "image": {
+      const item = media.get(block.mediaId)
+      if (!item) return ""
+      const alt = block.alt || item.alt || ""
+      const size =
+        item.width && item.height
+          ? ` width="${item.width}" height="${item.height}"`
+          : ""
+      const caption = block.caption
+        ? `<figcaption>${escapeHtml(block.caption)}</figcaption>`
+        : ""
+      return `<figure><img src="${escapeHtml(item.url)}" alt="${escapeHtml(alt)}"${size} loading="lazy" decoding="async">${caption}</figure>`
+    }
+
+    case "quote": {
+      const cite = block.cite ? `<cite>${escapeHtml(block.cite)}</cite>` : ""
+      return `<blockquote><p>${renderInlines(block.children)}</p>${cite}</blockquote>`
+    }
+
+    case "code": {
+      const language = block.language
+        ?.toLowerCase()
+        .replace(/[^a-z0-9+#-]/g, "")
+      const cls = language ? ` class="language-${language}"` : ""
+      return `<pre><code${cls}>${escapeHtml(block.code)}</code></pre>`
+    }
+
+    case "embed": {
+      const player = embedPlayerUrl(block.provider, block.url)
+      const caption = block.caption
+        ? `<figcaption>${escapeHtml(block.caption)}</figcaption>`
+        : ""
+      const inner = player
+        ? `<iframe src="${escapeHtml(player)}" loading="lazy" allowfullscreen referrerpolicy="strict-origin-when-cross-origin" sandbox="allow-scripts allow-same-origin allow-presentation"></iframe>`
+        : `<a href="${escapeHtml(block.url)}" rel="noopener noreferrer nofollow" target="_blank">${escapeHtml(block.url)}</a>`
+      return `<figure class="embed embed-${block.provider}">${inner}${caption}</figure>`
+    }
+
+    case "list": {
+      const tag = block.style === "ordered" ? "ol" : "ul"
+      const items = block.items
+        .map((item) => `<li>${renderInlines(item.children)}</li>`)
+        .join("")
+      return `<${tag}>${items}</${tag}>`
+    }
+
+    case "table": {
+      const row = (cells: (typeof block.rows)[number], cellTag: string) =>
+        `<tr>${cells
+          .map(
+            (cell) =>
+              `<${cellTag}>${renderInlines(cell.children)}</${cellTag}>`,
+          )
+          .join("")}</tr>`
+      const [first, ...rest] = block.rows
+      const head = block.header ? `<thead>${row(first, "th")}</thead>` : ""
+      const body = (block.header ? rest : block.rows)
+        .map((r) => row(r, "td"))
+        .join("")
+      return `<table>${head}<tbody>${body}</tbody></table>`
+    }
+  }
+}
+
+/** Renderiza o conteúdo; documentos fora do schema atual viram texto simples */
+export async function renderContentHtml(content: unknown) {
+  if (!isCurrentContent(content)) {
+    const text = jsonToPlainText(content)
+    return text ? `<p>${escapeHtml(text)}</p>` : ""
+  }
+
+  const media = await loadContentMedia(content)
+  const anchors = new Map<string, number>()
+
+  return content.blocks
+    .map((block) => renderBlock(block, media, anchors))
+    .filter(Boolean)
+    .join("\n")
+}
+
+async function loadContentMedia(content: PostContent) {
+  const ids = [
+    ...new Set(
+      content.blocks.flatMap((b) => (b.type === "image" ? [b.mediaId] : [])),
+    ),
+  ]
+  if (ids.length === 0) return new Map<string, RenderMedia>()
+
+  const rows = await prisma.media.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, url: true, alt: true, width: true, height: true },
+  })
+  return new Map(rows.map(({ id, ...m }) => [id, m]))
+}
+
+/** HTML do post publicado, reaproveitado enquanto o post não mudar */
+export async function getCachedPostHtml(post: {
+  id: string
+  updatedAt: Date
+  content: unknown
+}) {
+  const key = htmlCacheKey(post.id, post.updatedAt)
+
+  try {
+    const cached = await redis.get(key)
+    if (cached !== null) return cached
+  } catch {}
+
+  const html = await renderContentHtml(post.content)
+
+  try {
+    await redis.set(key, html, "EX", HTML_CACHE_TTL_SECONDS)
+  } catch {}
+
+  return html
+}
@@ -0,0 +1,219 @@
+import type { Prisma } from "@prisma/client"
+
+import { prisma } from "@/lib/prisma"
+import { jsonToPlainText } from "@/utils/blog-utils"
+
+/**
+ * Política de retenção das revisões, aplicada pelo job PrunePostRevisions:
+ * - as `keepLatest` revisões mais recentes de cada post nunca são removidas
+ * - além delas, removemos as mais antigas que `maxAgeDays`
+ * - e, independente da idade, nada além de `maxPerPost` por post
+ */
+export const REVISION_RETENTION = {
+  keepLatest: 10,
+  maxAgeDays: 90,
+  maxPerPost: 50,
+} as const
+
+/** Campos de metadados comparados no diff entre revisões */
+export const REVISION_DIFF_FIELDS = [
+  "title",
+  "slug",
+  "excerpt",
+  "coverId",
+  "status",
+  "visibility",
+  "categoryNames",
+  "tagNames",
+] as const
+
+/**
+ * Trava a linha do post até o fim da transação: edições concorrentes do mesmo
+ * post esperam aqui em vez de calcular a mesma próxima versão (P2002).
+ */
+async function lockPostForRevision(
+  tx: Prisma.TransactionClient,
+  postId: string,
+) {
+  await tx.$queryRaw`SELECT 1 FROM "Post" WHERE "id" = ${postId} FOR UPDATE`
+}
+
+/**
+ * Grava o estado atual do post como nova revisão.
+ * Deve rodar na mesma transação da escrita do post.
+ */
+export async function recordPostRevision(
+  tx: Prisma.TransactionClient,
+  postId: string,
+  editorId: string | null,
+  restoredFromVersion?: number,
+) {
+  await lockPostForRevision(tx, postId)
+
+  const post = await tx.post.findUniqueOrThrow({
+    where: { id: postId },
+    select: {
+      title: true,
+      slug: true,
+      excerpt: true,
+      content: true,
+      coverId: true,
+      status: true,
+      visibility: true,
+      categories: {
+        select: { category: { select: { name: true } } },
+        orderBy: { category: { name: "asc" } },
+      },
+      tags: {
+        select: { tag: { select: { name: true } } },
+        orderBy: { tag: { name: "asc" } },
+      },
+    },
+  })
+
+  const last = await tx.postRevision.findFirst({
+    where: { postId },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  })
+
+  const { categories, tags, content, ...fields } = post
+
+  return tx.postRevision.create({
+    data: {
+      ...fields,
+      content: content as Prisma.InputJsonValue,
+      postId,
+      version: (last?.version ?? 0) + 1,
+      categoryNames: categories.map((c) => c.category.name),
+      tagNames: tags.map((t) => t.tag.name),
+      editorId,
+      restoredFromVersion: restoredFromVersion ?? null,
+    },
+    select: { id: true, version: true },
+  })
+}
+
+/**
+ * Posts criados antes do histórico não têm revisões: antes da primeira edição
+ * registramos o estado original, atribuído ao autor, para que ele possa ser restaurado.
+ */
+export async function ensureBaselineRevision(
+  tx: Prisma.TransactionClient,
+  postId: string,
+  authorId: string,
+) {
+  await lockPostForRevision(tx, postId)
+
+  const count = await tx.postRevision.count({ where: { postId } })
+  if (count === 0) await recordPostRevision(tx, postId, authorId)
+}
+
+export type TextChange = {
+  op: "equal" | "insert" | "delete"
+  text: string
+}
+
+// acima disso a matriz do LCS fica cara demais; caímos para "tudo trocado"
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Diff por palavras entre dois conteúdos de editor, usando o texto
+ * extraído por `jsonToPlainText` (LCS com prefixo/sufixo comuns aparados).
+ */
+export function diffContent(before: unknown, after: unknown) {
+  const a = splitWords(jsonToPlainText(before))
+  const b = splitWords(jsonToPlainText(after))
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const changes: TextChange[] = []
+  const push = (op: TextChange["op"], word: string) => {
+    const last = changes[changes.length - 1]
+    if (last && last.op === op) last.text += ` ${word}`
+    else changes.push({ op, text: word })
+  }
+
+  a.slice(0, start).forEach((w) => push("equal", w))
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach((w) => push("delete", w))
+    midB.forEach((w) => push("insert", w))
+  } else {
+    // lcs[i][j] = tamanho da maior subsequência comum de midA[i..] e midB[j..]
+    const cols = midB.length + 1
+    const lcs = new Uint32Array((midA.length + 1) * cols)
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * cols + j + 1] + 1
+            : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push("equal", midA[i++])
+        j++
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        push("delete", midA[i++])
+      } else {
+        push("insert", midB[j++])
+      }
+    }
+    while (i < midA.length) push("delete", midA[i++])
+    while (j < midB.length) push("insert", midB[j++])
+  }
+
+  a.slice(endA).forEach((w) => push("equal", w))
+
+  const count = (op: TextChange["op"]) =>
+    changes
+      .filter((c) => c.op === op)
+      .reduce((sum, c) => sum + splitWords(c.text).length, 0)
+
+  return {
+    changes,
+    stats: { wordsAdded: count("insert"), wordsRemoved: count("delete") },
+  }
+}
+
+function splitWords(text: string) {
+  return text.split(/\s+/).filter(Boolean)
+}
+
+/** Remove revisões fora da política de retenção; retorna quantas foram apagadas */
+export async function prunePostRevisions(now = new Date()) {
+  const cutoff = new Date(
+    now.getTime() - REVISION_RETENTION.maxAgeDays * 24 * 60 * 60 * 1000,
+  )
+
+  return prisma.$executeRaw`
+    DELETE FROM "PostRevision"
+    WHERE "id" IN (
+      SELECT "id" FROM (
+        SELECT
+          "id",
+          "createdAt",
+          ROW_NUMBER() OVER (PARTITION BY "postId" ORDER BY "version" DESC) AS rn
+        FROM "PostRevision"
+      ) ranked
+      WHERE ranked.rn > ${REVISION_RETENTION.maxPerPost}
+         OR (ranked.rn > ${REVISION_RETENTION.keepLatest} AND ranked."createdAt" < ${cutoff})
+    )
+  `
+}
@@ -0,0 +1,212 @@
+import { PostStatus, Visibility, type Prisma } from "@prisma/client"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { BadRequestError } from "@/http/_errors/bad-request-error"
+import { ConflictError } from "@/http/_errors/conflict-error"
+import { slugify } from "@/utils/blog-utils"
+
+/**
+ * Séries: lista ordenada de posts. As rotas públicas só enxergam os posts
+ * publicados e públicos da série; a posição exibida é recalculada sobre eles.
+ */
+
+export const SERIES_MAX_POSTS = 100
+
+const visiblePostWhere = {
+  status: PostStatus.PUBLISHED,
+  visibility: Visibility.PUBLIC,
+  deletedAt: null,
+} satisfies Prisma.PostWhereInput
+
+export const seriesPostSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  slug: z.string(),
+})
+
+export const seriesNavigationSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  slug: z.string(),
+  position: z.number().int(),
+  total: z.number().int(),
+  previous: seriesPostSchema.nullable(),
+  next: seriesPostSchema.nullable(),
+})
+
+/** Série com todos os posts (qualquer status), para as rotas admin */
+export const adminSeriesSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  posts: z.array(
+    seriesPostSchema.extend({
+      position: z.number().int(),
+      status: z.nativeEnum(PostStatus),
+      visibility: z.nativeEnum(Visibility),
+    }),
+  ),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+})
+
+export async function loadAdminSeries(
+  db: Prisma.TransactionClient,
+  seriesId: string,
+): Promise<z.infer<typeof adminSeriesSchema> | null> {
+  const series = await db.series.findUnique({
+    where: { id: seriesId },
+    include: {
+      posts: {
+        where: { post: { deletedAt: null } },
+        orderBy: { position: "asc" },
+        select: {
+          position: true,
+          post: {
+            select: {
+              id: true,
+              title: true,
+              slug: true,
+              status: true,
+              visibility: true,
+            },
+          },
+        },
+      },
+    },
+  })
+  if (!series) return null
+
+  return {
+    id: series.id,
+    title: series.title,
+    slug: series.slug,
+    description: series.description,
+    posts: series.posts.map(({ position, post }) => ({ ...post, position })),
+    createdAt: series.createdAt.toISOString(),
+    updatedAt: series.updatedAt.toISOString(),
+  }
+}
+
+/** Slug livre para a série (o próprio slug da série é aceito na edição) */
+export async function makeUniqueSeriesSlug(base: string, exceptId?: string) {
+  const baseSlug = slugify(base)
+  if (!baseSlug) throw new BadRequestError("slug inválido.")
+
+  let candidate = baseSlug
+  let suffix = 2
+
+  while (true) {
+    const found = await prisma.series.findFirst({
+      where: {
+        slug: candidate,
+        ...(exceptId ? { NOT: { id: exceptId } } : {}),
+      },
+      select: { id: true },
+    })
+    if (!found) return candidate
+    candidate = `${baseSlug}-${suffix++}`
+  }
+}
+
+/**
+ * Substitui os posts da série, na ordem informada.
+ * Um post só pode estar em uma série: posts de outra série geram conflito.
+ */
+export async function replaceSeriesPosts(
+  tx: Prisma.TransactionClient,
+  seriesId: string,
+  postIds: string[],
+) {
+  const ids = [...new Set(postIds)]
+  if (ids.length !== postIds.length) {
+    throw new BadRequestError("Um post não pode se repetir na série.")
+  }
+
+  const posts = await tx.post.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    select: { id: true, series: { select: { seriesId: true } } },
+  })
+
+  const found = new Set(posts.map((p) => p.id))
+  const missing = ids.filter((id) => !found.has(id))
+  if (missing.length > 0) {
+    throw new BadRequestError(`Posts não encontrados: ${missing.join(", ")}.`)
+  }
+
+  const taken = posts
+    .filter((p) => p.series && p.series.seriesId !== seriesId)
+    .map((p) => p.id)
+  if (taken.length > 0) {
+    throw new ConflictError("Posts já pertencem a outra série.", {
+      postIds: taken,
+    })
+  }
+
+  await tx.seriesPost.deleteMany({ where: { seriesId } })
+  if (ids.length > 0) {
+    await tx.seriesPost.createMany({
+      data: ids.map((postId, index) => ({
+        seriesId,
+        postId,
+        position: index + 1,
+      })),
+    })
+  }
+}
+
+/** Posts visíveis da série, na ordem */
+export async function listVisibleSeriesPosts(seriesId: string) {
+  const rows = await prisma.seriesPost.findMany({
+    where: { seriesId, post: visiblePostWhere },
+    orderBy: { position: "asc" },
+    select: {
+      post: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          excerpt: true,
+          publishedAt: true,
+          readTime: true,
+          cover: { select: { url: true } },
+        },
+      },
+    },
+  })
+  return rows.map((r) => r.post)
+}
+
+/**
+ * Navegação da série para a página do post (anterior/próximo/posição).
+ * O post atual entra na conta mesmo fora do ar (pré-visualização).
+ */
+export async function getSeriesNavigation(postId: string) {
+  const entry = await prisma.seriesPost.findUnique({
+    where: { postId },
+    select: { series: { select: { id: true, title: true, slug: true } } },
+  })
+  if (!entry) return null
+
+  const rows = await prisma.seriesPost.findMany({
+    where: {
+      seriesId: entry.series.id,
+      OR: [{ postId }, { post: visiblePostWhere }],
+    },
+    orderBy: { position: "asc" },
+    select: { post: { select: { id: true, title: true, slug: true } } },
+  })
+
+  const posts = rows.map((r) => r.post)
+  const index = posts.findIndex((p) => p.id === postId)
+
+  return {
+    ...entry.series,
+    position: index + 1,
+    total: posts.length,
+    previous: posts[index - 1] ?? null,
+    next: posts[index + 1] ?? null,
+  }
+}
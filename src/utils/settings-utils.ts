@@ -0,0 +1,21 @@
+import { prisma } from "@/lib/prisma"
+import type { Prisma } from "@prisma/client"
+
+/** Chaves conhecidas da tabela AppSetting */
+export const SETTINGS = {
+  requireTwoFactorForAdmins: "security.requireTwoFactorForAdmins",
+  postTrashRetentionDays: "posts.trashRetentionDays",
+} as const
+
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const row = await prisma.appSetting.findUnique({ where: { key } })
+  return row ? (row.value as T) : fallback
+}
+
+export async function setSetting(key: string, value: Prisma.InputJsonValue) {
+  await prisma.appSetting.upsert({
+    where: { key },
+    update: { value },
+    create: { key, value },
+  })
+}
@@ -0,0 +1,96 @@
+import { redis } from "@/lib/redis"
+import { AccountLockedError } from "@/http/_errors/account-locked-error"
+
+/**
+ * Proteção contra força bruta no login por senha e no segundo fator (2FA):
+ * códigos TOTP errados contam no mesmo contador do username.
+ * Chaves no Redis:
+ * - auth:signin:fail:user:<username> / auth:signin:fail:ip:<ip>  (contadores de falhas)
+ * - auth:signin:lock:user:<username> / auth:signin:lock:ip:<ip>  (bloqueio temporário, TTL = duração)
+ *
+ * A partir do limite, cada nova falha dobra o bloqueio (1 min, 2, 4, ... até 1 h).
+ * O contador por IP é mais tolerante para não punir redes compartilhadas.
+ */
+const SIGN_IN_GUARDS = {
+  user: { threshold: 5, windowSeconds: 60 * 60 * 24 },
+  ip: { threshold: 20, windowSeconds: 60 * 60 },
+} as const
+
+type GuardScope = keyof typeof SIGN_IN_GUARDS
+
+const LOCK_BASE_MS = 60 * 1000 // 1 minuto
+const LOCK_MAX_MS = 60 * 60 * 1000 // 1 hora
+
+/** Falhas consecutivas que disparam o e-mail de alerta ao dono da conta */
+export const SIGN_IN_ALERT_THRESHOLD = 10
+
+function normalizeUsername(username: string) {
+  return username.trim().toLowerCase()
+}
+
+function failKey(scope: GuardScope, id: string) {
+  return `auth:signin:fail:${scope}:${id}`
+}
+
+function lockKey(scope: GuardScope, id: string) {
+  return `auth:signin:lock:${scope}:${id}`
+}
+
+export function lockDurationMs(failures: number, threshold: number) {
+  if (failures < threshold) return 0
+  return Math.min(LOCK_BASE_MS * 2 ** (failures - threshold), LOCK_MAX_MS)
+}
+
+/** Lança AccountLockedError se o usuário ou o IP estiverem bloqueados */
+export async function assertSignInAllowed(username: string, ip: string) {
+  const [userTtl, ipTtl] = await Promise.all([
+    redis.pttl(lockKey("user", normalizeUsername(username))),
+    redis.pttl(lockKey("ip", ip)),
+  ])
+
+  const ttl = Math.max(userTtl, ipTtl)
+  if (ttl > 0) {
+    const seconds = Math.ceil(ttl / 1000)
+    throw new AccountLockedError(
+      `Muitas tentativas de login. Tente novamente em ${seconds} segundos.`,
+      seconds,
+    )
+  }
+}
+
+async function registerFailure(scope: GuardScope, id: string) {
+  const { threshold, windowSeconds } = SIGN_IN_GUARDS[scope]
+
+  const [[, failures]] = (await redis
+    .multi()
+    .incr(failKey(scope, id))
+    .expire(failKey(scope, id), windowSeconds)
+    .exec()) as [[Error | null, number], [Error | null, number]]
+
+  const lockMs = lockDurationMs(failures, threshold)
+  if (lockMs > 0) {
+    await redis.set(lockKey(scope, id), "1", "PX", lockMs)
+  }
+
+  return failures
+}
+
+/** Registra a falha nos dois contadores e devolve o total de falhas do username */
+export async function registerSignInFailure(username: string, ip: string) {
+  const [userFailures] = await Promise.all([
+    registerFailure("user", normalizeUsername(username)),
+    registerFailure("ip", ip),
+  ])
+  return userFailures
+}
+
+/** Login concluído (inclusive o 2FA) ou desbloqueio pelo admin zera o histórico do username */
+export async function clearSignInFailures(username: string) {
+  const id = normalizeUsername(username)
+  await redis.del(failKey("user", id), lockKey("user", id))
+}
+
+export async function getSignInLockTtlSeconds(username: string) {
+  const ttl = await redis.pttl(lockKey("user", normalizeUsername(username)))
+  return ttl > 0 ? Math.ceil(ttl / 1000) : 0
+}
@@ -0,0 +1,121 @@
+import crypto from "crypto"
+
+/**
+ * TOTP (RFC 6238) sobre HOTP (RFC 4226), compatível com Google Authenticator,
+ * Authy etc.: HMAC-SHA1, 6 dígitos, passo de 30s, segredo em base32.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+const DIGITS = 6
+const STEP_SECONDS = 30
+
+export function base32Encode(buffer: Buffer) {
+  let bits = 0
+  let value = 0
+  let output = ""
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+
+  return output
+}
+
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s+/g, "")
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of clean) {
+    const idx = BASE32_ALPHABET.indexOf(char)
+    if (idx === -1) throw new Error("Invalid base32 character")
+    value = (value << 5) | idx
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/** Segredo de 160 bits (tamanho recomendado pela RFC 4226) */
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+export function hotp(secret: string, counter: number) {
+  const msg = Buffer.alloc(8)
+  msg.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(msg)
+    .digest()
+
+  // truncamento dinâmico
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff)
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0")
+}
+
+export function totpCounter(time = Date.now()) {
+  return Math.floor(time / 1000 / STEP_SECONDS)
+}
+
+/**
+ * Valida o código aceitando ±`window` passos (tolerância de relógio).
+ * Retorna o contador que casou, ou null. Passos <= `afterCounter` são
+ * recusados para que um código já usado não seja aceito de novo.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  { window = 1, afterCounter }: { window?: number; afterCounter?: number } = {},
+) {
+  if (!/^\d{6}$/.test(code)) return null
+
+  const current = totpCounter()
+  for (let i = -window; i <= window; i++) {
+    const counter = current + i
+    if (afterCounter !== undefined && counter <= afterCounter) continue
+
+    const expected = Buffer.from(hotp(secret, counter))
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) return counter
+  }
+
+  return null
+}
+
+export function buildOtpAuthUri({
+  issuer,
+  account,
+  secret,
+}: {
+  issuer: string
+  account: string
+  secret: string
+}) {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
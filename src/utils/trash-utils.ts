@@ -0,0 +1,57 @@
+import { prisma } from "@/lib/prisma"
+import { getSetting, SETTINGS } from "@/utils/settings-utils"
+
+/**
+ * Lixeira de posts: a exclusão só marca `deletedAt`; o job PurgeDeletedPosts
+ * remove de vez (com comentários, views e revisões) os posts que passaram do
+ * período de retenção, configurável em AppSetting.
+ */
+export const TRASH_RETENTION = {
+  defaultDays: 30,
+  minDays: 1,
+  maxDays: 365,
+} as const
+
+const PURGE_BATCH_SIZE = 100
+
+export async function getTrashRetentionDays() {
+  const days = await getSetting<number>(
+    SETTINGS.postTrashRetentionDays,
+    TRASH_RETENTION.defaultDays,
+  )
+  return Number.isInteger(days) && days >= TRASH_RETENTION.minDays
+    ? Math.min(days, TRASH_RETENTION.maxDays)
+    : TRASH_RETENTION.defaultDays
+}
+
+/** Data em que um post da lixeira será purgado */
+export function trashPurgeAt(deletedAt: Date, retentionDays: number) {
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000)
+}
+
+/** Remove definitivamente os posts vencidos; devolve quantos foram removidos */
+export async function purgeDeletedPosts(now = new Date()) {
+  const retentionDays = await getTrashRetentionDays()
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+  let purged = 0
+
+  for (;;) {
+    const rows = await prisma.post.findMany({
+      where: { deletedAt: { lte: cutoff } },
+      orderBy: { deletedAt: "asc" },
+      select: { id: true },
+      take: PURGE_BATCH_SIZE,
+    })
+    if (rows.length === 0) break
+
+    // reconfere o deletedAt: um post restaurado no meio do lote fica
+    const res = await prisma.post.deleteMany({
+      where: { id: { in: rows.map((r) => r.id) }, deletedAt: { lte: cutoff } },
+    })
+    purged += res.count
+
+    if (rows.length < PURGE_BATCH_SIZE) break
+  }
+
+  return purged
+}
@@ -0,0 +1,195 @@
+import crypto from "crypto"
+import type { FastifyReply, FastifyRequest } from "fastify"
+import { z } from "zod"
+
+import { prisma } from "@/lib/prisma"
+import { redis } from "@/lib/redis"
+import { UnauthorizedError } from "@/http/_errors/unauthorized-error"
+import { Role } from "@prisma/client"
+import {
+  assertCanAccessSystem,
+  createSession,
+  generateToken,
+  hashToken,
+  incrementAttempts,
+} from "@/utils/auth-utils"
+import { getSetting, SETTINGS } from "@/utils/settings-utils"
+import { verifyTotp } from "@/utils/totp-utils"
+
+/**
+ * Desafios do segundo passo do login:
+ * - auth:2fa:<sha256(challengeToken)> (HASH { userId, purpose, attempts })
+ *   purpose "verify": usuário com 2FA ativo precisa informar o código
+ *   purpose "setup": ADMIN sem 2FA, com a política obrigatória ligada
+ */
+export type TwoFactorChallengePurpose = "verify" | "setup"
+
+const CHALLENGE_TTL_SECONDS = 60 * 5
+const CHALLENGE_MAX_ATTEMPTS = 5
+const RECOVERY_CODES_COUNT = 10
+
+export const TWO_FACTOR_ISSUER = "Certifica"
+
+export async function createTwoFactorChallenge(
+  userId: string,
+  purpose: TwoFactorChallengePurpose,
+) {
+  const challengeToken = generateToken()
+  const key = `auth:2fa:${hashToken(challengeToken)}`
+
+  await redis
+    .multi()
+    .hset(key, { userId, purpose, attempts: 0 })
+    .expire(key, CHALLENGE_TTL_SECONDS)
+    .exec()
+
+  return challengeToken
+}
+
+export async function getTwoFactorChallenge(
+  challengeToken: string,
+  purpose: TwoFactorChallengePurpose,
+) {
+  const key = `auth:2fa:${hashToken(challengeToken)}`
+  const stored = await redis.hgetall(key)
+
+  if (!stored.userId || stored.purpose !== purpose) {
+    throw new UnauthorizedError("desafio inválido ou expirado.")
+  }
+
+  return {
+    userId: stored.userId,
+    async fail() {
+      const attempts = await incrementAttempts(key)
+      if (attempts >= CHALLENGE_MAX_ATTEMPTS) await redis.del(key)
+    },
+    async consume() {
+      if ((await redis.del(key)) !== 1) {
+        throw new UnauthorizedError("desafio inválido ou expirado.")
+      }
+    },
+  }
+}
+
+export async function isTwoFactorRequiredFor(user: { role: Role }) {
+  if (user.role !== Role.ADMIN) return false
+  return getSetting(SETTINGS.requireTwoFactorForAdmins, false)
+}
+
+/** Resposta comum das rotas de login */
+export const signInResponseSchema = z.union([
+  z.object({
+    token: z.string(),
+    refreshToken: z.string(),
+  }),
+  z.object({
+    twoFactor: z.enum(["REQUIRED", "SETUP_REQUIRED"]),
+    challengeToken: z.string(),
+  }),
+])
+
+/**
+ * Ponto único de saída dos fluxos de login (senha, código por e-mail):
+ * emite a sessão ou devolve o desafio de 2FA quando necessário.
+ */
+export async function completeSignIn(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  user: {
+    id: string
+    role: Role
+    deactivatedAt: Date | null
+    twoFactorEnabled: boolean
+  },
+) {
+  assertCanAccessSystem(user)
+
+  if (user.twoFactorEnabled) {
+    return {
+      twoFactor: "REQUIRED" as const,
+      challengeToken: await createTwoFactorChallenge(user.id, "verify"),
+    }
+  }
+
+  if (await isTwoFactorRequiredFor(user)) {
+    return {
+      twoFactor: "SETUP_REQUIRED" as const,
+      challengeToken: await createTwoFactorChallenge(user.id, "setup"),
+    }
+  }
+
+  return createSession(request, reply, user.id)
+}
+
+function normalizeRecoveryCode(code: string) {
+  return code
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-f0-9]/g, "")
+}
+
+/** Gera novos códigos de recuperação (substitui os anteriores) */
+export async function regenerateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex")
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+      })),
+    }),
+  ])
+
+  return codes
+}
+
+/**
+ * Valida o segundo fator: código TOTP ou um código de recuperação (uso único).
+ * Usa updates condicionais para que o mesmo código não seja aceito duas vezes.
+ */
+export async function verifySecondFactor(
+  user: {
+    id: string
+    twoFactorSecret: string | null
+    twoFactorLastCounter: number | null
+  },
+  input: { code?: string; recoveryCode?: string },
+) {
+  if (input.code && user.twoFactorSecret) {
+    const counter = verifyTotp(user.twoFactorSecret, input.code, {
+      afterCounter: user.twoFactorLastCounter ?? undefined,
+    })
+    if (counter === null) return false
+
+    const accepted = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { twoFactorLastCounter: null },
+          { twoFactorLastCounter: { lt: counter } },
+        ],
+      },
+      data: { twoFactorLastCounter: counter },
+    })
+    return accepted.count === 1
+  }
+
+  if (input.recoveryCode) {
+    const used = await prisma.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId: user.id,
+        codeHash: hashToken(normalizeRecoveryCode(input.recoveryCode)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    })
+    return used.count === 1
+  }
+
+  return false
+}
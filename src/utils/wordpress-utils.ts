@@ -0,0 +1,801 @@
+import {
+  CONTENT_SCHEMA_VERSION,
+  detectEmbedProvider,
+  MARKS,
+  parsePostContent,
+  type ContentBlock,
+  type ContentInline,
+  type PostContent,
+} from "@/utils/content-utils"
+
+/**
+ * Leitura do export WXR (RSS + namespace `wp:`) do WordPress e conversão do
+ * HTML dos posts para o documento em blocos. Só funções puras: a gravação
+ * fica no job ImportWordPress.
+ */
+
+// ---------------------------------------------------------------------------
+// Entidades HTML/XML
+// ---------------------------------------------------------------------------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  hellip: "…",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  deg: "°",
+  middot: "·",
+  bull: "•",
+}
+
+export function decodeEntities(input: string) {
+  return input.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+// ---------------------------------------------------------------------------
+// XML (o suficiente para WXR: elementos, atributos, CDATA e entidades)
+// ---------------------------------------------------------------------------
+
+export type XmlNode = {
+  name: string
+  attrs: Record<string, string>
+  children: XmlNode[]
+  text: string
+}
+
+const XML_TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+
+function parseAttributes(raw: string) {
+  const attrs: Record<string, string> = {}
+  for (const m of raw.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]] = decodeEntities(m[2] ?? m[3] ?? "")
+  }
+  return attrs
+}
+
+export function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "#root", attrs: {}, children: [], text: "" }
+  const stack = [root]
+
+  for (const m of xml.matchAll(XML_TOKEN)) {
+    const top = stack[stack.length - 1]
+    const [, cdata, closing, opening, attrs, selfClosing, text] = m
+
+    if (cdata !== undefined) {
+      top.text += cdata
+    } else if (text !== undefined) {
+      top.text += decodeEntities(text)
+    } else if (opening) {
+      const node: XmlNode = {
+        name: opening,
+        attrs: parseAttributes(attrs ?? ""),
+        children: [],
+        text: "",
+      }
+      top.children.push(node)
+      if (!selfClosing) stack.push(node)
+    } else if (closing) {
+      const index = stack.map((n) => n.name).lastIndexOf(closing)
+      if (index > 0) stack.length = index
+    }
+  }
+
+  return root
+}
+
+const childrenNamed = (node: XmlNode | undefined, name: string) =>
+  node?.children.filter((c) => c.name === name) ?? []
+
+const childNamed = (node: XmlNode | undefined, name: string) =>
+  node?.children.find((c) => c.name === name)
+
+const textOf = (node: XmlNode | undefined, name: string) =>
+  (childNamed(node, name)?.text ?? "").trim()
+
+// ---------------------------------------------------------------------------
+// WXR
+// ---------------------------------------------------------------------------
+
+export type WxrAuthor = {
+  id: string
+  login: string
+  email: string | null
+  displayName: string
+}
+
+export type WxrComment = {
+  id: string
+  parentId: string | null
+  userId: string | null
+  authorName: string
+  authorEmail: string | null
+  date: Date | null
+  content: string
+  approved: string // "1", "0", "spam", "trash"
+  type: string // "" / "comment", "pingback", "trackback"
+}
+
+export type WxrItem = {
+  id: string
+  type: string // post, page, attachment, nav_menu_item...
+  title: string
+  slug: string
+  status: string // publish, draft, future, pending, private, trash...
+  creator: string
+  date: Date | null
+  content: string
+  excerpt: string
+  password: string
+  parentId: string | null
+  attachmentUrl: string | null
+  categories: string[]
+  tags: string[]
+  meta: Record<string, string>
+  comments: WxrComment[]
+}
+
+export type WxrExport = {
+  siteUrl: string
+  authors: WxrAuthor[]
+  items: WxrItem[]
+}
+
+/** "2019-03-01 12:00:00" (GMT no WXR); "0000-00-00 00:00:00" = sem data */
+function parseWpDate(gmt: string, local: string) {
+  for (const value of [gmt, local]) {
+    if (!value || value.startsWith("0000")) continue
+    const date = new Date(`${value.replace(" ", "T")}Z`)
+    if (!Number.isNaN(date.getTime())) return date
+  }
+  return null
+}
+
+const nonZero = (id: string) => (id && id !== "0" ? id : null)
+
+export function parseWxr(xml: string): WxrExport {
+  const channel = childNamed(childNamed(parseXml(xml), "rss"), "channel")
+  if (!channel) throw new Error("arquivo não é um export WXR (rss/channel)")
+
+  const authors = childrenNamed(channel, "wp:author").map((a) => ({
+    id: textOf(a, "wp:author_id"),
+    login: textOf(a, "wp:author_login"),
+    email: textOf(a, "wp:author_email") || null,
+    displayName:
+      textOf(a, "wp:author_display_name") || textOf(a, "wp:author_login"),
+  }))
+
+  const items = childrenNamed(channel, "item").map((item): WxrItem => {
+    const terms = (domain: string) =>
+      childrenNamed(item, "category")
+        .filter((c) => c.attrs.domain === domain)
+        .map((c) => decodeEntities(c.text.trim()))
+        .filter(Boolean)
+
+    const meta: Record<string, string> = {}
+    for (const m of childrenNamed(item, "wp:postmeta")) {
+      meta[textOf(m, "wp:meta_key")] =
+        childNamed(m, "wp:meta_value")?.text ?? ""
+    }
+
+    return {
+      id: textOf(item, "wp:post_id"),
+      type: textOf(item, "wp:post_type"),
+      // o WordPress guarda títulos com entidades (&#8217;) mesmo dentro de CDATA
+      title: decodeEntities(textOf(item, "title")),
+      slug: (() => {
+        const raw = textOf(item, "wp:post_name")
+        try {
+          return decodeURIComponent(raw)
+        } catch {
+          return raw
+        }
+      })(),
+      status: textOf(item, "wp:status"),
+      creator: textOf(item, "dc:creator"),
+      date: parseWpDate(
+        textOf(item, "wp:post_date_gmt"),
+        textOf(item, "wp:post_date"),
+      ),
+      content: childNamed(item, "content:encoded")?.text ?? "",
+      excerpt: childNamed(item, "excerpt:encoded")?.text ?? "",
+      password: textOf(item, "wp:post_password"),
+      parentId: nonZero(textOf(item, "wp:post_parent")),
+      attachmentUrl: textOf(item, "wp:attachment_url") || null,
+      categories: terms("category"),
+      tags: terms("post_tag"),
+      meta,
+      comments: childrenNamed(item, "wp:comment").map((c) => ({
+        id: textOf(c, "wp:comment_id"),
+        parentId: nonZero(textOf(c, "wp:comment_parent")),
+        userId: nonZero(textOf(c, "wp:comment_user_id")),
+        authorName: textOf(c, "wp:comment_author"),
+        authorEmail: textOf(c, "wp:comment_author_email") || null,
+        date: parseWpDate(
+          textOf(c, "wp:comment_date_gmt"),
+          textOf(c, "wp:comment_date"),
+        ),
+        content: childNamed(c, "wp:comment_content")?.text ?? "",
+        approved: textOf(c, "wp:comment_approved"),
+        type: textOf(c, "wp:comment_type"),
+      })),
+    }
+  })
+
+  return {
+    siteUrl: textOf(channel, "wp:base_site_url") || textOf(channel, "link"),
+    authors,
+    items,
+  }
+}
+
+/** Largura/altura do `_wp_attachment_metadata` (array PHP serializado) */
+export function attachmentSize(serialized: string | undefined) {
+  const read = (key: string) => {
+    const m = serialized?.match(new RegExp(`s:\\d+:"${key}";i:(\\d+);`))
+    return m ? Number(m[1]) : null
+  }
+  return { width: read("width"), height: read("height") }
+}
+
+/**
+ * Chave para casar URLs de mídia no conteúdo com o anexo original:
+ * ignora protocolo, query e o sufixo de miniatura (`-300x200`).
+ */
+export function attachmentUrlKey(url: string) {
+  return url
+    .trim()
+    .replace(/^https?:\/\//i, "")
+    .replace(/[?#].*$/, "")
+    .replace(/-\d+x\d+(?=\.[a-z0-9]+$)/i, "")
+    .toLowerCase()
+}
+
+/** Texto puro de um trecho HTML (comentários, resumos) */
+export function htmlToText(html: string) {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/p>\s*<p[^>]*>/gi, "\n\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .replace(/\u00a0/g, " ")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+// ---------------------------------------------------------------------------
+// HTML -> blocos
+// ---------------------------------------------------------------------------
+
+type HtmlNode =
+  | { tag: string; attrs: Record<string, string>; children: HtmlNode[] }
+  | string
+
+type HtmlElement = Exclude<HtmlNode, string>
+
+const VOID_TAGS = new Set([
+  "br",
+  "img",
+  "hr",
+  "input",
+  "meta",
+  "link",
+  "source",
+  "wbr",
+  "col",
+])
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "pre",
+  "table",
+  "figure",
+  "div",
+  "section",
+  "article",
+  "hr",
+])
+
+const HTML_TOKEN =
+  /<!--[\s\S]*?-->|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>|([^<]+|<)/g
+
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] }
+  const stack: HtmlElement[] = [root]
+  const top = () => stack[stack.length - 1]
+
+  for (const m of html.matchAll(HTML_TOKEN)) {
+    const [, closing, opening, rawAttrs, text] = m
+
+    if (text !== undefined) {
+      top().children.push(decodeEntities(text))
+    } else if (opening) {
+      const tag = opening.toLowerCase()
+      // <p> não contém blocos; <li> novo fecha o anterior
+      if (BLOCK_TAGS.has(tag) && top().tag === "p") stack.pop()
+      if (tag === "li") {
+        const li = stack.map((n) => n.tag).lastIndexOf("li")
+        const list = Math.max(
+          stack.map((n) => n.tag).lastIndexOf("ul"),
+          stack.map((n) => n.tag).lastIndexOf("ol"),
+        )
+        if (li > list && li > 0) stack.length = li
+      }
+
+      const attrs: Record<string, string> = {}
+      for (const a of (rawAttrs ?? "").matchAll(
+        /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g,
+      )) {
+        attrs[a[1].toLowerCase()] = decodeEntities(a[2] ?? a[3] ?? a[4] ?? "")
+      }
+
+      const node: HtmlElement = { tag, attrs, children: [] }
+      top().children.push(node)
+      if (!VOID_TAGS.has(tag) && !m[0].endsWith("/>")) stack.push(node)
+    } else if (closing) {
+      const index = stack.map((n) => n.tag).lastIndexOf(closing.toLowerCase())
+      if (index > 0) stack.length = index
+    }
+  }
+
+  return root.children
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+const shortcodeAttr = (attrs: string, name: string) =>
+  attrs.match(new RegExp(`${name}=["']([^"']*)["']`))?.[1]
+
+/** Shortcodes comuns viram HTML equivalente; os demais são removidos */
+function expandShortcodes(html: string, warnings: string[]) {
+  return (
+    html
+      // [caption]<img/> legenda[/caption]
+      .replace(
+        /\[caption([^\]]*)\]([\s\S]*?)\[\/caption\]/g,
+        (_, _attrs, inner: string) => {
+          const media = inner.match(
+            /^\s*(?:<a[^>]*>\s*)?<img[^>]*>(?:\s*<\/a>)?/,
+          )
+          const caption = media ? inner.slice(media[0].length).trim() : ""
+          return `<figure>${media?.[0] ?? inner}${
+            caption ? `<figcaption>${caption}</figcaption>` : ""
+          }</figure>`
+        },
+      )
+      .replace(/\[embed[^\]]*\]([\s\S]*?)\[\/embed\]/g, "\n\n$1\n\n")
+      // [code lang="php"]...[/code] (SyntaxHighlighter): o conteúdo é texto cru
+      .replace(
+        /\[(code|sourcecode)([^\]]*)\]([\s\S]*?)\[\/\1\]/g,
+        (_, _tag, attrs: string, code: string) => {
+          const language =
+            shortcodeAttr(attrs, "lang") ?? shortcodeAttr(attrs, "language")
+          const cls = language
+            ? ` class="language-${escapeHtml(language)}"`
+            : ""
+          return `<pre><code${cls}>${escapeHtml(code.replace(/^\n|\n$/g, ""))}</code></pre>`
+        },
+      )
+      .replace(/\[gallery([^\]]*)\]/g, (_, attrs: string) => {
+        const ids = (shortcodeAttr(attrs, "ids") ?? "")
+          .split(",")
+          .map((id) => id.trim())
+          .filter(Boolean)
+        if (ids.length === 0) warnings.push("galeria sem ids ignorada")
+        return ids.map((id) => `<img data-attachment-id="${id}">`).join("")
+      })
+      .replace(/\[\/?([a-z_-]+)[^\]]*\]/g, (match, name: string) => {
+        warnings.push(`shortcode [${name}] removido`)
+        return ""
+      })
+  )
+}
+
+export type ImageRef = { src: string; attachmentId?: string }
+
+type Mark = NonNullable<ContentInline["marks"]>[number]
+
+const MARK_BY_TAG: Record<string, Mark> = {
+  strong: "bold",
+  b: "bold",
+  em: "italic",
+  i: "italic",
+  u: "underline",
+  ins: "underline",
+  s: "strike",
+  del: "strike",
+  strike: "strike",
+  code: "code",
+}
+
+type FlowContext = { marks: Mark[]; href?: string; autop: boolean }
+
+function safeHref(raw: string) {
+  try {
+    const url = new URL(raw)
+    return ["http:", "https:", "mailto:"].includes(url.protocol)
+      ? url.toString()
+      : null
+  } catch {
+    return null
+  }
+}
+
+type EmbedBlock = Extract<ContentBlock, { type: "embed" }>
+
+function httpsEmbed(url: string): Omit<EmbedBlock, "type"> | null {
+  const https = url.trim().replace(/^http:\/\//i, "https://")
+  const provider = detectEmbedProvider(https)
+  return provider && safeHref(https) ? { provider, url: https } : null
+}
+
+const textContent = (nodes: HtmlNode[]): string =>
+  nodes
+    .map((n) =>
+      typeof n === "string"
+        ? n
+        : n.tag === "br"
+          ? "\n"
+          : textContent(n.children),
+    )
+    .join("")
+
+const findAll = (nodes: HtmlNode[], tag: string): HtmlElement[] =>
+  nodes.flatMap((n) =>
+    typeof n === "string"
+      ? []
+      : [...(n.tag === tag ? [n] : []), ...findAll(n.children, tag)],
+  )
+
+class BlockBuilder {
+  blocks: ContentBlock[] = []
+  images: { index: number; ref: ImageRef }[] = []
+  private inlines: ContentInline[] = []
+
+  constructor(readonly warnings: string[]) {}
+
+  private pushText(text: string, ctx: FlowContext) {
+    if (!text) return
+    const marks = MARKS.filter((m) => ctx.marks.includes(m))
+    this.inlines.push({
+      text,
+      ...(marks.length ? { marks } : {}),
+      ...(ctx.href ? { href: ctx.href } : {}),
+    })
+  }
+
+  /** Normaliza espaços e junta trechos com a mesma formatação */
+  private takeInlines() {
+    const merged: ContentInline[] = []
+    for (const inline of this.inlines) {
+      const last = merged[merged.length - 1]
+      if (
+        last &&
+        last.href === inline.href &&
+        (last.marks ?? []).join() === (inline.marks ?? []).join()
+      ) {
+        last.text += inline.text
+      } else {
+        merged.push({ ...inline })
+      }
+    }
+    this.inlines = []
+
+    for (const inline of merged) {
+      if (inline.marks?.includes("code")) continue
+      inline.text = inline.text.replace(/[ \t\r\u00a0]*\n[ \t\r\u00a0]*/g, "\n")
+    }
+    if (merged[0] && !merged[0].marks?.includes("code")) {
+      merged[0].text = merged[0].text.replace(/^\s+/, "")
+    }
+    const last = merged[merged.length - 1]
+    if (last && !last.marks?.includes("code")) {
+      last.text = last.text.replace(/\s+$/, "")
+    }
+    return merged.filter((i) => i.text.length > 0)
+  }
+
+  flush() {
+    const children = this.takeInlines()
+    if (children.length === 0) return
+
+    // URL sozinha no parágrafo: auto-embed do WordPress
+    const text = children.map((c) => c.text).join("")
+    const embed = /^\S+$/.test(text) ? httpsEmbed(text) : null
+    if (embed) {
+      this.blocks.push({ type: "embed", ...embed })
+      return
+    }
+    this.blocks.push({ type: "paragraph", children })
+  }
+
+  /** Inlines de um trecho, sem mexer no parágrafo em andamento */
+  capture(nodes: HtmlNode[], ctx: FlowContext) {
+    const saved = this.inlines
+    this.inlines = []
+    this.inline(nodes, { ...ctx, autop: false })
+    const children = this.takeInlines()
+    this.inlines = saved
+    return children
+  }
+
+  private image(node: HtmlElement, caption?: string) {
+    const src = node.attrs.src ?? ""
+    // classe "wp-image-123" aponta o anexo mesmo com a URL de miniatura
+    const attachmentId =
+      node.attrs["data-attachment-id"] ??
+      node.attrs.class?.match(/\bwp-image-(\d+)\b/)?.[1]
+    if (!src && !attachmentId) return
+
+    this.images.push({
+      index: this.blocks.length,
+      ref: { src, ...(attachmentId ? { attachmentId } : {}) },
+    })
+    this.blocks.push({
+      type: "image",
+      mediaId: "",
+      alt: (node.attrs.alt ?? "").trim().slice(0, 300),
+      ...(caption ? { caption: caption.slice(0, 500) } : {}),
+    })
+  }
+
+  private inline(nodes: HtmlNode[], ctx: FlowContext) {
+    for (const node of nodes) {
+      if (typeof node === "string") {
+        if (!ctx.autop) {
+          this.pushText(node.replace(/\s+/g, " "), ctx)
+          continue
+        }
+        // wpautop: linha em branco separa parágrafos, quebra simples vira <br>
+        node.split(/\n[ \t]*\n\s*/).forEach((part, index) => {
+          if (index > 0) this.flush()
+          this.pushText(part.replace(/[ \t]+/g, " "), ctx)
+        })
+        continue
+      }
+
+      if (node.tag === "br") {
+        this.pushText("\n", ctx)
+      } else if (node.tag === "img") {
+        // imagem no meio do texto vira bloco próprio
+        this.flush()
+        this.image(node)
+      } else if (node.tag === "a") {
+        const href = safeHref(node.attrs.href ?? "")
+        this.inline(node.children, { ...ctx, href: href ?? ctx.href })
+      } else if (MARK_BY_TAG[node.tag]) {
+        this.inline(node.children, {
+          ...ctx,
+          marks: [...ctx.marks, MARK_BY_TAG[node.tag]],
+        })
+      } else if (BLOCK_TAGS.has(node.tag)) {
+        // bloco dentro de um trecho capturado (ex.: <p> na citação)
+        if (this.inlines.length > 0) this.pushText("\n", ctx)
+        this.inline(node.children, ctx)
+      } else if (node.tag !== "script" && node.tag !== "style") {
+        this.inline(node.children, ctx)
+      }
+    }
+  }
+
+  private listItems(list: HtmlElement): { children: ContentInline[] }[] {
+    return list.children.flatMap((li) => {
+      if (typeof li === "string" || li.tag !== "li") return []
+      const nested = li.children.filter(
+        (c): c is HtmlElement =>
+          typeof c !== "string" && (c.tag === "ul" || c.tag === "ol"),
+      )
+      const own = li.children.filter((c) => !nested.includes(c as HtmlElement))
+      const children = this.capture(own, { marks: [], autop: false })
+      // o schema tem um nível de lista: sublistas viram itens seguintes
+      return [
+        ...(children.length ? [{ children }] : []),
+        ...nested.flatMap((n) => this.listItems(n)),
+      ]
+    })
+  }
+
+  walk(nodes: HtmlNode[], autop: boolean) {
+    const ctx: FlowContext = { marks: [], autop }
+
+    for (const node of nodes) {
+      if (typeof node === "string" || !BLOCK_TAGS.has(node.tag)) {
+        if (typeof node !== "string" && node.tag === "iframe") {
+          this.flush()
+          const embed = httpsEmbed(node.attrs.src ?? "")
+          if (embed) this.blocks.push({ type: "embed", ...embed })
+          else this.warnings.push(`iframe ignorado: ${node.attrs.src ?? ""}`)
+          continue
+        }
+        this.inline([node], ctx)
+        continue
+      }
+
+      this.flush()
+      const tag = node.tag
+
+      if (tag === "p") {
+        this.inline(node.children, { ...ctx, autop: false })
+        this.flush()
+      } else if (/^h[1-6]$/.test(tag)) {
+        const children = this.capture(node.children, ctx)
+        if (children.length) {
+          this.blocks.push({
+            type: "heading",
+            // h1 é o título do post
+            level: Math.min(4, Math.max(2, Number(tag[1]))),
+            children: children.map((c) => ({
+              ...c,
+              text: c.text.replace(/\n/g, " "),
+            })),
+          })
+        }
+      } else if (tag === "ul" || tag === "ol") {
+        const items = this.listItems(node)
+        if (items.length) {
+          this.blocks.push({
+            type: "list",
+            style: tag === "ol" ? "ordered" : "unordered",
+            items,
+          })
+        }
+      } else if (tag === "blockquote") {
+        const cite = findAll(node.children, "cite")[0]
+        const body = node.children.filter((c) => c !== cite)
+        const children = this.capture(body, ctx)
+        const citeText = cite ? textContent(cite.children).trim() : ""
+        if (children.length || citeText) {
+          this.blocks.push({
+            type: "quote",
+            children,
+            ...(citeText ? { cite: citeText.slice(0, 300) } : {}),
+          })
+        }
+      } else if (tag === "pre") {
+        const code = findAll(node.children, "code")[0]
+        const language = (code?.attrs.class ?? node.attrs.class ?? "").match(
+          /(?:language|lang|brush)[-:]\s*([\w+#-]+)/,
+        )?.[1]
+        this.blocks.push({
+          type: "code",
+          ...(language ? { language: language.slice(0, 40) } : {}),
+          code: textContent(node.children).replace(/^\n|\n$/g, ""),
+        })
+      } else if (tag === "table") {
+        const rows = findAll(node.children, "tr").map((tr) =>
+          tr.children.filter(
+            (c): c is HtmlElement =>
+              typeof c !== "string" && (c.tag === "td" || c.tag === "th"),
+          ),
+        )
+        const nonEmpty = rows.filter((r) => r.length > 0).slice(0, 200)
+        if (nonEmpty.length) {
+          this.blocks.push({
+            type: "table",
+            header: nonEmpty[0].every((cell) => cell.tag === "th"),
+            rows: nonEmpty.map((r) =>
+              r.slice(0, 20).map((cell) => ({
+                children: this.capture(cell.children, ctx),
+              })),
+            ),
+          })
+        }
+      } else if (tag === "figure") {
+        const img = findAll(node.children, "img")[0]
+        const iframe = findAll(node.children, "iframe")[0]
+        const figcaption = findAll(node.children, "figcaption")[0]
+        const caption = figcaption
+          ? textContent(figcaption.children).trim()
+          : undefined
+
+        if (img) {
+          this.image(img, caption)
+        } else if (iframe || !findAll(node.children, "table").length) {
+          // bloco de embed do Gutenberg: iframe ou a URL como texto
+          const source =
+            iframe?.attrs.src ??
+            textContent(node.children.filter((c) => c !== figcaption)).trim()
+          const embed = httpsEmbed(source)
+          if (embed) {
+            this.blocks.push({
+              type: "embed",
+              ...embed,
+              ...(caption ? { caption: caption.slice(0, 500) } : {}),
+            })
+          } else {
+            this.walk(node.children, false)
+          }
+        } else {
+          this.walk(node.children, false)
+        }
+      } else if (tag !== "hr") {
+        // div/section/article: contêineres transparentes
+        this.walk(node.children, autop)
+      }
+
+      this.flush()
+    }
+
+    this.flush()
+  }
+}
+
+export type HtmlConversion = {
+  blocks: ContentBlock[]
+  // blocos de imagem ainda sem mediaId, resolvidos por quem chama
+  images: { index: number; ref: ImageRef }[]
+  warnings: string[]
+}
+
+/** Converte o HTML do WordPress (clássico ou Gutenberg) em blocos */
+export function htmlToBlocks(html: string): HtmlConversion {
+  const warnings: string[] = []
+  const builder = new BlockBuilder(warnings)
+  builder.walk(parseHtml(expandShortcodes(html, warnings)), true)
+  return { blocks: builder.blocks, images: builder.images, warnings }
+}
+
+/**
+ * Finaliza a conversão com os ids de mídia resolvidos;
+ * imagens sem mídia correspondente saem do documento (com aviso).
+ */
+export function finishConversion(
+  conversion: HtmlConversion,
+  mediaIds: (string | null)[],
+): PostContent {
+  const missing = new Set<number>()
+  conversion.images.forEach(({ index, ref }, i) => {
+    const mediaId = mediaIds[i]
+    if (mediaId) {
+      ;(
+        conversion.blocks[index] as Extract<ContentBlock, { type: "image" }>
+      ).mediaId = mediaId
+    } else {
+      missing.add(index)
+      conversion.warnings.push(
+        `imagem sem anexo correspondente removida: ${ref.src || `#${ref.attachmentId}`}`,
+      )
+    }
+  })
+
+  return parsePostContent({
+    version: CONTENT_SCHEMA_VERSION,
+    blocks: conversion.blocks.filter((_, index) => !missing.has(index)),
+  })
+}